@@ -1,4 +1,12 @@
-const CACHE_NAME = 'sub-track-v1';
+const CACHE_NAME = 'sub-track-v2';
+// Scheduled reminders live in their own cache so they survive updates
+const REMINDER_CACHE = 'sub-track-reminders';
+const REMINDER_KEY = './reminders.json';
+// Reminders found later than this (the device was off or the browser closed)
+// are dropped rather than shown out of date
+const REMINDER_GRACE_MS = 60 * 60 * 1000;
+// setTimeout can't wait longer than ~24 days; check again at least hourly
+const REMINDER_MAX_WAIT_MS = 60 * 60 * 1000;
 // Use relative paths so the service worker works when served under a repo subpath
 // (e.g. /sub-track/ on GitHub Pages). Relative paths resolve from the service
 // worker's location.
@@ -20,7 +28,7 @@ self.addEventListener('activate', (event) => {
     caches.keys().then((keys) =>
       Promise.all(
         keys.map((key) => {
-          if (key !== CACHE_NAME) return caches.delete(key);
+          if (key !== CACHE_NAME && key !== REMINDER_CACHE) return caches.delete(key);
         })
       )
     )
@@ -43,3 +51,79 @@ self.addEventListener('fetch', (event) => {
       .catch(() => caches.match(event.request).then((r) => r || caches.match('./index.html')))
   );
 });
+
+// Reminders. The app sends the full list of upcoming reminders whenever it
+// changes; the worker shows each one when it falls due and remembers which
+// ids it has shown so replanning never repeats one.
+async function readReminders() {
+  const cache = await caches.open(REMINDER_CACHE);
+  const res = await cache.match(REMINDER_KEY);
+  return res ? res.json() : { reminders: [], shown: [] };
+}
+
+async function writeReminders(state) {
+  const cache = await caches.open(REMINDER_CACHE);
+  await cache.put(REMINDER_KEY, new Response(JSON.stringify(state), { headers: { 'Content-Type': 'application/json' } }));
+}
+
+// Messages and timers can overlap; run the reads and writes one at a time
+let reminderQueue = Promise.resolve();
+const serial = (fn) => (reminderQueue = reminderQueue.then(fn, fn));
+
+let reminderTimer;
+
+async function showDueReminders() {
+  const state = await readReminders();
+  const now = Date.now();
+  const shown = new Set(state.shown);
+  const granted = self.Notification && Notification.permission === 'granted';
+  for (const r of state.reminders) {
+    if (r.at > now || shown.has(r.id)) continue;
+    shown.add(r.id);
+    if (!granted || now - r.at > REMINDER_GRACE_MS) continue;
+    try {
+      await self.registration.showNotification(r.title, { body: r.body, tag: r.id, data: { kind: r.kind } });
+    } catch (err) {
+      console.warn('Failed to show reminder', err);
+    }
+  }
+  const reminders = state.reminders.filter((r) => !shown.has(r.id));
+  await writeReminders({ reminders, shown: Array.from(shown).slice(-200) });
+
+  // Wait for the next one for as long as the browser keeps the worker running
+  clearTimeout(reminderTimer);
+  if (reminders.length) {
+    const next = Math.min(...reminders.map((r) => r.at));
+    reminderTimer = setTimeout(() => serial(showDueReminders), Math.min(Math.max(0, next - now), REMINDER_MAX_WAIT_MS));
+  }
+}
+
+self.addEventListener('message', (event) => {
+  const data = event.data || {};
+  if (data.type === 'reminders') {
+    event.waitUntil(
+      serial(async () => {
+        const state = await readReminders();
+        await writeReminders({ reminders: data.reminders || [], shown: state.shown });
+        await showDueReminders();
+      })
+    );
+  } else if (data.type === 'check-reminders') {
+    event.waitUntil(serial(showDueReminders));
+  }
+});
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === 'reminders') event.waitUntil(serial(showDueReminders));
+});
+
+// Bring the app to the front, or open it, when a reminder is tapped
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      if (windows.length) return windows[0].focus();
+      return self.clients.openWindow('./');
+    })
+  );
+});
@@ -1,112 +1,261 @@
 import React, { useEffect, useState, FormEvent, useMemo, useRef } from 'react'
-import { getAllLogs as dbGetAll, addLog as dbAddLog, updateLog as dbUpdateLog, deleteLog as dbDeleteLog, clearAll as dbClearAll, init as dbInit, exportRaw as dbExportRaw, importRaw as dbImportRaw } from './db'
-import { LogEntry, SUBSTANCE_OPTIONS, FEELING_OPTIONS, DOSAGE_OPTIONS, defaultSubstanceColors, formatDateTime } from './constants'
+import { getAllLogs as dbGetAll, addLog as dbAddLog, updateLog as dbUpdateLog, deleteLog as dbDeleteLog, restoreLog as dbRestoreLog, purgeLog as dbPurgeLog, getLogRevisions as dbGetLogRevisions, setFollowUp as dbSetFollowUp, openFollowUps as dbOpenFollowUps, clearAll as dbClearAll, restoreCleared as dbRestoreCleared, getTrash as dbGetTrash, emptyTrash as dbEmptyTrash, init as dbInit, exportRaw as dbExportRaw, stageImport as dbStageImport, stageRows as dbStageRows, mergeStaged as dbMergeStaged, replaceWithStaged as dbReplaceWithStaged, discardStaged as dbDiscardStaged, unlock as dbUnlock, isEncryptionEnabled as dbIsEncryptionEnabled, checkPassphrase as dbCheckPassphrase, setPassphrase as dbSetPassphrase, PassphraseRequiredError, WrongPassphraseError, wipeAllData as dbWipeAllData, getSubstances as dbGetSubstances, addSubstance as dbAddSubstance, updateSubstance as dbUpdateSubstance, getGoals as dbGetGoals, addGoal as dbAddGoal, updateGoal as dbUpdateGoal, deleteGoal as dbDeleteGoal, getBreaks as dbGetBreaks, lastUseByDay as dbLastUseByDay, dailyTotals as dbDailyTotals, getTemplates as dbGetTemplates, addTemplate as dbAddTemplate, updateTemplate as dbUpdateTemplate, deleteTemplate as dbDeleteTemplate, reorderTemplates as dbReorderTemplates, suggestTemplates as dbSuggestTemplates, getContextDimensions as dbGetContextDimensions, addContextDimension as dbAddContextDimension, updateContextDimension as dbUpdateContextDimension, deleteContextDimension as dbDeleteContextDimension, addCraving as dbAddCraving, updateCraving as dbUpdateCraving, deleteCraving as dbDeleteCraving, restoreCraving as dbRestoreCraving, purgeCraving as dbPurgeCraving, addBreak as dbAddBreak, deleteBreak as dbDeleteBreak, queryHistory as dbQueryHistory, historyKeys as dbHistoryKeys, countHistory as dbCountHistory, getEntries as dbGetEntries, substancesOf as dbSubstancesOf, countDosageReview as dbCountDosageReview, updateEntries as dbUpdateEntries, deleteEntries as dbDeleteEntries, firstLogTimestamp as dbFirstLogTimestamp, usageOverTime as dbUsageOverTime, cravingsOverTime as dbCravingsOverTime, countBySubstance as dbCountBySubstance, countFeelings as dbCountFeelings, countByHourOfWeek as dbCountByHourOfWeek, countFeelingsBySubstance as dbCountFeelingsBySubstance, feelingDoses as dbFeelingDoses, countByContext as dbCountByContext, resistRates as dbResistRates, followUpSummary as dbFollowUpSummary, flush as dbFlush, onPersistError as dbOnPersistError, onExternalChange as dbOnExternalChange, onDataChange as dbOnDataChange, SchemaVersionError, Row, SubstanceRow, GoalRow, BreakRow, TemplateRow, CravingRow, ContextDimensionRow, HistoryFilter, HistoryCursor, TrendFilter, TrendBucket, TimeSeries, HourOfWeekCount, FeelingCount, FeelingDose, FollowUpSummary, UseDay, DayTotal, ContextCount } from './db'
+import { LogEntry, Substance, Dose, Goal, Break, LogTemplate, Craving, ContextDimension, CravingOutcome, FollowUp, CRAVING_OUTCOMES, FEELING_OPTIONS, FOLLOW_UP_HOURS, FALLBACK_SUBSTANCE_COLOR, TRASH_RETENTION_DAYS, formatDateTime, getDateKey } from './constants'
+import { dailyUsage, describeGoal, goalsBrokenBy, periodStart, weeklyHistory, WeekResult } from './goals'
+import { templateLabel, templateToLog } from './templates'
+import { WEEKS_PER_YEAR, heatmapSpan } from './heatmap'
 
 import { LogItem } from './components/LogItem'
+import { SubstanceManager } from './components/SubstanceManager'
+import { GoalManager } from './components/GoalManager'
+import { TemplateManager } from './components/TemplateManager'
+import { QuickLog, TemplateSuggestionEntry } from './components/QuickLog'
+import { CalendarHeatmap } from './components/CalendarHeatmap'
+import { UsagePatterns } from './components/UsagePatterns'
+import { FeelingInsights } from './components/FeelingInsights'
+import { FollowUpPanel } from './components/FollowUpPanel'
+import { FollowUpTrends } from './components/FollowUpTrends'
+import { GoalProgress } from './components/GoalProgress'
+import { StreakPanel } from './components/StreakPanel'
+import { CravingForm } from './components/CravingForm'
+import { CravingItem } from './components/CravingItem'
+import { ContextPicker } from './components/ContextPicker'
+import { ContextManager } from './components/ContextManager'
+import { DoseInput } from './components/DoseInput'
+import { HistoryFilters, HistoryFilterValue, EMPTY_HISTORY_FILTER, isFiltered } from './components/HistoryFilters'
+import { ImportReview, ImportConflictEntry, Resolution } from './components/ImportReview'
+import { ColumnMapper } from './components/ColumnMapper'
+import { PassphraseForm } from './components/PassphraseForm'
+import { EncryptionSettings } from './components/EncryptionSettings'
+import { LockScreen } from './components/LockScreen'
+import { LockSettings } from './components/LockSettings'
+import { NotificationSettings } from './components/NotificationSettings'
+import { TrashView, TrashEntry } from './components/TrashView'
+import { UndoToast } from './components/UndoToast'
+import { BulkActions } from './components/BulkActions'
+import { ReminderSettings, NotificationState, getReminderSettings, saveReminderSettings, notificationState, requestNotificationPermission, planReminders, scheduleReminders, showTestReminder, reminderPlanKey } from './reminders'
+import { getLockConfig, setPin as lockSetPin, removePin as lockRemovePin, setLockTimeout as lockSetTimeout, verifyPin } from './appLock'
+import { Table, logsToCsv, logsToJson, parseCsv, parseJson } from './fileFormats'
+import { searchTerms } from './search'
+import { applyToLog, applyToCraving, BulkChange } from './bulkEdit'
 
-// --- Helpers for trends ---
-const getDateKey = (iso: string) => {
-  const d = new Date(iso)
-  // yyyy-mm-dd
-  const y = d.getFullYear()
-  const m = String(d.getMonth() + 1).padStart(2, '0')
-  const day = String(d.getDate()).padStart(2, '0')
-  return `${y}-${m}-${day}`
-}
+type ExportFormat = 'sqlite' | 'encrypted' | 'csv' | 'json'
 
-const getDosageWeight = (substance: string, dosageLabel: string): number => {
-  const options = DOSAGE_OPTIONS[substance]
-  if (options) {
-    const found = options.find(opt => opt.label === dosageLabel)
-    if (found) return found.weight
-  }
-  return 0
+// Trigger a browser download of `data`
+function downloadFile(data: BlobPart, fileName: string, type: string) {
+  const blob = new Blob([data], { type })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  a.click()
+  URL.revokeObjectURL(url)
 }
 
-function buildDateRange(days: number | null) {
-  // returns array of date keys from (today - days + 1) .. today inclusive
-  const arr: string[] = []
-  if (days === null) return arr
-  const now = new Date()
-  for (let i = days - 1; i >= 0; i--) {
-    const d = new Date(now)
-    d.setDate(now.getDate() - i)
-    arr.push(getDateKey(d.toISOString()))
-  }
-  return arr
-}
+// --- Row <-> model mapping ---
+// rows use the same shape as LogEntry but feelings is stored as JSON string
+const rowToLog = (r: Row): LogEntry => ({
+  id: r.id,
+  substance: r.substance,
+  feelings: r.feelings ? JSON.parse(r.feelings) : undefined,
+  dose: r.dose_amount !== null && r.dose_unit ? { amount: r.dose_amount, unit: r.dose_unit, route: r.dose_route || undefined } : undefined,
+  dosage: r.dosage || undefined,
+  context: r.context ? JSON.parse(r.context) : undefined,
+  notes: r.notes || undefined,
+  timestamp: r.timestamp,
+  followUp: r.follow_up ? JSON.parse(r.follow_up) : undefined,
+})
 
-function aggregateUsageOverTime(logs: any[], days: number | null, substances: string[]) {
-  const labels = days ? buildDateRange(days) : []
-  const series: Record<string, number[]> = {}
-  const subs = substances.length ? substances : []
-  subs.forEach((s) => {
-    series[s] = labels.map(() => 0)
-  })
-
-  for (const l of logs) {
-    if (!l.substance) continue
-    if (!subs.includes(l.substance)) continue
-    if (!l.timestamp) continue
-    const key = getDateKey(l.timestamp)
-    const idx = labels.indexOf(key)
-    if (idx >= 0) {
-      if (!series[l.substance]) series[l.substance] = labels.map(() => 0)
-
-      let magnitude = 0
-      if (l.dosage) {
-        // Try exact match in DOSAGE_OPTIONS first
-        magnitude = getDosageWeight(l.substance, l.dosage)
-        if (magnitude === 0) {
-          // Try parsing "15 mg" -> 15
-          const parsed = parseFloat(l.dosage)
-          if (!isNaN(parsed)) {
-            magnitude = parsed
-          }
-        }
-      }
+const logToRow = (l: LogEntry): Row => ({
+  id: l.id,
+  substance: l.substance,
+  feelings: l.feelings ? JSON.stringify(l.feelings) : null,
+  dosage: l.dosage ?? null,
+  dose_amount: l.dose ? l.dose.amount : null,
+  dose_unit: l.dose ? l.dose.unit : null,
+  dose_route: l.dose?.route ?? null,
+  context: l.context ? JSON.stringify(l.context) : null,
+  notes: l.notes?.trim() || null,
+  timestamp: l.timestamp,
+  follow_up: l.followUp ? JSON.stringify(l.followUp) : null,
+})
 
-      // If magnitude is 0 (no dosage or failed parse), decide if we should count as 1 or 0.
-      // The user wants "magnitude". For substances like Alcohol where "1 drink" = 1, 
-      // missing dosage usually implies "1 unit" or we could just count as 1 if we want to show *activity* at minimum.
-      // However, if we strictly track "weight", a null dosage is ambiguous. 
-      // Let's fallback to 1 as a "session" default so the chart isn't empty for un-dosaged logs,
-      // which aligns with minimal "usage".
-      if (magnitude === 0) magnitude = 1
+const rowToSubstance = (r: SubstanceRow): Substance => ({
+  id: r.id,
+  name: r.name,
+  color: r.color,
+  archived: !!r.archived,
+  sortOrder: r.sort_order,
+  presets: r.presets ? JSON.parse(r.presets) : [],
+  normalizedUnit: r.normalized_unit,
+  units: r.units ? JSON.parse(r.units) : [],
+})
 
-      series[l.substance][idx] += magnitude
-    }
+const substanceToRow = (s: Substance): SubstanceRow => ({
+  id: s.id,
+  name: s.name,
+  color: s.color,
+  archived: s.archived ? 1 : 0,
+  sort_order: s.sortOrder,
+  presets: JSON.stringify(s.presets),
+  normalized_unit: s.normalizedUnit,
+  units: JSON.stringify(s.units),
+})
+
+const rowToGoal = (r: GoalRow): Goal => ({
+  id: r.id,
+  substanceId: r.substance_id,
+  period: r.period === 'week' ? 'week' : 'day',
+  limit: r.max_amount,
+  weekdays: JSON.parse(r.weekdays || '[]'),
+})
+
+const goalToRow = (g: Goal, sortOrder: number): GoalRow => ({
+  id: g.id,
+  substance_id: g.substanceId,
+  period: g.period,
+  max_amount: g.limit,
+  weekdays: JSON.stringify(g.weekdays),
+  sort_order: sortOrder,
+})
+
+const rowToCraving = (r: CravingRow): Craving => ({
+  id: r.id,
+  substance: r.substance,
+  intensity: r.intensity,
+  feelings: r.feelings ? JSON.parse(r.feelings) : undefined,
+  trigger: r.trigger_text || undefined,
+  outcome: r.outcome as CravingOutcome,
+  timestamp: r.timestamp,
+})
+
+const cravingToRow = (c: Craving): CravingRow => ({
+  id: c.id,
+  substance: c.substance,
+  intensity: c.intensity,
+  feelings: c.feelings ? JSON.stringify(c.feelings) : null,
+  trigger_text: c.trigger ?? null,
+  outcome: c.outcome,
+  timestamp: c.timestamp,
+})
+
+const rowToDimension = (r: ContextDimensionRow): ContextDimension => ({
+  id: r.id,
+  name: r.name,
+  multiple: !!r.multiple,
+  options: JSON.parse(r.options || '[]'),
+  sortOrder: r.sort_order,
+})
+
+const dimensionToRow = (d: ContextDimension): ContextDimensionRow => ({
+  id: d.id,
+  name: d.name,
+  multiple: d.multiple ? 1 : 0,
+  options: JSON.stringify(d.options),
+  sort_order: d.sortOrder,
+})
+
+const rowToBreak = (r: BreakRow): Break => ({ id: r.id, substanceId: r.substance_id, startDate: r.start_date })
+
+const rowToTemplate = (r: TemplateRow): LogTemplate => ({
+  id: r.id,
+  label: r.label,
+  substanceId: r.substance_id,
+  feelings: r.feelings ? JSON.parse(r.feelings) : undefined,
+  dose: r.dose_amount !== null && r.dose_unit ? { amount: r.dose_amount, unit: r.dose_unit, route: r.dose_route || undefined } : undefined,
+  context: r.context ? JSON.parse(r.context) : undefined,
+  sortOrder: r.sort_order,
+})
+
+const templateToRow = (t: LogTemplate): TemplateRow => ({
+  id: t.id,
+  label: t.label,
+  substance_id: t.substanceId,
+  dose_amount: t.dose ? t.dose.amount : null,
+  dose_unit: t.dose ? t.dose.unit : null,
+  dose_route: t.dose?.route ?? null,
+  feelings: t.feelings?.length ? JSON.stringify(t.feelings) : null,
+  context: t.context ? JSON.stringify(t.context) : null,
+  sort_order: t.sortOrder,
+})
+
+type HistoryEntry = { kind: 'use'; entry: LogEntry } | { kind: 'craving'; entry: Craving }
+
+const HISTORY_PAGE_SIZES = [5, 10, 25, 50]
+
+// Most entries listed in a calendar day's tooltip
+const HEATMAP_DAY_ENTRIES = 20
+
+// The History filter bar as a database query; dates are local days, `to` included
+const toHistoryFilter = (v: HistoryFilterValue): HistoryFilter => {
+  const dayStart = (key: string, offset = 0) => {
+    const d = new Date(key + 'T00:00')
+    d.setDate(d.getDate() + offset)
+    return d.toISOString()
+  }
+  return {
+    substances: v.substances,
+    feelings: v.feelings,
+    from: v.from ? dayStart(v.from) : undefined,
+    to: v.to ? dayStart(v.to, 1) : undefined,
+    hasDosage: v.hasDosage,
+    terms: searchTerms(v.text),
   }
+}
 
-  return { labels, series }
+// --- Helpers for trends ---
+// Longer ranges are bucketed by week or month so the charts stay readable
+const trendBucketFor = (days: number | null): TrendBucket => (days === null ? 'month' : days > 30 ? 'week' : 'day')
+
+const TREND_BUCKET_LABELS: Record<TrendBucket, { every: string; per: string }> = {
+  day: { every: 'Daily', per: 'day' },
+  week: { every: 'Weekly', per: 'week' },
+  month: { every: 'Monthly', per: 'month' },
 }
 
-function aggregateFrequencies(logs: any[], days: number | null, filterSubstance: string | 'All' = 'All') {
-  const counts: Record<string, number> = {}
-  const cutoff = days ? Date.now() - days * 24 * 60 * 60 * 1000 : null
-  for (const l of logs) {
-    if (!l.substance) continue
-    if (cutoff && new Date(l.timestamp).getTime() < cutoff) continue
-    if (filterSubstance !== 'All' && l.substance !== filterSubstance) continue
-    counts[l.substance] = (counts[l.substance] || 0) + 1
-  }
-  return counts
+type TrendData = {
+  usage: TimeSeries
+  frequencies: Record<string, number>
+  feelings: Record<string, number>
+  cravings: TimeSeries
+  feelingComparison: { label: string; craving: number; use: number }[]
+  hourOfWeek: HourOfWeekCount[]
+  // Feelings against every substance in the range, whatever the filter
+  feelingsBySubstance: FeelingCount[]
+  entriesBySubstance: Record<string, number>
+  feelingDoses: FeelingDose[]
+  followUps: FollowUpSummary[]
+  resistRates: Record<string, number>
+  // Earliest use entry, where "all time" starts
+  firstEntry: string | null
+  // Use per day from the Monday the range starts in, for goals by week
+  dailyTotals: DayTotal[]
 }
 
-function aggregateFeelings(logs: any[], days: number | null, filterSubstance: string | 'All') {
-  const counts: Record<string, number> = {}
-  const cutoff = days ? Date.now() - days * 24 * 60 * 60 * 1000 : null
-  for (const l of logs) {
-    if (cutoff && new Date(l.timestamp).getTime() < cutoff) continue
-    if (filterSubstance !== 'All' && l.substance !== filterSubstance) continue
-    if (!l.feelings || !Array.isArray(l.feelings)) continue
-    for (const f of l.feelings) counts[f] = (counts[f] || 0) + 1
-  }
-  return counts
+const EMPTY_TRENDS: TrendData = {
+  usage: { labels: [], series: {} },
+  frequencies: {},
+  feelings: {},
+  cravings: { labels: [], series: {} },
+  feelingComparison: [],
+  hourOfWeek: [],
+  feelingsBySubstance: [],
+  entriesBySubstance: {},
+  feelingDoses: [],
+  followUps: [],
+  resistRates: {},
+  firstEntry: null,
+  dailyTotals: [],
+}
+
+// Share (%) of entries tagged with each feeling, so cravings and use can be
+// compared even when one is logged far more often than the other
+function feelingShares(feelings: Record<string, number>, entries: number) {
+  return Object.fromEntries(Object.entries(feelings).map(([k, v]) => [k, entries ? Math.round((v / entries) * 100) : 0]))
 }
 
 // --- Simple SVG chart components ---
-function MultiLineChart({ labels, series }: { labels: string[]; series: Record<string, number[]> }) {
+function MultiLineChart({ labels, series, colors }: { labels: string[]; series: Record<string, number[]>; colors: Record<string, string> }) {
   const width = 640
   const height = 200 // Increased height for labels
   const pad = 32     // Increased padding
@@ -138,8 +287,8 @@ function MultiLineChart({ labels, series }: { labels: string[]; series: Record<s
           if (i % step !== 0 && i !== labels.length - 1) return null
 
           const x = pad + (i / Math.max(1, labels.length - 1)) * (width - pad * 2)
-          // Format date to be short (e.g. "12/03")
-          const shortDate = label.slice(5).replace('-', '/')
+          // Format date to be short (e.g. "12/03", or "12/24" for a month)
+          const shortDate = label.length > 7 ? label.slice(5).replace('-', '/') : `${label.slice(5)}/${label.slice(2, 4)}`
 
           return (
             <text key={i} x={x} y={height - 8} fontSize={16} fill="var(--muted)" textAnchor="middle">
@@ -151,7 +300,7 @@ function MultiLineChart({ labels, series }: { labels: string[]; series: Record<s
 
       {Object.entries(series).map(([name, vals]) => {
         const pts = pointsFor(vals).join(' ')
-        const color = defaultSubstanceColors[name] || '#9fb6ff'
+        const color = colors[name] || FALLBACK_SUBSTANCE_COLOR
         return (
           <g key={name}>
             <polyline fill="none" stroke={color} strokeWidth={4} points={pts} strokeLinejoin="round" strokeLinecap="round" />
@@ -220,135 +369,1336 @@ function HorizontalBarChart({ items }: { items: { label: string; value: number;
   )
 }
 
+const CRAVING_OUTCOME_COLORS: Record<string, string> = { resisted: '#8bd99b', delayed: '#ffd27f', used: '#ff8b8b' }
+
+// Two bars per feeling: share of cravings vs share of use entries
+function FeelingComparisonChart({ items }: { items: { label: string; craving: number; use: number }[] }) {
+  const width = 640
+  const rowHeight = 44
+  const height = Math.max(60, items.length * rowHeight + 40)
+  const padL = 160
+  const padR = 60
+  const barW = (v: number) => ((width - padL - padR) * v) / 100
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} style={{ width: '100%', height: 'auto', maxHeight: Math.min(480, height) }}>
+      <rect x={padL} y={4} width={12} height={12} fill="#ffd27f" rx={3} />
+      <text x={padL + 18} y={15} fontSize={14} fill="var(--muted)">cravings</text>
+      <rect x={padL + 110} y={4} width={12} height={12} fill="#7fbfff" rx={3} />
+      <text x={padL + 128} y={15} fontSize={14} fill="var(--muted)">use</text>
+      {items.map((it, i) => (
+        <g key={it.label} transform={`translate(0, ${30 + i * rowHeight})`}>
+          <text x={8} y={22} fontSize={16} fill="var(--muted)">{it.label}</text>
+          <rect x={padL} y={2} width={barW(it.craving)} height={16} fill="#ffd27f" rx={4} />
+          <text x={padL + barW(it.craving) + 8} y={15} fontSize={13} fill="var(--muted)">{it.craving}%</text>
+          <rect x={padL} y={20} width={barW(it.use)} height={16} fill="#7fbfff" rx={4} />
+          <text x={padL + barW(it.use) + 8} y={33} fontSize={13} fill="var(--muted)">{it.use}%</text>
+        </g>
+      ))}
+    </svg>
+  )
+}
+
+// One row per goal, one cell per week: green met, red missed, grey in progress
+const WEEK_STATUS_COLORS: Record<WeekResult['status'], string> = { met: '#8bd99b', missed: '#ff6b6b', open: 'rgba(255,255,255,0.15)' }
+
+function GoalHistoryChart({ rows }: { rows: { goal: Goal; substance: Substance; weeks: WeekResult[] }[] }) {
+  return (
+    <div style={{ display: 'grid', gap: 10 }}>
+      {rows.map(({ goal, substance, weeks }) => {
+        const met = weeks.filter((w) => w.status === 'met').length
+        const done = weeks.filter((w) => w.status !== 'open').length
+        return (
+          <div key={goal.id}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.85rem', marginBottom: 4 }}>
+              <span>{describeGoal(goal, substance)}</span>
+              <span className="muted">{done ? `${met}/${done} weeks met` : 'first week in progress'}</span>
+            </div>
+            <div className="week-cells">
+              {weeks.map((w) => (
+                <div
+                  key={w.start}
+                  className="week-cell"
+                  style={{ background: WEEK_STATUS_COLORS[w.status] }}
+                  title={`Week of ${w.start}: ${w.status}${goal.period === 'day' && w.missedDays ? ` (${w.missedDays} ${w.missedDays === 1 ? 'day' : 'days'} over)` : ''}${goal.limit > 0 ? `, ${+w.used.toFixed(2)} ${substance.normalizedUnit}` : ''}`}
+                />
+              ))}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
 export default function App() {
-  const [logs, setLogs] = useState<LogEntry[]>([])
+  const [substances, setSubstances] = useState<Substance[]>([])
+  const [showSubstanceManager, setShowSubstanceManager] = useState(false)
+  const [goals, setGoals] = useState<Goal[]>([])
+  const [showGoalManager, setShowGoalManager] = useState(false)
+  const [breaks, setBreaks] = useState<Break[]>([])
+  // Days with use per substance, for streaks
+  const [useDays, setUseDays] = useState<UseDay[]>([])
+  const [templates, setTemplates] = useState<LogTemplate[]>([])
+  const [templateSuggestions, setTemplateSuggestions] = useState<TemplateSuggestionEntry[]>([])
+  const [showTemplateManager, setShowTemplateManager] = useState(false)
+  const [showCravingForm, setShowCravingForm] = useState(false)
+  const [showTrash, setShowTrash] = useState(false)
+  const [trash, setTrash] = useState<TrashEntry[]>([])
+  // The latest change, offered for undo until the toast goes away
+  const [undo, setUndo] = useState<{ id: number; message: string; run: () => Promise<void> } | null>(null)
+  const undoId = useRef(0)
+  const [contextDimensions, setContextDimensions] = useState<ContextDimension[]>([])
+  const [showContextManager, setShowContextManager] = useState(false)
+  const [context, setContext] = useState<Record<string, string[]> | undefined>(undefined)
   const [substance, setSubstance] = useState('')
   const [feelings, setFeelings] = useState<string[]>([])
-  const [dosage, setDosage] = useState('')
+  const [dose, setDose] = useState<Dose | undefined>(undefined)
+  const [notes, setNotes] = useState('')
+  // Hours until the check-in for new entries; 0 for none. Kept between entries.
+  const [followUpHours, setFollowUpHours] = useState(0)
+  const [showFollowUps, setShowFollowUps] = useState(false)
+  // Re-read every minute so check-ins show up as they fall due
+  const [now, setNow] = useState(() => Date.now())
 
   const [dbReady, setDbReady] = useState(false)
+  // Bumped on every change to the data, so what is shown is read again
+  const [dataVersion, setDataVersion] = useState(0)
+  // How many entries there are, for the History header and empty states
+  const [entryCounts, setEntryCounts] = useState({ uses: 0, cravings: 0 })
+  const [reviewCount, setReviewCount] = useState(0)
+  const [dbError, setDbError] = useState<string | null>(null)
+  // Changes are kept in memory but couldn't be written to this device's storage
+  const [saveError, setSaveError] = useState<string | null>(null)
+  // A new entry that couldn't be added; the form keeps what was typed
+  const [addError, setAddError] = useState<string | null>(null)
+  // The stored DB is encrypted and waiting for its passphrase
+  const [needsPassphrase, setNeedsPassphrase] = useState(false)
+  const [encryptionEnabled, setEncryptionEnabled] = useState(false)
+  // App lock: null while the stored lock settings are being read
+  const [locked, setLocked] = useState<boolean | null>(null)
+  const [lockEnabled, setLockEnabled] = useState(false)
+  const [lockTimeout, setLockTimeout] = useState(5)
+  // Reminders: null while the stored settings are being read
+  const [reminderSettings, setReminderSettings] = useState<ReminderSettings | null>(null)
+  const [notificationPermission, setNotificationPermission] = useState<NotificationState>(() => notificationState())
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const [importError, setImportError] = useState<string | null>(null)
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('sqlite')
+  const [pendingMapping, setPendingMapping] = useState<{ fileName: string; table: Table } | null>(null)
+  // An encrypted backup waiting for its passphrase before it can be staged
+  const [pendingEncryptedFile, setPendingEncryptedFile] = useState<File | null>(null)
+  const [askExportPassphrase, setAskExportPassphrase] = useState(false)
+  const [pendingImport, setPendingImport] = useState<{
+    fileName: string
+    canReplace: boolean
+    newCount: number
+    identicalCount: number
+    newSubstances: string[]
+    newCravingCount: number
+    conflicts: ImportConflictEntry[]
+  } | null>(null)
+
+  const [isFeelingsHovered, setIsFeelingsHovered] = useState(false)
+
+
+  // Initialize DB and load the small tables; entries are queried as shown
+  const loadAll = async (isMounted: () => boolean = () => true) => {
+    const substanceRows = await dbGetSubstances()
+    const goalRows = await dbGetGoals()
+    const breakRows = await dbGetBreaks()
+    const templateRows = await dbGetTemplates()
+    const dimensionRows = await dbGetContextDimensions()
+    const encrypted = await dbIsEncryptionEnabled()
+    if (!isMounted()) return
+    setSubstances(substanceRows.map(rowToSubstance))
+    setGoals(goalRows.map(rowToGoal))
+    setBreaks(breakRows.map(rowToBreak))
+    setTemplates(templateRows.map(rowToTemplate))
+    setContextDimensions(dimensionRows.map(rowToDimension))
+    setEncryptionEnabled(encrypted)
+    setDbReady(true)
+    setDataVersion((v) => v + 1)
+  }
+
+  const openDb = async (isMounted: () => boolean = () => true) => {
+    try {
+      await dbInit()
+      await loadAll(isMounted)
+    } catch (e) {
+      console.warn('Failed to initialize DB', e)
+      if (isMounted() && e instanceof PassphraseRequiredError) setNeedsPassphrase(true)
+      if (isMounted() && e instanceof SchemaVersionError) setDbError(e.message)
+    }
+  }
+
+  useEffect(
+    () =>
+      dbOnPersistError((err) => {
+        setSaveError(err ? (err instanceof Error && err.message ? err.message : String(err)) : null)
+      }),
+    []
+  )
+
+  useEffect(() => dbOnDataChange(() => setDataVersion((v) => v + 1)), [])
+
+  // Another open tab changed the data; read it again so this one shows it too
+  useEffect(() => {
+    if (!dbReady) return
+    return dbOnExternalChange(() => void openDb())
+  }, [dbReady])
+
+  const handleRetrySave = async () => {
+    try {
+      await dbFlush()
+    } catch (err) {
+      console.warn('Failed to save', err)
+    }
+  }
+
+  // Read the lock settings first; the DB is only opened once unlocked
+  useEffect(() => {
+    let mounted = true
+      ; (async () => {
+        const config = await getLockConfig()
+        if (!mounted) return
+        setLockEnabled(!!config)
+        if (config) setLockTimeout(config.timeoutMinutes)
+        setLocked(!!config)
+        if (!config) await openDb(() => mounted)
+      })()
+    return () => {
+      mounted = false
+    }
+  }, [])
+
+  // Drop everything derived from the log so nothing lingers in React state
+  // (or the DOM) while locked
+  const lockNow = () => {
+    setEntryCounts({ uses: 0, cravings: 0 })
+    setReviewCount(0)
+    setSubstances([])
+    setGoals([])
+    setBreaks([])
+    setUseDays([])
+    setTrends(EMPTY_TRENDS)
+    setHeatmapTotals([])
+    setOpenFollowUps([])
+    setWeekTotals([])
+    setContextBreakdown([])
+    setSelectionSubstances([])
+    setShowCravingForm(false)
+    setContextDimensions([])
+    setShowContextManager(false)
+    setContext(undefined)
+    setShowGoalManager(false)
+    setTemplates([])
+    setTemplateSuggestions([])
+    setShowTemplateManager(false)
+    setShowFollowUps(false)
+    setDbReady(false)
+    setSubstance('')
+    setFeelings([])
+    setDose(undefined)
+    setNotes('')
+    setHistoryFilter(EMPTY_HISTORY_FILTER)
+    setHistoryPage(null)
+    setPageCursors([null])
+    setShowSubstanceManager(false)
+    setPendingImport(null)
+    setPendingMapping(null)
+    setPendingEncryptedFile(null)
+    setShowTrash(false)
+    setTrash([])
+    setUndo(null)
+    setSelecting(false)
+    setSelected(new Set())
+    dbDiscardStaged()
+    setLocked(true)
+  }
+
+  const handleLockUnlock = async (pin: string) => {
+    const result = await verifyPin(pin)
+    if (result.ok) {
+      setLocked(false)
+      await openDb()
+    }
+    return result
+  }
+
+  const handleWipe = async () => {
+    await dbWipeAllData()
+    await lockRemovePin()
+    window.location.reload()
+  }
+
+  const handleSetPin = async (pin: string, timeoutMinutes: number) => {
+    await lockSetPin(pin, timeoutMinutes)
+    setLockEnabled(true)
+  }
+
+  const handleChangePin = async (current: string, next: string) => {
+    if (!(await verifyPin(current)).ok) return false
+    await lockSetPin(next, lockTimeout)
+    return true
+  }
+
+  const handleRemovePin = async (current: string) => {
+    if (!(await verifyPin(current)).ok) return false
+    await lockRemovePin()
+    setLockEnabled(false)
+    return true
+  }
+
+  const handleLockTimeoutChange = (minutes: number) => {
+    setLockTimeout(minutes)
+    lockSetTimeout(minutes).catch((err) => console.warn('Failed to save lock timeout', err))
+  }
+
+  useEffect(() => {
+    let mounted = true
+      ; (async () => {
+        try {
+          const settings = await getReminderSettings()
+          if (mounted) setReminderSettings(settings)
+        } catch (err) {
+          console.warn('Failed to load reminder settings', err)
+        }
+      })()
+    return () => {
+      mounted = false
+    }
+  }, [])
+
+  const handleReminderSettingsChange = (settings: ReminderSettings) => {
+    setReminderSettings(settings)
+    saveReminderSettings(settings).catch((err) => console.warn('Failed to save reminder settings', err))
+  }
+
+  const handleRequestNotificationPermission = async () => {
+    const permission = await requestNotificationPermission()
+    setNotificationPermission(permission)
+    if (permission === 'granted' && reminderSettings && !reminderSettings.enabled) handleReminderSettingsChange({ ...reminderSettings, enabled: true })
+  }
+
+  const handleCancelReminder = (id: string) => {
+    if (reminderSettings) handleReminderSettingsChange({ ...reminderSettings, cancelled: [...reminderSettings.cancelled, id] })
+  }
+
+  // With the app lock on, notifications never name substances
+  const effectiveReminderSettings = useMemo(
+    () => reminderSettings && { ...reminderSettings, discreet: reminderSettings.discreet || lockEnabled },
+    [reminderSettings, lockEnabled]
+  )
+
+  const handleTestReminder = async () => {
+    if (!effectiveReminderSettings) return false
+    try {
+      return await showTestReminder(effectiveReminderSettings)
+    } catch (err) {
+      console.warn('Failed to show test notification', err)
+      return false
+    }
+  }
+
+  // Auto-lock after the configured time in the background or without input
+  useEffect(() => {
+    if (!lockEnabled || locked !== false) return
+    const timeoutMs = lockTimeout * 60 * 1000
+    let hiddenAt: number | null = null
+    let idleTimer: number | undefined
+    const resetIdle = () => {
+      window.clearTimeout(idleTimer)
+      if (timeoutMs > 0) idleTimer = window.setTimeout(lockNow, timeoutMs)
+    }
+    const onVisibility = () => {
+      if (document.hidden) {
+        hiddenAt = Date.now()
+        if (timeoutMs === 0) lockNow()
+      } else if (hiddenAt !== null && Date.now() - hiddenAt >= timeoutMs) {
+        lockNow()
+      } else {
+        hiddenAt = null
+        resetIdle()
+      }
+    }
+    const activity = ['pointerdown', 'keydown', 'touchstart', 'wheel']
+    document.addEventListener('visibilitychange', onVisibility)
+    activity.forEach((ev) => window.addEventListener(ev, resetIdle, { passive: true }))
+    resetIdle()
+    return () => {
+      window.clearTimeout(idleTimer)
+      document.removeEventListener('visibilitychange', onVisibility)
+      activity.forEach((ev) => window.removeEventListener(ev, resetIdle))
+    }
+  }, [lockEnabled, locked, lockTimeout])
+
+  const handleUnlock = async (passphrase: string) => {
+    try {
+      await dbUnlock(passphrase)
+    } catch (e) {
+      if (e instanceof SchemaVersionError) {
+        setNeedsPassphrase(false)
+        setDbError(e.message)
+        return
+      }
+      throw e
+    }
+    await loadAll()
+    setNeedsPassphrase(false)
+  }
+
+  const handleEnableEncryption = async (passphrase: string) => {
+    await dbSetPassphrase(passphrase)
+    setEncryptionEnabled(true)
+  }
+
+  const handleChangePassphrase = async (current: string, next: string) => {
+    if (!(await dbCheckPassphrase(current))) throw new WrongPassphraseError()
+    await dbSetPassphrase(next)
+  }
+
+  const handleDisableEncryption = async (current: string) => {
+    if (!(await dbCheckPassphrase(current))) throw new WrongPassphraseError()
+    await dbSetPassphrase(null)
+    setEncryptionEnabled(false)
+  }
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    if (!substance.trim()) return
+    const newLog: LogEntry = {
+      id: crypto.randomUUID(),
+      substance: substance.trim(),
+      feelings: feelings.length ? feelings : undefined,
+      dose,
+      context,
+      notes: notes.trim() || undefined,
+      timestamp: new Date().toISOString(),
+    }
+    if (followUpHours) newLog.followUp = { dueAt: new Date(Date.now() + followUpHours * 60 * 60 * 1000).toISOString() }
+    if (!(await addLogEntry(newLog))) return
+
+    setSubstance('')
+    setFeelings([])
+    setDose(undefined)
+    setContext(undefined)
+    setNotes('')
+    setPageCursors([null])
+  }
+
+  // Totals for the goal check of an entry: this week's are loaded already,
+  // a backdated entry needs its own week read back
+  const totalsForGoals = async (entry: LogEntry) => {
+    const weeks = Math.round((periodStart('week', new Date()).getTime() - periodStart('week', new Date(entry.timestamp)).getTime()) / (7 * 24 * 60 * 60 * 1000)) + 1
+    return weeks > 1 ? dbDailyTotals(heatmapSpan(weeks), entry.substance) : weekTotals
+  }
+
+  // Save a new entry, asking first if it breaks a goal. Resolves to false if
+  // the user decided not to log it or it couldn't be saved.
+  const addLogEntry = async (newLog: LogEntry) => {
+    setAddError(null)
+    try {
+      const broken = goalsBrokenBy(goals, substancesByName[newLog.substance], await totalsForGoals(newLog), newLog)
+      if (broken.length) {
+        const list = broken.map((g) => `• ${describeGoal(g, substancesByName[newLog.substance])}`).join('\n')
+        if (!confirm(`This entry goes over ${broken.length === 1 ? 'a goal' : 'these goals'}:\n${list}\n\nLog it anyway?`)) return false
+      }
+      // what's shown is read again once the db reports the change
+      await dbAddLog(logToRow(newLog))
+    } catch (err) {
+      console.warn('Failed to save log to DB', err)
+      setAddError(`Couldn't add the entry (${err instanceof Error ? err.message : 'unknown error'}). Please try again.`)
+      return false
+    }
+    offerUndo('Entry added', () => dbPurgeLog(newLog.id))
+    return true
+  }
+
+  const handleQuickLog = async (t: LogTemplate, minutesAgo: number) => {
+    const sub = substances.find((s) => s.id === t.substanceId)
+    if (!sub) return
+    if (await addLogEntry(templateToLog(t, sub, minutesAgo))) setPageCursors([null])
+  }
+
+  // An entry as History shows it, i.e. before the change being made to it
+  const shownLog = (id: string) => historyPage?.entries.find((i) => i.kind === 'use' && i.entry.id === id)?.entry as LogEntry | undefined
+  const shownCraving = (id: string) => historyPage?.entries.find((i) => i.kind === 'craving' && i.entry.id === id)?.entry as Craving | undefined
+
+  const offerUndo = (message: string, run: () => Promise<void>) => {
+    undoId.current += 1
+    setUndo({ id: undoId.current, message, run })
+  }
+
+  const handleUndo = async () => {
+    if (!undo) return
+    setUndo(null)
+    try {
+      await undo.run()
+    } catch (err) {
+      console.warn('Failed to undo', err)
+    }
+  }
+
+  const clearAll = async () => {
+    if (!confirm(`Move all logs and cravings to the trash? You can restore them from there for ${TRASH_RETENTION_DAYS} days.`)) return
+    try {
+      const deletedAt = await dbClearAll()
+      offerUndo('Log cleared', () => dbRestoreCleared(deletedAt))
+    } catch (err) {
+      console.warn('Failed to clear DB', err)
+    }
+  }
+
+  const handleUpdateLog = async (updatedLog: LogEntry) => {
+    const prev = shownLog(updatedLog.id)
+    try {
+      await dbUpdateLog(logToRow(updatedLog))
+      if (prev) offerUndo('Entry updated', () => dbUpdateLog(logToRow(prev)))
+    } catch (err) {
+      console.warn('Failed to update log', err)
+    }
+  }
+
+  const handleDeleteLog = async (id: string) => {
+    try {
+      await dbDeleteLog(id)
+      offerUndo('Entry moved to the trash', () => dbRestoreLog(id))
+    } catch (err) {
+      console.warn('Failed to delete log', err)
+    }
+  }
+
+  const saveFollowUp = async (log: LogEntry, followUp: FollowUp) => {
+    try {
+      await dbSetFollowUp(log.id, JSON.stringify(followUp))
+    } catch (err) {
+      console.warn('Failed to save check-in', err)
+    }
+  }
+
+  const handleCompleteFollowUp = (log: LogEntry, answer: { feelings?: string[]; worthIt?: number }) =>
+    saveFollowUp(log, { ...log.followUp!, ...answer, doneAt: new Date().toISOString() })
+
+  const handleSkipFollowUp = (log: LogEntry) => saveFollowUp(log, { ...log.followUp!, skipped: true, doneAt: new Date().toISOString() })
+
+  const handleLoadRevisions = async (id: string) =>
+    (await dbGetLogRevisions(id)).map((r) => ({ editedAt: r.edited_at, log: rowToLog(r.row) }))
+
+  const handleAddGoal = async (g: Goal) => {
+    try {
+      await dbAddGoal(goalToRow(g, goals.length))
+      setGoals((prev) => [...prev, g])
+    } catch (err) {
+      console.warn('Failed to add goal', err)
+    }
+  }
+
+  const handleUpdateGoal = async (g: Goal) => {
+    try {
+      await dbUpdateGoal(goalToRow(g, goals.findIndex((x) => x.id === g.id)))
+      setGoals((prev) => prev.map((x) => (x.id === g.id ? g : x)))
+    } catch (err) {
+      console.warn('Failed to update goal', err)
+    }
+  }
+
+  const handleDeleteGoal = async (id: string) => {
+    try {
+      await dbDeleteGoal(id)
+      setGoals((prev) => prev.filter((x) => x.id !== id))
+    } catch (err) {
+      console.warn('Failed to delete goal', err)
+    }
+  }
+
+  const handleAddTemplate = async (t: LogTemplate) => {
+    try {
+      await dbAddTemplate(templateToRow(t))
+      setTemplates((prev) => [...prev, t])
+    } catch (err) {
+      console.warn('Failed to add template', err)
+    }
+  }
+
+  const handleUpdateTemplate = async (t: LogTemplate) => {
+    try {
+      await dbUpdateTemplate(templateToRow(t))
+      setTemplates((prev) => prev.map((x) => (x.id === t.id ? t : x)))
+    } catch (err) {
+      console.warn('Failed to update template', err)
+    }
+  }
+
+  const handleDeleteTemplate = async (id: string) => {
+    try {
+      await dbDeleteTemplate(id)
+      setTemplates((prev) => prev.filter((x) => x.id !== id))
+    } catch (err) {
+      console.warn('Failed to delete template', err)
+    }
+  }
+
+  const handleReorderTemplates = async (next: LogTemplate[]) => {
+    try {
+      await dbReorderTemplates(next.map((t) => t.id))
+      setTemplates(next)
+    } catch (err) {
+      console.warn('Failed to reorder templates', err)
+    }
+  }
+
+  // Keep what's filled in on the New Log form (but not the notes) for next time
+  const handleSaveFormAsTemplate = () => {
+    if (!selectedSubstance) return
+    const f = feelings.length ? feelings : undefined
+    void handleAddTemplate({
+      id: crypto.randomUUID(),
+      label: templateLabel(selectedSubstance, dose, f),
+      substanceId: selectedSubstance.id,
+      dose,
+      feelings: f,
+      context,
+      sortOrder: templates.length,
+    })
+  }
+
+  const handleAddCraving = async (c: Craving) => {
+    // Logged now, like a use entry from the form
+    const craving = { ...c, timestamp: new Date().toISOString() }
+    try {
+      await dbAddCraving(cravingToRow(craving))
+      setShowCravingForm(false)
+      setPageCursors([null])
+      offerUndo('Craving added', () => dbPurgeCraving(craving.id))
+    } catch (err) {
+      console.warn('Failed to save craving', err)
+    }
+  }
+
+  const handleUpdateCraving = async (c: Craving) => {
+    const prev = shownCraving(c.id)
+    try {
+      await dbUpdateCraving(cravingToRow(c))
+      if (prev) offerUndo('Craving updated', () => dbUpdateCraving(cravingToRow(prev)))
+    } catch (err) {
+      console.warn('Failed to update craving', err)
+    }
+  }
+
+  const handleDeleteCraving = async (id: string) => {
+    try {
+      await dbDeleteCraving(id)
+      offerUndo('Craving moved to the trash', () => dbRestoreCraving(id))
+    } catch (err) {
+      console.warn('Failed to delete craving', err)
+    }
+  }
+
+  const handleRestoreFromTrash = async (item: TrashEntry) => {
+    try {
+      await (item.kind === 'use' ? dbRestoreLog(item.entry.id) : dbRestoreCraving(item.entry.id))
+    } catch (err) {
+      console.warn('Failed to restore entry', err)
+    }
+  }
+
+  const handlePurgeFromTrash = async (item: TrashEntry) => {
+    try {
+      await (item.kind === 'use' ? dbPurgeLog(item.entry.id) : dbPurgeCraving(item.entry.id))
+      setTrash((t) => t.filter((x) => x !== item))
+    } catch (err) {
+      console.warn('Failed to delete entry', err)
+    }
+  }
+
+  const handleEmptyTrash = async () => {
+    try {
+      await dbEmptyTrash()
+      setTrash([])
+    } catch (err) {
+      console.warn('Failed to empty trash', err)
+    }
+  }
+
+  const handleAddDimension = async (d: ContextDimension) => {
+    try {
+      await dbAddContextDimension(dimensionToRow(d))
+      setContextDimensions((prev) => [...prev, d])
+    } catch (err) {
+      console.warn('Failed to add context dimension', err)
+    }
+  }
+
+  const handleUpdateDimension = async (d: ContextDimension) => {
+    try {
+      await dbUpdateContextDimension(dimensionToRow(d))
+      setContextDimensions((prev) => prev.map((x) => (x.id === d.id ? d : x)))
+    } catch (err) {
+      console.warn('Failed to update context dimension', err)
+    }
+  }
+
+  const handleDeleteDimension = async (id: string) => {
+    try {
+      await dbDeleteContextDimension(id)
+      setContextDimensions((prev) => prev.filter((x) => x.id !== id))
+    } catch (err) {
+      console.warn('Failed to delete context dimension', err)
+    }
+  }
+
+  // Remember a value typed into a picker so it is offered next time
+  const handleAddContextOption = (dimensionId: string, option: string) => {
+    const d = contextDimensions.find((x) => x.id === dimensionId)
+    if (d && !d.options.includes(option)) handleUpdateDimension({ ...d, options: [...d.options, option] })
+  }
+
+  const handleAddBreak = async (substanceId: string, startDate: string) => {
+    const b: Break = { id: crypto.randomUUID(), substanceId, startDate }
+    try {
+      await dbAddBreak({ id: b.id, substance_id: substanceId, start_date: startDate })
+      setBreaks((prev) => [...prev, b].sort((x, y) => x.startDate.localeCompare(y.startDate)))
+    } catch (err) {
+      console.warn('Failed to add break', err)
+    }
+  }
+
+  const handleDeleteBreak = async (id: string) => {
+    try {
+      await dbDeleteBreak(id)
+      setBreaks((prev) => prev.filter((b) => b.id !== id))
+    } catch (err) {
+      console.warn('Failed to delete break', err)
+    }
+  }
+
+  const handleAddSubstance = async (s: Substance) => {
+    try {
+      await dbAddSubstance(substanceToRow(s))
+      setSubstances((prev) => [...prev, s])
+    } catch (err) {
+      console.warn('Failed to add substance', err)
+    }
+  }
+
+  const handleUpdateSubstance = async (s: Substance) => {
+    const prev = substances.find((x) => x.id === s.id)
+    try {
+      await dbUpdateSubstance(substanceToRow(s))
+      setSubstances((list) => list.map((x) => (x.id === s.id ? s : x)))
+      if (prev && prev.name !== s.name) {
+        // db renamed the log rows; keep the form and filter on the substance
+        if (substance === prev.name) setSubstance(s.name)
+        if (trendFilterSubstance === prev.name) setTrendFilterSubstance(s.name)
+      }
+    } catch (err) {
+      console.warn('Failed to update substance', err)
+    }
+  }
+
+  const activeSubstances = useMemo(() => substances.filter((s) => !s.archived), [substances])
+
+  useEffect(() => {
+    const timer = window.setInterval(() => {
+      setNow(Date.now())
+      // Permission can be changed in the browser's settings at any time
+      setNotificationPermission(notificationState())
+    }, 60 * 1000)
+    return () => window.clearInterval(timer)
+  }, [])
+
+  // Check-ins still to do and this week's use, read again after changes and
+  // when a new week starts
+  const [openFollowUps, setOpenFollowUps] = useState<LogEntry[]>([])
+  const [weekTotals, setWeekTotals] = useState<DayTotal[]>([])
+  const weekStart = getDateKey(periodStart('week', new Date(now)).toISOString())
+  useEffect(() => {
+    if (!dbReady || locked !== false) return
+    let mounted = true
+      ; (async () => {
+        try {
+          const [followUps, totals] = await Promise.all([dbOpenFollowUps(), dbDailyTotals(heatmapSpan(1))])
+          if (!mounted) return
+          setOpenFollowUps(followUps.map(rowToLog))
+          setWeekTotals(totals)
+        } catch (err) {
+          console.warn('Failed to load follow-ups', err)
+        }
+      })()
+    return () => {
+      mounted = false
+    }
+  }, [dbReady, locked, dataVersion, weekStart])
+
+  const reminders = useMemo(
+    () =>
+      effectiveReminderSettings && notificationPermission === 'granted'
+        ? planReminders(effectiveReminderSettings, { useDays, followUps: openFollowUps, weekTotals, substances, goals, breaks }, new Date(now))
+        : [],
+    [effectiveReminderSettings, notificationPermission, useDays, openFollowUps, weekTotals, substances, goals, breaks, now]
+  )
+
+  // Keep the service worker's schedule in step with the log. Skipped while
+  // locked, when the log isn't loaded, so the last plan stays in place. The
+  // plan is redone every minute but only sent when it changed, or retried
+  // while there is no worker to take it.
+  const scheduledPlan = useRef<string | null>(null)
+  const reminderKey = reminderPlanKey(reminders)
+  useEffect(() => {
+    if (!dbReady || locked !== false || !reminderSettings || scheduledPlan.current === reminderKey) return
+    scheduledPlan.current = reminderKey
+    scheduleReminders(reminders)
+      .then((sent) => {
+        if (!sent && scheduledPlan.current === reminderKey) scheduledPlan.current = null
+      })
+      .catch((err) => {
+        console.warn('Failed to schedule reminders', err)
+        scheduledPlan.current = null
+      })
+  }, [reminderKey, dbReady, locked, reminderSettings, now])
+
+  const dueFollowUps = useMemo(
+    () => openFollowUps.filter((l) => new Date(l.followUp!.dueAt).getTime() <= now).sort((a, b) => a.followUp!.dueAt.localeCompare(b.followUp!.dueAt)),
+    [openFollowUps, now]
+  )
+  const selectedSubstance = substances.find((s) => s.name === substance)
+  const substanceColors = useMemo(() => Object.fromEntries(substances.map((s) => [s.name, s.color])), [substances])
+  const substancesByName = useMemo(() => Object.fromEntries(substances.map((s) => [s.name, s])), [substances])
+
+  // Goals the entry in the form would break if submitted now
+  const breakingGoals = useMemo(
+    () => (selectedSubstance ? goalsBrokenBy(goals, selectedSubstance, weekTotals, { id: '', substance: selectedSubstance.name, dose, timestamp: new Date().toISOString() }) : []),
+    [goals, selectedSubstance, weekTotals, dose]
+  )
+
+  // Reload everything after an import changed the DB underneath us
+  const reloadFromDb = async () => {
+    setSubstances((await dbGetSubstances()).map(rowToSubstance))
+    setGoals((await dbGetGoals()).map(rowToGoal))
+    setBreaks((await dbGetBreaks()).map(rowToBreak))
+    setContextDimensions((await dbGetContextDimensions()).map(rowToDimension))
+    setPageCursors([null])
+    return (await dbCountHistory({})).uses
+  }
+
+  const handleImportFile = async (file: File) => {
+    setImportError(null)
+    setPendingMapping(null)
+    setPendingEncryptedFile(null)
+    handleCancelImport()
+    const ext = file.name.split('.').pop()?.toLowerCase()
+    if (ext === 'csv' || ext === 'json') {
+      let table: Table
+      try {
+        const text = await file.text()
+        table = ext === 'csv' ? parseCsv(text) : parseJson(text)
+      } catch (err) {
+        console.warn('UI: parse failed', err)
+        setImportError(`Could not read "${file.name}": ${err instanceof Error ? err.message : 'invalid file'}`)
+        return
+      }
+      if (table.records.length === 0) {
+        setImportError(`"${file.name}" has no rows to import.`)
+        return
+      }
+      setPendingMapping({ fileName: file.name, table })
+      return
+    }
+    try {
+      await stageDatabaseFile(file)
+    } catch (err) {
+      console.warn('UI: import failed', err)
+      if (err instanceof PassphraseRequiredError) setPendingEncryptedFile(file)
+      else if (err instanceof SchemaVersionError) setImportError(err.message)
+      else setImportError(`"${file.name}" is not a valid Sub-Track backup. Import .sqlite backups, or CSV/JSON files.`)
+    }
+  }
+
+  // Stage a .sqlite (optionally encrypted) backup and show its merge preview
+  const stageDatabaseFile = async (file: File, passphrase?: string) => {
+    const buffer = await file.arrayBuffer()
+    const preview = await dbStageImport(buffer, passphrase)
+    setPendingImport({
+        fileName: file.name,
+        canReplace: true,
+        newCount: preview.newCount,
+        identicalCount: preview.identicalCount,
+        newSubstances: preview.newSubstances,
+        newCravingCount: preview.newCravingCount,
+        conflicts: preview.conflicts.map((c) => ({ id: c.id, local: rowToLog(c.local), incoming: rowToLog(c.incoming) })),
+    })
+  }
+
+  const handleEncryptedFilePassphrase = async (passphrase: string) => {
+    if (!pendingEncryptedFile) return
+    try {
+      await stageDatabaseFile(pendingEncryptedFile, passphrase)
+    } catch (err) {
+      if (err instanceof WrongPassphraseError) throw err
+      console.warn('UI: import failed', err)
+      setImportError(err instanceof SchemaVersionError ? err.message : `"${pendingEncryptedFile.name}" could not be imported.`)
+    }
+    setPendingEncryptedFile(null)
+  }
+
+  // Rows from a CSV/JSON file passed validation; preview them like a backup
+  const handleMappedRows = async (rows: LogEntry[]) => {
+    if (!pendingMapping) return
+    try {
+      const preview = await dbStageRows(rows.map(logToRow))
+      setPendingImport({
+        fileName: pendingMapping.fileName,
+        canReplace: false,
+        newCount: preview.newCount,
+        identicalCount: preview.identicalCount,
+        newSubstances: preview.newSubstances,
+        newCravingCount: preview.newCravingCount,
+        conflicts: preview.conflicts.map((c) => ({ id: c.id, local: rowToLog(c.local), incoming: rowToLog(c.incoming) })),
+      })
+      setPendingMapping(null)
+    } catch (err) {
+      console.warn('UI: staging rows failed', err)
+      setImportError('Failed to prepare the import. Nothing was changed.')
+    }
+  }
+
+  const handleExport = async () => {
+    const stamp = getDateKey(new Date().toISOString())
+    if (exportFormat === 'encrypted') {
+      setAskExportPassphrase(true)
+      return
+    }
+    try {
+      if (exportFormat === 'csv' || exportFormat === 'json') {
+        // Read for the file only; the app never holds every entry
+        const logs = (await dbGetAll()).map(rowToLog)
+        if (exportFormat === 'csv') downloadFile(logsToCsv(logs, contextDimensions), `subtrack-${stamp}.csv`, 'text/csv;charset=utf-8')
+        else downloadFile(logsToJson(logs, contextDimensions), `subtrack-${stamp}.json`, 'application/json')
+      } else {
+        const data = await dbExportRaw()
+        const buf = data instanceof Uint8Array ? (data as Uint8Array).buffer as ArrayBuffer : (data as any)
+        downloadFile(buf, 'subtrack.sqlite', 'application/octet-stream')
+      }
+    } catch (err) {
+      console.warn('UI: export failed', err)
+    }
+  }
+
+  const handleEncryptedExport = async (passphrase: string) => {
+    const data = await dbExportRaw(passphrase)
+    downloadFile(data.buffer as ArrayBuffer, 'subtrack.sqlite.enc', 'application/octet-stream')
+    setAskExportPassphrase(false)
+  }
+
+  const handleMergeImport = async (resolutions: Record<string, Resolution>) => {
+    if (!pendingImport) return
+    try {
+      await dbMergeStaged(resolutions)
+      const taken = Object.values(resolutions).filter((r) => r === 'incoming').length
+      await reloadFromDb()
+      setPendingImport(null)
+      alert(`Added ${pendingImport.newCount} new entries` + (taken ? ` and updated ${taken} from the imported file` : ''))
+    } catch (err) {
+      console.warn('UI: merge import failed', err)
+      setImportError('Failed to merge the imported data. Nothing was changed.')
+    }
+  }
+
+  const handleReplaceImport = async () => {
+    if (!confirm('Replace ALL data on this device with the imported file? Entries that only exist here will be lost.')) return
+    try {
+      await dbReplaceWithStaged()
+      const count = await reloadFromDb()
+      setPendingImport(null)
+      console.debug('UI: imported DB, rows=', count)
+      alert(`Successfully imported ${count} entries`)
+    } catch (err) {
+      console.warn('UI: replace import failed', err)
+      setImportError('Failed to import database. Please ensure the file is a valid SQLite database.')
+    }
+  }
+
+  const handleCancelImport = () => {
+    dbDiscardStaged()
+    setPendingImport(null)
+  }
+
+  // Trends UI state
+  const [trendDays, setTrendDays] = useState<number | null>(7) // null = all time
+  const [trendFilterSubstance, setTrendFilterSubstance] = useState<string | 'All'>('All')
+
+  // Aggregated in SQLite; re-read whenever entries change
+  const trendBucket = trendBucketFor(trendDays)
+  const [trends, setTrends] = useState<TrendData>(EMPTY_TRENDS)
+  useEffect(() => {
+    // Nothing is read behind the lock screen
+    if (!dbReady || locked !== false) return
+    let mounted = true
+    const filter: TrendFilter = { days: trendDays, substance: trendFilterSubstance === 'All' ? undefined : trendFilterSubstance }
+    const rangeOnly: TrendFilter = { days: trendDays }
+      ; (async () => {
+        try {
+          const [usage, frequencies, feelings, cravingSeries, cravingCounts, cravingFeelings, hourOfWeek, feelingsBySubstance, entriesBySubstance, doses, followUps, resistRates, firstEntry, dailyTotals] = await Promise.all([
+            // Archived substances only get a line when they have doses in range
+            dbUsageOverTime(filter, trendBucket, substances.filter((s) => !s.archived).map((s) => s.name)),
+            dbCountBySubstance(filter),
+            dbCountFeelings(filter),
+            dbCravingsOverTime(filter, trendBucket, CRAVING_OUTCOMES),
+            dbCountBySubstance(filter, 'cravings'),
+            dbCountFeelings(filter, 'cravings'),
+            dbCountByHourOfWeek(filter),
+            dbCountFeelingsBySubstance(rangeOnly),
+            dbCountBySubstance(rangeOnly),
+            dbFeelingDoses(rangeOnly),
+            dbFollowUpSummary(filter),
+            dbResistRates(filter),
+            trendDays ? null : dbFirstLogTimestamp(),
+            // The first week of the range may start up to six days before it
+            dbDailyTotals(trendDays ? trendDays + 6 : null),
+          ])
+          if (!mounted) return
+          const sum = (counts: Record<string, number>) => Object.values(counts).reduce((a, b) => a + b, 0)
+          const craving = feelingShares(cravingFeelings, sum(cravingCounts))
+          const use = feelingShares(feelings, sum(frequencies))
+          setTrends({
+            usage,
+            frequencies,
+            feelings,
+            cravings: cravingSeries,
+            feelingComparison: FEELING_OPTIONS.filter((f) => craving[f] || use[f]).map((f) => ({ label: f, craving: craving[f] || 0, use: use[f] || 0 })),
+            hourOfWeek,
+            feelingsBySubstance,
+            entriesBySubstance,
+            feelingDoses: doses,
+            followUps,
+            resistRates,
+            firstEntry,
+            dailyTotals,
+          })
+        } catch (err) {
+          console.warn('Failed to load trends', err)
+        }
+      })()
+    return () => {
+      mounted = false
+    }
+  }, [dbReady, locked, dataVersion, substances, trendDays, trendBucket, trendFilterSubstance])
+
+  // The calendar reads its own totals, since it spans more than the trend range
+  const [heatmapYears, setHeatmapYears] = useState(1)
+  const [heatmapTotals, setHeatmapTotals] = useState<DayTotal[]>([])
+  useEffect(() => {
+    if (!dbReady || locked !== false) return
+    let mounted = true
+      ; (async () => {
+        try {
+          const days = heatmapSpan(heatmapYears * WEEKS_PER_YEAR)
+          const totals = await dbDailyTotals(days, trendFilterSubstance === 'All' ? undefined : trendFilterSubstance)
+          if (mounted) setHeatmapTotals(totals)
+        } catch (err) {
+          console.warn('Failed to load calendar', err)
+        }
+      })()
+    return () => {
+      mounted = false
+    }
+  }, [dbReady, locked, dataVersion, heatmapYears, trendFilterSubstance])
 
-  const [isFeelingsHovered, setIsFeelingsHovered] = useState(false)
+  // Use entries of one calendar day, for its tooltip
+  const handleLoadHeatmapDay = async (dateKey: string) => {
+    const page = await dbQueryHistory({ ...toHistoryFilter({ ...EMPTY_HISTORY_FILTER, from: dateKey, to: dateKey }), usesOnly: true }, HEATMAP_DAY_ENTRIES)
+    return page.items.map((i) => rowToLog(i.row as Row))
+  }
 
+  // Weekly pass/fail per goal over the trend range (all time: since the first entry)
+  const goalHistory = useMemo(() => {
+    let from = new Date()
+    if (trendDays) from.setDate(from.getDate() - trendDays + 1)
+    else if (trends.firstEntry) from = new Date(trends.firstEntry)
+    return goals
+      .map((goal) => ({ goal, substance: substances.find((s) => s.id === goal.substanceId) }))
+      .filter(({ substance }) => substance && (trendFilterSubstance === 'All' || substance.name === trendFilterSubstance))
+      .map(({ goal, substance }) => ({ goal, substance: substance!, weeks: weeklyHistory(goal, dailyUsage(trends.dailyTotals, substance!), from) }))
+  }, [goals, substances, trendDays, trendFilterSubstance, trends.firstEntry, trends.dailyTotals])
 
-  // Initialize DB and load logs once
+  const [trendDimensionId, setTrendDimensionId] = useState<string | null>(null)
+  const trendDimension = contextDimensions.find((d) => d.id === trendDimensionId) || contextDimensions[0]
+  const [contextBreakdown, setContextBreakdown] = useState<ContextCount[]>([])
   useEffect(() => {
+    if (!dbReady || locked !== false || !trendDimension) return
     let mounted = true
       ; (async () => {
         try {
-          await dbInit()
-          const rows = await dbGetAll()
-          if (!mounted) return
-          // rows use the same shape as LogEntry but feelings is stored as JSON string
-          const parsed = rows.map((r: any) => ({
-            id: r.id,
-            substance: r.substance,
-            feelings: r.feelings ? JSON.parse(r.feelings) : undefined,
-            dosage: r.dosage || undefined,
-            timestamp: r.timestamp,
-          }))
-          setLogs(parsed)
-          setDbReady(true)
-        } catch (e) {
-          console.warn('Failed to initialize DB', e)
+          const counts = await dbCountByContext({ days: trendDays, substance: trendFilterSubstance === 'All' ? undefined : trendFilterSubstance }, trendDimension.id)
+          if (mounted) setContextBreakdown(counts)
+        } catch (err) {
+          console.warn('Failed to load context breakdown', err)
         }
       })()
     return () => {
       mounted = false
     }
-  }, [])
+  }, [dbReady, locked, dataVersion, trendDays, trendFilterSubstance, trendDimension?.id])
 
-  const handleSubmit = async (e: FormEvent) => {
-    e.preventDefault()
-    if (!substance.trim()) return
-    const newLog: LogEntry = {
-      id: crypto.randomUUID(),
-      substance: substance.trim(),
-      feelings: feelings.length ? feelings : undefined,
-      dosage: dosage.trim() || undefined,
-      timestamp: new Date().toISOString(),
+  // History entries picked for a bulk action, keyed `use:<id>` / `craving:<id>`
+  const [selecting, setSelecting] = useState(false)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const selectedIds = (kind: 'use' | 'craving') => [...selected].filter((k) => k.startsWith(`${kind}:`)).map((k) => k.slice(kind.length + 1))
+  // Only the selection's substances are read up front; rows are read when
+  // an action runs, as a selection can span many pages
+  const [selectionSubstances, setSelectionSubstances] = useState<string[]>([])
+  useEffect(() => {
+    if (!dbReady || !selected.size) {
+      setSelectionSubstances([])
+      return
     }
-    try {
-      // persist to db then update UI optimistically
-      await dbAddLog({
-        id: newLog.id,
-        substance: newLog.substance,
-        feelings: newLog.feelings ? JSON.stringify(newLog.feelings) : null,
-        dosage: newLog.dosage ?? null,
-        timestamp: newLog.timestamp,
-      } as any)
-      setLogs((s) => [newLog, ...s])
-    } catch (err) {
-      console.warn('Failed to save log to DB', err)
+    let mounted = true
+      ; (async () => {
+        try {
+          const names = await dbSubstancesOf(selectedIds('use'))
+          if (mounted) setSelectionSubstances(names)
+        } catch (err) {
+          console.warn('Failed to read selection', err)
+        }
+      })()
+    return () => {
+      mounted = false
     }
+  }, [dbReady, selected, dataVersion])
+  const bulkDoseSubstance = selectionSubstances.length === 1 ? substances.find((s) => s.name === selectionSubstances[0]) : undefined
 
-    setSubstance('')
-    setFeelings([])
-    setDosage('')
-    setCurrentPage(1)
+  const toggleSelect = (key: string) =>
+    setSelected((s) => {
+      const next = new Set(s)
+      if (!next.delete(key)) next.add(key)
+      return next
+    })
+
+  const readSelection = async () => {
+    const rows = await dbGetEntries(selectedIds('use'), selectedIds('craving'))
+    return { logs: rows.logs.map(rowToLog), cravings: rows.cravings.map(rowToCraving) }
   }
 
-  const clearAll = async () => {
-    if (!confirm('Clear all logs? This cannot be undone.')) return
+  const handleSelectAll = async () => {
     try {
-      await dbClearAll()
-      setLogs([])
+      const keys = await dbHistoryKeys(dbFilter)
+      setSelected(new Set([...keys.logs.map((id) => `use:${id}`), ...keys.cravings.map((id) => `craving:${id}`)]))
     } catch (err) {
-      console.warn('Failed to clear DB', err)
+      console.warn('Failed to select entries', err)
     }
   }
 
-  const handleUpdateLog = async (updatedLog: LogEntry) => {
+  const handleBulkApply = async (change: BulkChange) => {
     try {
-      await dbUpdateLog({
-        id: updatedLog.id,
-        substance: updatedLog.substance,
-        feelings: updatedLog.feelings ? JSON.stringify(updatedLog.feelings) : null,
-        dosage: updatedLog.dosage ?? null,
-        timestamp: updatedLog.timestamp,
-      } as any)
+      const { logs, cravings } = await readSelection()
+      const changedLogs = logs.filter((l) => applyToLog(l, change) !== l)
+      const changedCravings = cravings.filter((c) => applyToCraving(c, change) !== c)
+      if (!changedLogs.length && !changedCravings.length) return
+      await dbUpdateEntries(
+        changedLogs.map((l) => logToRow(applyToLog(l, change))),
+        changedCravings.map((c) => cravingToRow(applyToCraving(c, change)))
+      )
+      const count = changedLogs.length + changedCravings.length
+      offerUndo(`${count} ${count === 1 ? 'entry' : 'entries'} updated`, () =>
+        dbUpdateEntries(changedLogs.map(logToRow), changedCravings.map(cravingToRow))
+      )
+    } catch (err) {
+      console.warn('Failed to update entries', err)
+    }
+  }
 
-      setLogs((s) => s.map((l) => (l.id === updatedLog.id ? updatedLog : l)))
+  const handleBulkDelete = async () => {
+    const count = selected.size
+    if (!confirm(`Move ${count === 1 ? 'this entry' : `these ${count} entries`} to the trash?`)) return
+    try {
+      const deletedAt = await dbDeleteEntries(selectedIds('use'), selectedIds('craving'))
+      setSelected(new Set())
+      offerUndo(`${count} ${count === 1 ? 'entry' : 'entries'} moved to the trash`, () => dbRestoreCleared(deletedAt))
     } catch (err) {
-      console.warn('Failed to update log', err)
+      console.warn('Failed to delete entries', err)
     }
   }
 
-  const handleDeleteLog = async (id: string) => {
-    if (!confirm('Delete this log entry? This cannot be undone.')) return
+  const handleBulkExport = async (format: 'csv' | 'json') => {
+    const stamp = getDateKey(new Date().toISOString())
     try {
-      await dbDeleteLog(id)
-      setLogs((s) => s.filter((l) => l.id !== id))
+      const { logs } = await readSelection()
+      if (format === 'csv') downloadFile(logsToCsv(logs, contextDimensions), `subtrack-selected-${stamp}.csv`, 'text/csv;charset=utf-8')
+      else downloadFile(logsToJson(logs, contextDimensions), `subtrack-selected-${stamp}.json`, 'application/json')
     } catch (err) {
-      console.warn('Failed to delete log', err)
+      console.warn('UI: export failed', err)
     }
   }
 
-  // Trends UI state
-  const [trendDays, setTrendDays] = useState<number | null>(7) // null = all time
-  const [trendFilterSubstance, setTrendFilterSubstance] = useState<string | 'All'>('All')
+  // History is read from the database a page at a time
+  const [historyFilter, setHistoryFilter] = useState<HistoryFilterValue>(EMPTY_HISTORY_FILTER)
+  const [pageSize, setPageSize] = useState(HISTORY_PAGE_SIZES[0])
+  // Where each visited page starts; the last one is the page shown
+  const [pageCursors, setPageCursors] = useState<(HistoryCursor | null)[]>([null])
+  const [historyPage, setHistoryPage] = useState<{ entries: HistoryEntry[]; next: HistoryCursor | null; total: number } | null>(null)
+  const dbFilter = useMemo(() => toHistoryFilter(historyFilter), [historyFilter])
+  const historyRef = useRef<HTMLElement>(null)
+  const terms = dbFilter.terms || []
+
+  useEffect(() => {
+    setPageCursors([null])
+  }, [dbFilter, pageSize])
+
+  useEffect(() => {
+    if (!dbReady || locked !== false) return
+    let mounted = true
+    // Re-read after edits too; the delay keeps typing in the search box cheap
+    const t = setTimeout(async () => {
+      try {
+        const [page, counts] = await Promise.all([dbQueryHistory(dbFilter, pageSize, pageCursors[pageCursors.length - 1]), dbCountHistory(dbFilter)])
+        // A newer filter or page, or the lock, replaced this read
+        if (!mounted) return
+        // Deleting the only entry on the last page leaves nothing to show there
+        if (!page.items.length && pageCursors.length > 1) {
+          setPageCursors((c) => c.slice(0, -1))
+          return
+        }
+        setHistoryPage({
+          entries: page.items.map((i) => (i.kind === 'use' ? { kind: 'use', entry: rowToLog(i.row) } : { kind: 'craving', entry: rowToCraving(i.row) })),
+          next: page.next,
+          total: counts.uses + counts.cravings,
+        })
+      } catch (err) {
+        console.warn('Failed to load history', err)
+      }
+    }, 150)
+    return () => {
+      mounted = false
+      clearTimeout(t)
+    }
+  }, [dbReady, locked, dbFilter, pageSize, pageCursors, dataVersion])
+
+  // Read the trash while it's open, and again after deletes and restores
+  useEffect(() => {
+    if (!dbReady || !showTrash) return
+    let mounted = true
+      ; (async () => {
+        try {
+          const items = await dbGetTrash()
+          if (!mounted) return
+          setTrash(
+            items.map((i) =>
+              i.kind === 'use'
+                ? { kind: 'use', entry: rowToLog(i.row), deletedAt: i.deleted_at }
+                : { kind: 'craving', entry: rowToCraving(i.row), deletedAt: i.deleted_at }
+            )
+          )
+        } catch (err) {
+          console.warn('Failed to load trash', err)
+        }
+      })()
+    return () => {
+      mounted = false
+    }
+  }, [dbReady, showTrash, dataVersion])
+
+  // Streaks are worked out from the days with use, read again after changes
+  useEffect(() => {
+    if (!dbReady) return
+    let mounted = true
+      ; (async () => {
+        try {
+          const days = await dbLastUseByDay(new Date().toISOString())
+          if (mounted) setUseDays(days)
+        } catch (err) {
+          console.warn('Failed to load streaks', err)
+        }
+      })()
+    return () => {
+      mounted = false
+    }
+  }, [dbReady, dataVersion])
 
-  const usageOverTime = useMemo(() => {
-    // when showing all substances we include all known options
-    // if filtering, we only show that one
-    const subs = trendFilterSubstance === 'All' ? SUBSTANCE_OPTIONS : [trendFilterSubstance]
-    return aggregateUsageOverTime((logs as any[]), trendDays, subs)
-  }, [logs, trendDays, trendFilterSubstance])
+  // How many entries there are and how many need their dose looked at
+  useEffect(() => {
+    if (!dbReady) return
+    let mounted = true
+      ; (async () => {
+        try {
+          const [counts, review] = await Promise.all([dbCountHistory({}), dbCountDosageReview()])
+          if (!mounted) return
+          setEntryCounts(counts)
+          setReviewCount(review)
+        } catch (err) {
+          console.warn('Failed to count entries', err)
+        }
+      })()
+    return () => {
+      mounted = false
+    }
+  }, [dbReady, dataVersion])
+
+  // Offer the most frequent combinations not saved as templates yet
+  useEffect(() => {
+    if (!dbReady) return
+    let mounted = true
+      ; (async () => {
+        try {
+          const rows = await dbSuggestTemplates()
+          if (!mounted) return
+          setTemplateSuggestions(
+            rows.map((r) => {
+              const t = rowToTemplate({ ...r, id: crypto.randomUUID(), label: '', context: null, sort_order: 0 })
+              return { template: { ...t, label: templateLabel(substances.find((s) => s.id === t.substanceId), t.dose, t.feelings) }, uses: r.uses }
+            })
+          )
+        } catch (err) {
+          console.warn('Failed to suggest templates', err)
+        }
+      })()
+    return () => {
+      mounted = false
+    }
+  }, [dbReady, dataVersion, templates, substances])
 
-  const frequencyCounts = useMemo(() => aggregateFrequencies((logs as any[]), trendDays, trendFilterSubstance), [logs, trendDays, trendFilterSubstance])
+  // Show one day from the calendar in History
+  const handleSelectDay = (dateKey: string) => {
+    setHistoryFilter({ ...EMPTY_HISTORY_FILTER, from: dateKey, to: dateKey })
+    historyRef.current?.scrollIntoView({ behavior: 'smooth' })
+  }
 
-  const feelingsCounts = useMemo(() => aggregateFeelings((logs as any[]), trendDays, trendFilterSubstance), [logs, trendDays, trendFilterSubstance])
+  const hasEntries = entryCounts.uses + entryCounts.cravings > 0
+  const currentPage = pageCursors.length
+  const totalPages = Math.max(1, Math.ceil((historyPage?.total ?? 0) / pageSize))
 
-  // Pagination state
-  const [currentPage, setCurrentPage] = useState(1)
-  const itemsPerPage = 5
+  if (locked !== false) {
+    return (
+      <div className="app-root">
+        <div className="container">
+          <header className="header">
+            <h1>Sub-Track</h1>
+            <p className="subtitle">A mindful log for harm reduction.</p>
+          </header>
+          {locked && <LockScreen onUnlock={handleLockUnlock} onWipe={handleWipe} />}
+        </div>
+      </div>
+    )
+  }
 
-  const totalPages = Math.ceil(logs.length / itemsPerPage)
-  const paginatedLogs = useMemo(() => {
-    const start = (currentPage - 1) * itemsPerPage
-    return logs.slice(start, start + itemsPerPage)
-  }, [logs, currentPage])
+  if (needsPassphrase) {
+    return (
+      <div className="app-root">
+        <div className="container">
+          <header className="header">
+            <h1>Sub-Track</h1>
+            <p className="subtitle">A mindful log for harm reduction.</p>
+          </header>
+          <PassphraseForm
+            title="Unlock your log"
+            description="Your data on this device is encrypted. Enter your passphrase to open it."
+            askCurrent
+            submitLabel="Unlock"
+            onSubmit={(v) => handleUnlock(v.current)}
+          />
+        </div>
+      </div>
+    )
+  }
 
   return (
     <div className="app-root">
@@ -356,86 +1706,167 @@ export default function App() {
         <header className="header">
           <h1>Sub-Track</h1>
           <p className="subtitle">A mindful log for harm reduction.</p>
+          {dueFollowUps.length > 0 && (
+            <button type="button" className="btn ghost follow-up-badge" onClick={() => setShowFollowUps((v) => !v)} aria-pressed={showFollowUps}>
+              {dueFollowUps.length} {dueFollowUps.length === 1 ? 'check-in' : 'check-ins'} due
+            </button>
+          )}
+          {lockEnabled && (
+            <button type="button" className="btn ghost lock-now" onClick={lockNow} title="Lock the app now">
+              Lock now
+            </button>
+          )}
         </header>
 
+        {dbError && (
+          <div className="card" style={{ marginBottom: 20, color: '#ff6b6b' }}>{dbError}</div>
+        )}
+
+        {saveError && (
+          <div className="card" role="alert" style={{ marginBottom: 20, color: '#ff6b6b', display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 8 }}>
+            <span>
+              Your latest changes couldn't be saved to this device ({saveError}). They are kept while this tab stays open. Free up storage or export
+              your data, then try again.
+            </span>
+            <button type="button" className="btn ghost" onClick={handleRetrySave} style={{ padding: '2px 8px', flexShrink: 0 }}>
+              Try again
+            </button>
+          </div>
+        )}
+
+        {showSubstanceManager && (
+          <SubstanceManager
+            substances={substances}
+            onAdd={handleAddSubstance}
+            onUpdate={handleUpdateSubstance}
+            onClose={() => setShowSubstanceManager(false)}
+          />
+        )}
+
+        {showContextManager && (
+          <ContextManager
+            dimensions={contextDimensions}
+            onAdd={handleAddDimension}
+            onUpdate={handleUpdateDimension}
+            onDelete={handleDeleteDimension}
+            onClose={() => setShowContextManager(false)}
+          />
+        )}
+
+        {showGoalManager && (
+          <GoalManager
+            goals={goals}
+            substances={substances}
+            onAdd={handleAddGoal}
+            onUpdate={handleUpdateGoal}
+            onDelete={handleDeleteGoal}
+            onClose={() => setShowGoalManager(false)}
+          />
+        )}
+
+        {showFollowUps && (
+          <FollowUpPanel
+            due={dueFollowUps}
+            upcoming={openFollowUps.length - dueFollowUps.length}
+            substances={substances}
+            onComplete={handleCompleteFollowUp}
+            onSkip={handleSkipFollowUp}
+            onClose={() => setShowFollowUps(false)}
+          />
+        )}
+
+        {showTemplateManager && (
+          <TemplateManager
+            templates={templates}
+            substances={substances}
+            onAdd={handleAddTemplate}
+            onUpdate={handleUpdateTemplate}
+            onDelete={handleDeleteTemplate}
+            onReorder={handleReorderTemplates}
+            onClose={() => setShowTemplateManager(false)}
+          />
+        )}
+
+        <QuickLog
+          templates={templates}
+          suggestions={templateSuggestions}
+          substances={substances}
+          onLog={handleQuickLog}
+          onSaveSuggestion={(t) => void handleAddTemplate({ ...t, sortOrder: templates.length })}
+          onManage={() => setShowTemplateManager((v) => !v)}
+        />
+
+        {addError && (
+          <div className="card" style={{ marginBottom: 12, color: '#ff6b6b', display: 'flex', justifyContent: 'space-between', gap: 8 }}>
+            <span>{addError}</span>
+            <button type="button" className="btn ghost" onClick={() => setAddError(null)} style={{ padding: '2px 8px' }}>✕</button>
+          </div>
+        )}
+
         <form className="card form" onSubmit={handleSubmit}>
           <h2>New Log</h2>
           <label>
-            <div className="label">Substance</div>
+            <div className="label" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+              <span>Substance</span>
+              <button
+                type="button"
+                className="btn ghost"
+                onClick={() => setShowSubstanceManager((v) => !v)}
+                style={{ fontSize: '0.75rem', padding: '2px 8px', marginLeft: 'auto' }}
+              >
+                Manage
+              </button>
+              <button
+                type="button"
+                className="btn ghost"
+                onClick={() => setShowGoalManager((v) => !v)}
+                style={{ fontSize: '0.75rem', padding: '2px 8px', marginLeft: 6 }}
+              >
+                Goals
+              </button>
+              <button
+                type="button"
+                className="btn ghost"
+                onClick={() => setShowContextManager((v) => !v)}
+                style={{ fontSize: '0.75rem', padding: '2px 8px', marginLeft: 6 }}
+              >
+                Context
+              </button>
+              <button
+                type="button"
+                className="btn ghost"
+                onClick={() => setShowTemplateManager((v) => !v)}
+                style={{ fontSize: '0.75rem', padding: '2px 8px', marginLeft: 6 }}
+              >
+                Templates
+              </button>
+            </div>
             <div className="substance-row" style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
-              {SUBSTANCE_OPTIONS.map((s) => {
-                const selected = substance === s
+              {activeSubstances.map((s) => {
+                const selected = substance === s.name
                 return (
                   <button
-                    key={s}
+                    key={s.id}
                     type="button"
                     onClick={() => {
-                      setSubstance(s)
-                      setDosage('')
+                      setSubstance(s.name)
+                      setDose(undefined)
                     }}
                     aria-pressed={selected}
                     className={selected ? 'pill selected substance-pill' : 'pill substance-pill'}
+                    style={{ borderColor: selected ? s.color : undefined }}
                   >
-                    {s}
+                    {s.name}
                   </button>
                 )
               })}
             </div>
           </label>
 
-          {substance && DOSAGE_OPTIONS[substance] && (
-            <label>
-              <div className="label">Dosage</div>
-              <div className="dosage-row" style={{ display: 'flex', gap: 8, flexWrap: 'wrap', marginBottom: 8 }}>
-                {DOSAGE_OPTIONS[substance].map((option) => {
-                  const selected = dosage === option.label
-                  return (
-                    <button
-                      key={option.label}
-                      type="button"
-                      onClick={() => setDosage(option.label)}
-                      aria-pressed={selected}
-                      className={selected ? 'pill selected' : 'pill'}
-                      title={option.description}
-                    >
-                      {option.label}
-                    </button>
-                  )
-                })}
-              </div>
-              <input
-                type="text"
-                value={dosage}
-                onChange={(e) => setDosage(e.target.value)}
-                placeholder="Or enter custom dosage"
-              />
-            </label>
-          )}
-
-          {substance && !DOSAGE_OPTIONS[substance] && (
-            <label>
-              <div className="label">Dosage</div>
-              <input
-                type="text"
-                value={dosage}
-                onChange={(e) => setDosage(e.target.value)}
-                placeholder="e.g. 10 mg, 1 drink, etc. (optional)"
-              />
-            </label>
-          )}
-
-          {!substance && (
-            <label>
-              <div className="label">Dosage</div>
-              <input
-                type="text"
-                value={dosage}
-                onChange={(e) => setDosage(e.target.value)}
-                placeholder="Select a substance first (optional)"
-                disabled
-              />
-            </label>
-          )}
+          <label>
+            <div className="label">Dosage</div>
+            <DoseInput substance={selectedSubstance} value={dose} onChange={setDose} />
+          </label>
 
           <label
             onMouseEnter={() => setIsFeelingsHovered(true)}
@@ -490,17 +1921,84 @@ export default function App() {
             </div>
           </label>
 
+          <label>
+            <div className="label">Notes (optional)</div>
+            <textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} placeholder="Anything worth remembering about this time" />
+          </label>
+
+          <label>
+            <div className="label">Check in later</div>
+            <select value={followUpHours} onChange={(e) => setFollowUpHours(Number(e.target.value))}>
+              <option value={0}>No check-in</option>
+              {FOLLOW_UP_HOURS.map((h) => (
+                <option key={h} value={h}>
+                  In {h} {h === 1 ? 'hour' : 'hours'}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {contextDimensions.length > 0 && (
+            <div style={{ marginBottom: 12 }}>
+              <div className="label">Context</div>
+              <ContextPicker dimensions={contextDimensions} value={context} onChange={setContext} onAddOption={handleAddContextOption} />
+            </div>
+          )}
+
+          {goals.length > 0 && (
+            <div style={{ marginBottom: 12 }}>
+              <div className="label">Goals</div>
+              <GoalProgress goals={goals} substances={substances} totals={weekTotals} breaking={breakingGoals} />
+            </div>
+          )}
+
           <div className="actions">
             <button type="submit" className="btn primary">
               Add Log Entry
             </button>
+            <button type="button" className="btn ghost" onClick={handleSaveFormAsTemplate} disabled={!selectedSubstance}>
+              Save as Template
+            </button>
+            <button type="button" className="btn ghost" onClick={() => setShowCravingForm((v) => !v)} aria-pressed={showCravingForm}>
+              Log Craving
+            </button>
             <button type="button" className="btn ghost" onClick={clearAll}>
               Clear All
             </button>
           </div>
         </form>
 
-        {logs.length > 0 && ( /* Hide trends section when no data is available */
+        {showCravingForm && (
+          <div className="card" style={{ marginBottom: 12 }}>
+            <CravingForm
+              initial={{
+                id: crypto.randomUUID(),
+                substance: selectedSubstance?.name ?? '',
+                intensity: 5,
+                feelings: feelings.length ? feelings : undefined,
+                outcome: 'resisted',
+                timestamp: new Date().toISOString(),
+              }}
+              substances={activeSubstances}
+              title="Log a craving"
+              submitLabel="Save Craving"
+              onSubmit={handleAddCraving}
+              onCancel={() => setShowCravingForm(false)}
+            />
+          </div>
+        )}
+
+        {(useDays.length > 0 || breaks.length > 0) && (
+          <section>
+            <div className="section-header">
+              <h2>Streaks</h2>
+              <div className="muted">Time since last use</div>
+            </div>
+            <StreakPanel substances={substances} useDays={useDays} breaks={breaks} onAddBreak={handleAddBreak} onDeleteBreak={handleDeleteBreak} />
+          </section>
+        )}
+
+        {hasEntries && ( /* Hide trends section when no data is available */
           <section>
             <div className="section-header">
               <h2>Trends</h2>
@@ -525,8 +2023,8 @@ export default function App() {
                   <div className="label" style={{ margin: 0 }}>Filter substance</div>
                   <select value={trendFilterSubstance} onChange={(e) => setTrendFilterSubstance(e.target.value)}>
                     <option value="All">All</option>
-                    {SUBSTANCE_OPTIONS.map((s) => (
-                      <option key={s} value={s}>{s}</option>
+                    {substances.map((s) => (
+                      <option key={s.id} value={s.name}>{s.name}{s.archived ? ' (archived)' : ''}</option>
                     ))}
                   </select>
                 </div>
@@ -534,64 +2032,160 @@ export default function App() {
 
               <div style={{ marginBottom: 14 }}>
                 <h3 style={{ margin: '6px 0' }}>Usage over time</h3>
-                <MultiLineChart labels={usageOverTime.labels} series={usageOverTime.series} />
+                <div className="muted" style={{ fontSize: '0.8rem', marginBottom: 6 }}>
+                  {TREND_BUCKET_LABELS[trendBucket].every} dose in each substance's normalized unit
+                  {trendFilterSubstance !== 'All' && substancesByName[trendFilterSubstance] ? ` (${substancesByName[trendFilterSubstance].normalizedUnit})` : ''}
+                </div>
+                <MultiLineChart labels={trends.usage.labels} series={trends.usage.series} colors={substanceColors} />
+                {reviewCount > 0 && (
+                  <div className="muted" style={{ fontSize: '0.8rem', marginTop: 6 }}>
+                    {reviewCount} {reviewCount === 1 ? 'entry has a dosage' : 'entries have dosages'} that need review and {reviewCount === 1 ? 'is' : 'are'} not counted here.
+                  </div>
+                )}
+              </div>
+
+              <div style={{ marginBottom: 14 }}>
+                <h3 style={{ margin: '6px 0' }}>Calendar</h3>
+                <CalendarHeatmap
+                  totals={heatmapTotals}
+                  substances={substances}
+                  substance={trendFilterSubstance}
+                  years={heatmapYears}
+                  onChangeYears={setHeatmapYears}
+                  onLoadDay={handleLoadHeatmapDay}
+                  onSelectDay={handleSelectDay}
+                />
+              </div>
+
+              <div style={{ marginBottom: 14 }}>
+                <h3 style={{ margin: '6px 0' }}>When you use</h3>
+                <div className="muted" style={{ fontSize: '0.8rem', marginBottom: 6 }}>Entries by hour of the week, in this device's time zone</div>
+                <UsagePatterns
+                  counts={trends.hourOfWeek}
+                  colors={substanceColors}
+                  color={trendFilterSubstance !== 'All' ? substanceColors[trendFilterSubstance] : undefined}
+                />
               </div>
 
               <div style={{ display: 'flex', flexDirection: 'column', gap: 24 }}>
                 <div>
                   <h3 style={{ margin: '6px 0' }}>Frequencies</h3>
                   <VerticalBarChart
-                    items={Object.entries(frequencyCounts).map(([k, v]) => ({ label: k, value: v, color: defaultSubstanceColors[k] }))}
+                    items={Object.entries(trends.frequencies).map(([k, v]) => ({ label: k, value: v, color: substanceColors[k] }))}
                   />
                 </div>
 
+                {trendDimension && contextBreakdown.length > 0 && (
+                  <div>
+                    <div style={{ display: 'flex', gap: 8, alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap' }}>
+                      <h3 style={{ margin: '6px 0' }}>Usage by context</h3>
+                      <select value={trendDimension.id} onChange={(e) => setTrendDimensionId(e.target.value)} aria-label="Context">
+                        {contextDimensions.map((d) => (
+                          <option key={d.id} value={d.id}>{d.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <HorizontalBarChart items={contextBreakdown.map((c) => ({ label: c.value, value: c.count }))} />
+                    {trendFilterSubstance !== 'All' && substancesByName[trendFilterSubstance] ? (
+                      <>
+                        <div className="muted" style={{ fontSize: '0.8rem', margin: '10px 0 6px' }}>
+                          Average dose ({substancesByName[trendFilterSubstance].normalizedUnit})
+                        </div>
+                        <HorizontalBarChart
+                          items={contextBreakdown
+                            .filter((c) => c.avgDose !== null)
+                            .map((c) => ({ label: c.value, value: +c.avgDose!.toFixed(2), color: substanceColors[trendFilterSubstance] }))}
+                        />
+                      </>
+                    ) : (
+                      <div className="muted" style={{ fontSize: '0.8rem', marginTop: 6 }}>Filter to one substance to compare average doses.</div>
+                    )}
+                  </div>
+                )}
+
+                {entryCounts.cravings > 0 && (
+                  <>
+                    <div>
+                      <h3 style={{ margin: '6px 0' }}>Cravings per {TREND_BUCKET_LABELS[trendBucket].per}</h3>
+                      <MultiLineChart labels={trends.cravings.labels} series={trends.cravings.series} colors={CRAVING_OUTCOME_COLORS} />
+                      <div className="muted" style={{ fontSize: '0.8rem', display: 'flex', gap: 12 }}>
+                        {CRAVING_OUTCOMES.map((o) => (
+                          <span key={o}><span style={{ color: CRAVING_OUTCOME_COLORS[o] }}>●</span> {o}</span>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div>
+                      <h3 style={{ margin: '6px 0' }}>Resist rate (%)</h3>
+                      <VerticalBarChart
+                        items={Object.entries(trends.resistRates).map(([k, v]) => ({ label: k, value: v, color: substanceColors[k] }))}
+                      />
+                    </div>
+
+                    <div>
+                      <h3 style={{ margin: '6px 0' }}>Feelings: cravings vs use</h3>
+                      <div className="muted" style={{ fontSize: '0.8rem', marginBottom: 6 }}>Share of entries with each feeling</div>
+                      <FeelingComparisonChart items={trends.feelingComparison} />
+                    </div>
+                  </>
+                )}
+
+                {goalHistory.length > 0 && (
+                  <div>
+                    <h3 style={{ margin: '6px 0' }}>Goals by week</h3>
+                    <GoalHistoryChart rows={goalHistory} />
+                  </div>
+                )}
+
                 <div>
                   <h3 style={{ margin: '6px 0' }}>Emotional trends</h3>
                   <HorizontalBarChart
-                    items={Object.entries(feelingsCounts)
+                    items={Object.entries(trends.feelings)
                       .sort((a, b) => b[1] - a[1])
                       .map(([k, v]) => ({ label: k, value: v }))}
                   />
                 </div>
+
+                <div>
+                  <h3 style={{ margin: '6px 0' }}>Before and after</h3>
+                  <div className="muted" style={{ fontSize: '0.8rem', marginBottom: 6 }}>Feelings when logging and at the check-in afterwards</div>
+                  <FollowUpTrends summaries={trends.followUps} colors={substanceColors} />
+                </div>
+
+                <div>
+                  <h3 style={{ margin: '6px 0' }}>Feelings and substances</h3>
+                  <div className="muted" style={{ fontSize: '0.8rem', marginBottom: 6 }}>All substances in the range, to compare them with each other</div>
+                  <FeelingInsights
+                    counts={trends.feelingsBySubstance}
+                    totals={trends.entriesBySubstance}
+                    doses={trends.feelingDoses}
+                    colors={substanceColors}
+                  />
+                </div>
               </div>
             </div>
           </section>
         )}
 
-        <section>
+        <section ref={historyRef}>
           <div className="section-header">
             <h2>History</h2>
-            <div className="muted">{logs.length} entries{!dbReady ? ' (loading...)' : ''}</div>
+            <div className="muted">
+              {entryCounts.uses} entries{entryCounts.cravings > 0 ? `, ${entryCounts.cravings} cravings` : ''}{!dbReady ? ' (loading...)' : ''}
+              {reviewCount > 0 && <span className="review-badge" style={{ marginLeft: 8 }}>{reviewCount} need review</span>}
+            </div>
           </div>
 
           <div style={{ display: 'flex', gap: 8, marginBottom: 12 }}>
             <input
               ref={fileInputRef}
               type="file"
-              accept=".sqlite,.db"
+              accept=".sqlite,.db,.enc,.csv,.json"
               style={{ display: 'none' }}
               onChange={async (e) => {
                 const file = e.target.files?.[0]
                 if (!file) return
-                try {
-                  const buffer = await file.arrayBuffer()
-                  await dbImportRaw(buffer)
-                  const rows = await dbGetAll()
-                  const parsed = rows.map((r: any) => ({
-                    id: r.id,
-                    substance: r.substance,
-                    feelings: r.feelings ? JSON.parse(r.feelings) : undefined,
-                    dosage: r.dosage || undefined,
-                    timestamp: r.timestamp,
-                  }))
-                  setLogs(parsed)
-                  setCurrentPage(1)
-                  console.debug('UI: imported DB, rows=', parsed.length)
-                  alert(`Successfully imported ${parsed.length} entries`)
-                } catch (err) {
-                  console.warn('UI: import failed', err)
-                  alert('Failed to import database. Please ensure the file is a valid SQLite database.')
-                }
+                await handleImportFile(file)
                 // Reset file input
                 if (e.target) e.target.value = ''
               }}
@@ -604,68 +2198,235 @@ export default function App() {
               Import Data
             </button>
 
-            <button
-              type="button"
-              className="btn ghost"
-              onClick={async () => {
-                try {
-                  const data = await dbExportRaw()
-                  const buf = data instanceof Uint8Array ? (data as Uint8Array).buffer as ArrayBuffer : (data as any)
-                  const blob = new Blob([buf], { type: 'application/octet-stream' })
-                  const url = URL.createObjectURL(blob)
-                  const a = document.createElement('a')
-                  a.href = url
-                  a.download = 'subtrack.sqlite'
-                  a.click()
-                  URL.revokeObjectURL(url)
-                } catch (err) {
-                  console.warn('UI: export failed', err)
-                }
-              }}
-            >
+            <select value={exportFormat} onChange={(e) => setExportFormat(e.target.value as ExportFormat)} aria-label="Export format">
+              <option value="sqlite">SQLite backup</option>
+              <option value="encrypted">Encrypted backup</option>
+              <option value="csv">CSV (spreadsheet)</option>
+              <option value="json">JSON</option>
+            </select>
+            <button type="button" className="btn ghost" onClick={handleExport}>
               Export Data
             </button>
+            <button type="button" className="btn ghost" onClick={() => setShowTrash((v) => !v)} aria-pressed={showTrash}>
+              Trash
+            </button>
+            {hasEntries && (
+              <button
+                type="button"
+                className="btn ghost"
+                onClick={() => {
+                  setSelecting((v) => !v)
+                  setSelected(new Set())
+                }}
+                aria-pressed={selecting}
+              >
+                Select
+              </button>
+            )}
           </div>
 
-          {logs.length === 0 ? (
+          {showTrash && (
+            <TrashView
+              items={trash}
+              substances={substances}
+              onRestore={handleRestoreFromTrash}
+              onPurge={handlePurgeFromTrash}
+              onEmpty={handleEmptyTrash}
+              onClose={() => setShowTrash(false)}
+            />
+          )}
+
+          {importError && (
+            <div className="card" style={{ marginBottom: 12, color: '#ff6b6b', display: 'flex', justifyContent: 'space-between', gap: 8 }}>
+              <span>{importError}</span>
+              <button type="button" className="btn ghost" onClick={() => setImportError(null)} style={{ padding: '2px 8px' }}>✕</button>
+            </div>
+          )}
+
+          {askExportPassphrase && (
+            <PassphraseForm
+              title="Encrypted backup"
+              description="Choose a passphrase for this backup. You'll need it to import the file; it cannot be recovered."
+              askNew
+              submitLabel="Export"
+              onSubmit={(v) => handleEncryptedExport(v.next)}
+              onCancel={() => setAskExportPassphrase(false)}
+            />
+          )}
+
+          {pendingEncryptedFile && (
+            <PassphraseForm
+              title={`Import "${pendingEncryptedFile.name}"`}
+              description="This backup is encrypted. Enter the passphrase it was exported with."
+              askCurrent
+              submitLabel="Unlock"
+              onSubmit={(v) => handleEncryptedFilePassphrase(v.current)}
+              onCancel={() => setPendingEncryptedFile(null)}
+            />
+          )}
+
+          {pendingMapping && (
+            <ColumnMapper
+              fileName={pendingMapping.fileName}
+              table={pendingMapping.table}
+              substances={substances}
+              dimensions={contextDimensions}
+              onContinue={handleMappedRows}
+              onCancel={() => setPendingMapping(null)}
+            />
+          )}
+
+          {pendingImport && (
+            <ImportReview
+              key={pendingImport.fileName + pendingImport.conflicts.length}
+              {...pendingImport}
+              onMerge={handleMergeImport}
+              onReplace={handleReplaceImport}
+              onCancel={handleCancelImport}
+            />
+          )}
+
+          {hasEntries && (
+            <HistoryFilters value={historyFilter} onChange={setHistoryFilter} substances={substances} total={historyPage?.total ?? null} />
+          )}
+
+          {selecting && (
+            <BulkActions
+              selectedCount={selected.size}
+              matchingCount={historyPage?.total ?? null}
+              substances={substances}
+              doseSubstance={bulkDoseSubstance}
+              onSelectAll={handleSelectAll}
+              onClearSelection={() => setSelected(new Set())}
+              onApply={handleBulkApply}
+              onDelete={handleBulkDelete}
+              onExport={handleBulkExport}
+              onDone={() => {
+                setSelecting(false)
+                setSelected(new Set())
+              }}
+            />
+          )}
+
+          {!hasEntries ? (
             <div className="card empty">Your log history will appear here.</div>
+          ) : historyPage && historyPage.entries.length === 0 && isFiltered(historyFilter) ? (
+            <div className="card empty">No entries match these filters.</div>
           ) : (
             <>
               <ul className="list">
-                {paginatedLogs.map((log) => (
-                  <LogItem key={log.id} log={log} onUpdate={handleUpdateLog} onDelete={handleDeleteLog} />
-                ))}
+                {(historyPage?.entries ?? []).map((item) =>
+                  item.kind === 'use' ? (
+                    <LogItem
+                      key={item.entry.id}
+                      log={item.entry}
+                      substances={substances}
+                      dimensions={contextDimensions}
+                      onAddContextOption={handleAddContextOption}
+                      highlight={terms}
+                      onUpdate={handleUpdateLog}
+                      onDelete={handleDeleteLog}
+                      onLoadRevisions={handleLoadRevisions}
+                      selected={selecting ? selected.has(`use:${item.entry.id}`) : undefined}
+                      onToggleSelect={selecting ? () => toggleSelect(`use:${item.entry.id}`) : undefined}
+                    />
+                  ) : (
+                    <CravingItem
+                      key={item.entry.id}
+                      craving={item.entry}
+                      substances={substances}
+                      highlight={terms}
+                      onUpdate={handleUpdateCraving}
+                      onDelete={handleDeleteCraving}
+                      selected={selecting ? selected.has(`craving:${item.entry.id}`) : undefined}
+                      onToggleSelect={selecting ? () => toggleSelect(`craving:${item.entry.id}`) : undefined}
+                    />
+                  )
+                )}
               </ul>
 
-              {totalPages > 1 && (
-                <div className="pagination" style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', gap: 16, marginTop: 16 }}>
-                  <button
-                    type="button"
-                    className="btn ghost"
-                    disabled={currentPage === 1}
-                    onClick={() => setCurrentPage((p) => Math.max(1, p - 1))}
-                  >
-                    Previous
-                  </button>
-                  <span className="muted">
-                    Page {currentPage} of {totalPages}
-                  </span>
-                  <button
-                    type="button"
-                    className="btn ghost"
-                    disabled={currentPage === totalPages}
-                    onClick={() => setCurrentPage((p) => Math.min(totalPages, p + 1))}
-                  >
-                    Next
-                  </button>
-                </div>
-              )}
+              <div className="pagination" style={{ display: 'flex', justifyContent: 'center', alignItems: 'center', gap: 16, marginTop: 16, flexWrap: 'wrap' }}>
+                {totalPages > 1 && (
+                  <>
+                    <button
+                      type="button"
+                      className="btn ghost"
+                      disabled={currentPage === 1}
+                      onClick={() => setPageCursors((c) => (c.length > 1 ? c.slice(0, -1) : c))}
+                    >
+                      Previous
+                    </button>
+                    <span className="muted">
+                      Page {currentPage} of {totalPages}
+                    </span>
+                    <button
+                      type="button"
+                      className="btn ghost"
+                      disabled={!historyPage?.next}
+                      onClick={() => {
+                        const next = historyPage?.next
+                        if (next) setPageCursors((c) => [...c, next])
+                      }}
+                    >
+                      Next
+                    </button>
+                  </>
+                )}
+                <label className="page-size">
+                  <span className="muted">Per page</span>
+                  <select value={pageSize} onChange={(e) => setPageSize(Number(e.target.value))}>
+                    {HISTORY_PAGE_SIZES.map((n) => (
+                      <option key={n} value={n}>
+                        {n}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
             </>
           )}
         </section>
 
+        {reminderSettings && (
+          <section style={{ marginTop: 20 }}>
+            <div className="section-header">
+              <h2>Notifications</h2>
+            </div>
+            <NotificationSettings
+              settings={reminderSettings}
+              permission={notificationPermission}
+              lockEnabled={lockEnabled}
+              upcoming={reminders.filter((r) => r.at > now)}
+              onChange={handleReminderSettingsChange}
+              onRequestPermission={handleRequestNotificationPermission}
+              onTest={handleTestReminder}
+              onCancel={handleCancelReminder}
+            />
+          </section>
+        )}
 
+        <section style={{ marginTop: 20 }}>
+          <div className="section-header">
+            <h2>Security</h2>
+          </div>
+          <LockSettings
+            enabled={lockEnabled}
+            timeoutMinutes={lockTimeout}
+            onSetPin={handleSetPin}
+            onChangePin={handleChangePin}
+            onRemovePin={handleRemovePin}
+            onTimeoutChange={handleLockTimeoutChange}
+          />
+          <EncryptionSettings
+            enabled={encryptionEnabled}
+            onEnable={handleEnableEncryption}
+            onChange={handleChangePassphrase}
+            onDisable={handleDisableEncryption}
+          />
+        </section>
       </div>
+
+      {undo && <UndoToast key={undo.id} message={undo.message} onUndo={handleUndo} onDismiss={() => setUndo(null)} />}
     </div>
   )
 }
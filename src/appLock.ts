@@ -0,0 +1,81 @@
+import localforage from 'localforage'
+import { hashSecret, randomSaltHex } from './crypto'
+
+// App lock settings live next to the DB in IndexedDB but outside it, so the
+// lock screen works before (and independently of) opening the database.
+const LOCK_KEY = 'subtrack_lock_v1'
+const PIN_ITERATIONS = 200000
+
+export type LockConfig = {
+  hash: string
+  salt: string
+  iterations: number
+  // Lock when the app was in the background or idle this long; 0 = at once
+  timeoutMinutes: number
+  failedAttempts: number
+  // Epoch ms before which no attempt is accepted
+  blockedUntil: number
+}
+
+export type VerifyResult = { ok: true } | { ok: false; retryAt: number }
+
+export const LOCK_TIMEOUT_OPTIONS = [0, 1, 5, 15, 60]
+
+export const MIN_PIN_LENGTH = 4
+
+// The first few wrong attempts are free; after that the wait doubles from
+// 30 seconds up to 15 minutes.
+const FREE_ATTEMPTS = 3
+const BASE_DELAY_MS = 30 * 1000
+const MAX_DELAY_MS = 15 * 60 * 1000
+
+export function backoffMs(failedAttempts: number): number {
+  if (failedAttempts < FREE_ATTEMPTS) return 0
+  return Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (failedAttempts - FREE_ATTEMPTS))
+}
+
+export async function getLockConfig(): Promise<LockConfig | null> {
+  return (await localforage.getItem<LockConfig>(LOCK_KEY)) || null
+}
+
+export async function setPin(pin: string, timeoutMinutes: number) {
+  const salt = randomSaltHex()
+  const config: LockConfig = {
+    hash: await hashSecret(pin, salt, PIN_ITERATIONS),
+    salt,
+    iterations: PIN_ITERATIONS,
+    timeoutMinutes,
+    failedAttempts: 0,
+    blockedUntil: 0,
+  }
+  await localforage.setItem(LOCK_KEY, config)
+}
+
+export async function setLockTimeout(timeoutMinutes: number) {
+  const config = await getLockConfig()
+  if (!config) return
+  await localforage.setItem(LOCK_KEY, { ...config, timeoutMinutes })
+}
+
+export async function removePin() {
+  await localforage.removeItem(LOCK_KEY)
+}
+
+// Check a PIN, applying the back-off. Attempts made while blocked are
+// rejected without being checked and don't extend the wait.
+export async function verifyPin(pin: string): Promise<VerifyResult> {
+  const config = await getLockConfig()
+  if (!config) return { ok: true }
+  const now = Date.now()
+  if (now < config.blockedUntil) return { ok: false, retryAt: config.blockedUntil }
+
+  const hash = await hashSecret(pin, config.salt, config.iterations)
+  if (hash === config.hash) {
+    if (config.failedAttempts) await localforage.setItem(LOCK_KEY, { ...config, failedAttempts: 0, blockedUntil: 0 })
+    return { ok: true }
+  }
+  const failedAttempts = config.failedAttempts + 1
+  const blockedUntil = now + backoffMs(failedAttempts)
+  await localforage.setItem(LOCK_KEY, { ...config, failedAttempts, blockedUntil })
+  return { ok: false, retryAt: blockedUntil }
+}
@@ -0,0 +1,57 @@
+// Changes applied to many History entries at once. Each function returns the
+// entry itself when the change doesn't apply to it, so callers can skip
+// unchanged entries by identity.
+import { LogEntry, Craving, Dose } from './constants'
+
+export type BulkChange =
+  | { kind: 'substance'; substance: string }
+  // No dose clears it, along with any legacy dosage text
+  | { kind: 'dose'; dose?: Dose }
+  | { kind: 'addFeelings'; feelings: string[] }
+  | { kind: 'removeFeelings'; feelings: string[] }
+  | { kind: 'shift'; minutes: number }
+
+const shiftTimestamp = (iso: string, minutes: number) => new Date(new Date(iso).getTime() + minutes * 60 * 1000).toISOString()
+
+function changeFeelings(current: string[] | undefined, change: BulkChange): string[] | undefined {
+  const list = current || []
+  let next = list
+  if (change.kind === 'addFeelings') next = [...list, ...change.feelings.filter((f) => !list.includes(f))]
+  if (change.kind === 'removeFeelings') next = list.filter((f) => !change.feelings.includes(f))
+  if (next.length === list.length) return current
+  return next.length ? next : undefined
+}
+
+export function applyToLog(log: LogEntry, change: BulkChange): LogEntry {
+  switch (change.kind) {
+    case 'substance':
+      return log.substance === change.substance ? log : { ...log, substance: change.substance }
+    case 'dose':
+      if (!change.dose && !log.dose && !log.dosage) return log
+      return { ...log, dose: change.dose, dosage: undefined }
+    case 'addFeelings':
+    case 'removeFeelings': {
+      const feelings = changeFeelings(log.feelings, change)
+      return feelings === log.feelings ? log : { ...log, feelings }
+    }
+    case 'shift':
+      return change.minutes ? { ...log, timestamp: shiftTimestamp(log.timestamp, change.minutes) } : log
+  }
+}
+
+// Cravings have no dose; the other changes work the same as for logs
+export function applyToCraving(craving: Craving, change: BulkChange): Craving {
+  switch (change.kind) {
+    case 'substance':
+      return craving.substance === change.substance ? craving : { ...craving, substance: change.substance }
+    case 'dose':
+      return craving
+    case 'addFeelings':
+    case 'removeFeelings': {
+      const feelings = changeFeelings(craving.feelings, change)
+      return feelings === craving.feelings ? craving : { ...craving, feelings }
+    }
+    case 'shift':
+      return change.minutes ? { ...craving, timestamp: shiftTimestamp(craving.timestamp, change.minutes) } : craving
+  }
+}
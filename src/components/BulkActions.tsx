@@ -0,0 +1,112 @@
+import React, { useState } from 'react'
+import { Dose, Substance, FEELING_OPTIONS } from '../constants'
+import { BulkChange } from '../bulkEdit'
+import { DoseInput } from './DoseInput'
+
+interface BulkActionsProps {
+    selectedCount: number
+    // Entries matching the History filters, or null while counting
+    matchingCount: number | null
+    substances: Substance[]
+    // The substance every selected use entry shares, if they share one
+    doseSubstance?: Substance
+    onSelectAll: () => void
+    onClearSelection: () => void
+    onApply: (change: BulkChange) => void
+    onDelete: () => void
+    onExport: (format: 'csv' | 'json') => void
+    onDone: () => void
+}
+
+const toggle = (list: string[], item: string) => (list.includes(item) ? list.filter(x => x !== item) : [...list, item])
+
+export function BulkActions({ selectedCount, matchingCount, substances, doseSubstance, onSelectAll, onClearSelection, onApply, onDelete, onExport, onDone }: BulkActionsProps) {
+    const [substance, setSubstance] = useState('')
+    const [dose, setDose] = useState<Dose | undefined>(undefined)
+    const [feelings, setFeelings] = useState<string[]>([])
+    const [shiftHours, setShiftHours] = useState('')
+    const none = selectedCount === 0
+    const shiftMinutes = Math.round(parseFloat(shiftHours) * 60)
+
+    return (
+        <div className="card bulk-actions">
+            <div className="section-header">
+                <strong>{selectedCount} selected</strong>
+                <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+                    <button type="button" className="btn ghost" onClick={onSelectAll} disabled={!matchingCount}>
+                        Select all{matchingCount ? ` ${matchingCount}` : ''} matching
+                    </button>
+                    <button type="button" className="btn ghost" onClick={onClearSelection} disabled={none}>Clear</button>
+                    <button type="button" className="btn ghost" onClick={onDone}>Done</button>
+                </div>
+            </div>
+
+            <div className="bulk-row">
+                <div className="label">Substance</div>
+                <select value={substance} onChange={e => setSubstance(e.target.value)} aria-label="New substance">
+                    <option value="">Choose…</option>
+                    {substances.map(s => <option key={s.id} value={s.name}>{s.name}</option>)}
+                </select>
+                <button type="button" className="btn ghost" disabled={none || !substance} onClick={() => onApply({ kind: 'substance', substance })}>
+                    Change
+                </button>
+            </div>
+
+            <div className="bulk-row">
+                <div className="label">Dose</div>
+                {doseSubstance ? (
+                    <>
+                        <div style={{ flex: 1, minWidth: 220 }}>
+                            <DoseInput substance={doseSubstance} value={dose} onChange={setDose} />
+                        </div>
+                        <button type="button" className="btn ghost" disabled={none || !dose} onClick={() => onApply({ kind: 'dose', dose })}>Set</button>
+                    </>
+                ) : (
+                    <span className="muted" style={{ fontSize: '0.85rem' }}>Select entries of one substance to set a dose.</span>
+                )}
+                <button type="button" className="btn ghost" disabled={none} onClick={() => onApply({ kind: 'dose' })}>Clear dose</button>
+            </div>
+
+            <div className="bulk-row">
+                <div className="label">Feelings</div>
+                <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap' }}>
+                    {FEELING_OPTIONS.map(f => (
+                        <button
+                            key={f}
+                            type="button"
+                            onClick={() => setFeelings(toggle(feelings, f))}
+                            aria-pressed={feelings.includes(f)}
+                            className={feelings.includes(f) ? 'pill selected context-pill' : 'pill context-pill'}
+                        >
+                            {f}
+                        </button>
+                    ))}
+                </div>
+                <button type="button" className="btn ghost" disabled={none || !feelings.length} onClick={() => onApply({ kind: 'addFeelings', feelings })}>Add</button>
+                <button type="button" className="btn ghost" disabled={none || !feelings.length} onClick={() => onApply({ kind: 'removeFeelings', feelings })}>Remove</button>
+            </div>
+
+            <div className="bulk-row">
+                <div className="label">Shift time</div>
+                <input
+                    type="number"
+                    step="any"
+                    value={shiftHours}
+                    onChange={e => setShiftHours(e.target.value)}
+                    placeholder="Hours, e.g. -1 or 2.5"
+                    aria-label="Shift by hours"
+                    style={{ width: 160 }}
+                />
+                <button type="button" className="btn ghost" disabled={none || !shiftMinutes} onClick={() => onApply({ kind: 'shift', minutes: shiftMinutes })}>
+                    Shift
+                </button>
+            </div>
+
+            <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', justifyContent: 'flex-end' }}>
+                <button type="button" className="btn ghost" disabled={none} onClick={() => onExport('csv')}>Export CSV</button>
+                <button type="button" className="btn ghost" disabled={none} onClick={() => onExport('json')}>Export JSON</button>
+                <button type="button" className="btn ghost" disabled={none} onClick={onDelete} style={{ color: '#ff6b6b' }}>Delete</button>
+            </div>
+        </div>
+    )
+}
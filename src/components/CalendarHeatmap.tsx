@@ -0,0 +1,117 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { LogEntry, Substance, FALLBACK_SUBSTANCE_COLOR } from '../constants'
+import type { DayTotal } from '../db'
+import { formatDose } from '../dosage'
+import { buildHeatmap, HeatmapDay, WEEKS_PER_YEAR } from '../heatmap'
+
+interface CalendarHeatmapProps {
+    // Per-day totals for the shown years, from the database
+    totals: DayTotal[]
+    substances: Substance[]
+    // A substance name, or 'All' to shade by whichever was used most
+    substance: string | 'All'
+    years: number
+    onChangeYears: (years: number) => void
+    // The day's entries, read when its cell is first hovered
+    onLoadDay: (dateKey: string) => Promise<LogEntry[]>
+    onSelectDay: (dateKey: string) => void
+}
+
+const CELL = 11
+const GAP = 2
+const LEFT = 28 // room for weekday labels
+const TOP = 14 // room for month labels
+const YEAR_OPTIONS = [1, 2, 3]
+const ROW_LABELS = ['Mon', '', 'Wed', '', 'Fri', '', '']
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+const timeOf = (iso: string) => new Intl.DateTimeFormat('en-US', { hour: 'numeric', minute: '2-digit' }).format(new Date(iso))
+
+// Each entry once they are loaded, otherwise the totals per substance
+function describeDay(day: HeatmapDay, entries: LogEntry[] | undefined, substancesByName: Record<string, Substance>): string {
+    if (!day.entries) return `${day.key}: nothing logged`
+    const lines = entries
+        ? [...entries]
+            .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+            .map(l => `${timeOf(l.timestamp)} ${l.substance}${l.dose ? ` ${formatDose(l.dose)}` : l.dosage ? ` ${l.dosage}` : ''}`)
+        : day.bySubstance.map(t => {
+            const unit = substancesByName[t.substance]?.normalizedUnit
+            return `${t.substance}: ${t.entries} ${t.entries === 1 ? 'entry' : 'entries'}${t.total && unit ? `, ${formatDose({ amount: Math.round(t.total * 10) / 10, unit })}` : ''}`
+        })
+    return `${day.key}: ${day.entries} ${day.entries === 1 ? 'entry' : 'entries'}\n${lines.join('\n')}`
+}
+
+// A GitHub-style year calendar with one cell per day
+export function CalendarHeatmap({ totals, substances, substance, years, onChangeYears, onLoadDay, onSelectDay }: CalendarHeatmapProps) {
+    const substancesByName = useMemo(() => Object.fromEntries(substances.map(s => [s.name, s])), [substances])
+    const weeks = useMemo(() => buildHeatmap(totals, years * WEEKS_PER_YEAR), [totals, years])
+    // Entries of the days hovered so far; new totals mean entries changed
+    const [details, setDetails] = useState<Record<string, LogEntry[]>>({})
+    useEffect(() => setDetails({}), [totals])
+
+    const loadDay = async (key: string) => {
+        if (details[key]) return
+        try {
+            const entries = await onLoadDay(key)
+            setDetails(prev => ({ ...prev, [key]: entries }))
+        } catch (err) {
+            console.warn('Failed to load day', err)
+        }
+    }
+    const width = LEFT + weeks.length * (CELL + GAP)
+    const height = TOP + 7 * (CELL + GAP)
+
+    return (
+        <div>
+            <div style={{ display: 'flex', gap: 6, alignItems: 'center', marginBottom: 6 }}>
+                {YEAR_OPTIONS.map(y => (
+                    <button key={y} type="button" className={years === y ? 'btn primary' : 'btn ghost'} onClick={() => onChangeYears(y)}>
+                        {y}y
+                    </button>
+                ))}
+            </div>
+            <div className="heatmap">
+                <svg viewBox={`0 0 ${width} ${height}`} style={{ width: '100%', minWidth: Math.min(width, 640), height: 'auto' }}>
+                    {ROW_LABELS.map((label, d) => label && (
+                        <text key={d} x={0} y={TOP + d * (CELL + GAP) + CELL - 1} fontSize={9} fill="var(--muted)">{label}</text>
+                    ))}
+                    {weeks.map((week, w) => {
+                        // Label a column when a month starts in it
+                        const first = week.find(day => day.key.endsWith('-01'))
+                        return first && (
+                            <text key={w} x={LEFT + w * (CELL + GAP)} y={TOP - 4} fontSize={9} fill="var(--muted)">
+                                {MONTHS[Number(first.key.slice(5, 7)) - 1]}
+                            </text>
+                        )
+                    })}
+                    {weeks.map((week, w) =>
+                        week.map((day, d) =>
+                            day.future ? null : (
+                                <rect
+                                    key={day.key}
+                                    className={day.entries ? 'heatmap-day used' : 'heatmap-day'}
+                                    x={LEFT + w * (CELL + GAP)}
+                                    y={TOP + d * (CELL + GAP)}
+                                    width={CELL}
+                                    height={CELL}
+                                    rx={2}
+                                    fill={day.entries ? substancesByName[day.substance!]?.color || FALLBACK_SUBSTANCE_COLOR : 'rgba(255,255,255,0.05)'}
+                                    fillOpacity={day.entries ? day.level : 1}
+                                    onMouseEnter={day.entries ? () => loadDay(day.key) : undefined}
+                                    onClick={day.entries ? () => onSelectDay(day.key) : undefined}
+                                >
+                                    <title>{describeDay(day, details[day.key], substancesByName)}</title>
+                                </rect>
+                            )
+                        )
+                    )}
+                </svg>
+            </div>
+            <div className="muted" style={{ fontSize: '0.8rem', marginTop: 6 }}>
+                {substance === 'All'
+                    ? "Darker days are closer to each substance's heaviest day. Click a day to see it in History."
+                    : 'Darker days had a higher dose. Click a day to see it in History.'}
+            </div>
+        </div>
+    )
+}
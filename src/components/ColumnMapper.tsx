@@ -0,0 +1,127 @@
+import React, { useMemo, useState } from 'react'
+import { ContextDimension, LogEntry, Substance } from '../constants'
+import { Table, ColumnMapping, ImportField, IMPORT_FIELDS, guessMapping, recordsToLogs } from '../fileFormats'
+
+interface ColumnMapperProps {
+    fileName: string
+    table: Table
+    substances: Substance[]
+    dimensions: ContextDimension[]
+    onContinue: (logs: LogEntry[]) => void
+    onCancel: () => void
+}
+
+// How many row errors to list before summarizing the rest
+const MAX_ERRORS_SHOWN = 50
+
+export function ColumnMapper({ fileName, table, substances, dimensions, onContinue, onCancel }: ColumnMapperProps) {
+    const [mapping, setMapping] = useState<ColumnMapping>(() => guessMapping(table.columns, dimensions))
+
+    const missing = IMPORT_FIELDS.filter(f => f.required && !mapping[f.field])
+    const result = useMemo(
+        () => (IMPORT_FIELDS.some(f => f.required && !mapping[f.field]) ? null : recordsToLogs(table.records, mapping, substances, dimensions)),
+        [table, mapping, substances, dimensions]
+    )
+
+    const setField = (field: ImportField, column: string) => {
+        setMapping(prev => {
+            const next = { ...prev }
+            if (column) next[field] = column
+            else delete next[field]
+            return next
+        })
+    }
+
+    const setContext = (dimensionId: string, column: string) => {
+        setMapping(prev => {
+            const context = { ...prev.context }
+            if (column) context[dimensionId] = column
+            else delete context[dimensionId]
+            return { ...prev, context }
+        })
+    }
+
+    const sample = table.records[0] || {}
+
+    return (
+        <div className="card" style={{ marginBottom: 12 }}>
+            <h3 style={{ margin: '0 0 4px 0' }}>Import "{fileName}"</h3>
+            <div className="muted" style={{ fontSize: '0.85rem', marginBottom: 12 }}>
+                {table.records.length} rows found. Match the file's columns to Sub-Track fields.
+            </div>
+
+            <div className="mapping-grid">
+                {IMPORT_FIELDS.map(({ field, label, required }) => (
+                    <React.Fragment key={field}>
+                        <div className="label" style={{ margin: 0 }}>
+                            {label}{required && ' *'}
+                        </div>
+                        <select value={mapping[field] ?? ''} onChange={e => setField(field, e.target.value)}>
+                            <option value="">— not in file —</option>
+                            {table.columns.map(c => <option key={c} value={c}>{c}</option>)}
+                        </select>
+                        <div className="muted mapping-sample" title={mapping[field] ? sample[mapping[field]!] : undefined}>
+                            {mapping[field] ? sample[mapping[field]!] || '(empty)' : ''}
+                        </div>
+                    </React.Fragment>
+                ))}
+                {dimensions.map(d => {
+                    const column = mapping.context?.[d.id]
+                    return (
+                        <React.Fragment key={d.id}>
+                            <div className="label" style={{ margin: 0 }}>{d.name}</div>
+                            <select value={column ?? ''} onChange={e => setContext(d.id, e.target.value)}>
+                                <option value="">— not in file —</option>
+                                {table.columns.map(c => <option key={c} value={c}>{c}</option>)}
+                            </select>
+                            <div className="muted mapping-sample" title={column ? sample[column] : undefined}>
+                                {column ? sample[column] || '(empty)' : ''}
+                            </div>
+                        </React.Fragment>
+                    )
+                })}
+            </div>
+
+            {missing.length > 0 && (
+                <div style={{ color: '#ff6b6b', fontSize: '0.85rem', marginTop: 8 }}>
+                    Choose a column for: {missing.map(f => f.label).join(', ')}
+                </div>
+            )}
+
+            {result && (
+                <div style={{ marginTop: 12 }}>
+                    <div className="import-summary">
+                        <div><strong>{result.logs.length}</strong> valid</div>
+                        <div><strong>{result.errors.length}</strong> with errors</div>
+                    </div>
+                    {result.errors.length > 0 && (
+                        <ul className="row-errors">
+                            {result.errors.slice(0, MAX_ERRORS_SHOWN).map(err => (
+                                <li key={err.row}>
+                                    <span className="muted">Row {err.row}:</span> {err.message}
+                                </li>
+                            ))}
+                            {result.errors.length > MAX_ERRORS_SHOWN && (
+                                <li className="muted">…and {result.errors.length - MAX_ERRORS_SHOWN} more</li>
+                            )}
+                        </ul>
+                    )}
+                </div>
+            )}
+
+            <div className="actions">
+                <button
+                    type="button"
+                    className="btn primary"
+                    disabled={!result || result.logs.length === 0}
+                    onClick={() => result && onContinue(result.logs)}
+                >
+                    {result && result.errors.length > 0 ? `Continue, skipping ${result.errors.length} rows` : 'Continue'}
+                </button>
+                <button type="button" className="btn ghost" onClick={onCancel}>
+                    Cancel
+                </button>
+            </div>
+        </div>
+    )
+}
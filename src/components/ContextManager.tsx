@@ -0,0 +1,137 @@
+import React, { useState } from 'react'
+import { ContextDimension } from '../constants'
+
+interface ContextManagerProps {
+    dimensions: ContextDimension[]
+    onAdd: (dimension: ContextDimension) => void
+    onUpdate: (dimension: ContextDimension) => void
+    onDelete: (id: string) => void
+    onClose: () => void
+}
+
+const validateName = (name: string, dimensions: ContextDimension[], selfId?: string): string | null => {
+    const trimmed = name.trim()
+    if (!trimmed) return 'Name is required'
+    if (dimensions.some(d => d.id !== selfId && d.name.toLowerCase() === trimmed.toLowerCase())) return `"${trimmed}" already exists`
+    return null
+}
+
+function DimensionEditor({ dimension, dimensions, onUpdate, onDelete }: {
+    dimension: ContextDimension
+    dimensions: ContextDimension[]
+    onUpdate: (d: ContextDimension) => void
+    onDelete: (id: string) => void
+}) {
+    const [name, setName] = useState(dimension.name)
+    const [error, setError] = useState<string | null>(null)
+
+    const saveName = () => {
+        if (name.trim() === dimension.name) return
+        const nameError = validateName(name, dimensions, dimension.id)
+        if (nameError) {
+            setError(nameError)
+            return
+        }
+        setError(null)
+        onUpdate({ ...dimension, name: name.trim() })
+    }
+
+    return (
+        <li className="card">
+            <div style={{ display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap' }}>
+                <input type="text" value={name} onChange={e => setName(e.target.value)} onBlur={saveName} style={{ flex: 1, minWidth: 120 }} aria-label="Name" />
+                <label style={{ display: 'flex', gap: 6, alignItems: 'center', margin: 0, fontSize: '0.85rem' }}>
+                    <input type="checkbox" checked={dimension.multiple} onChange={e => onUpdate({ ...dimension, multiple: e.target.checked })} />
+                    Allow several
+                </label>
+                <button
+                    type="button"
+                    className="btn ghost"
+                    style={{ color: '#ff6b6b' }}
+                    onClick={() => {
+                        if (confirm(`Remove "${dimension.name}"? Values already on entries are kept but no longer shown.`)) onDelete(dimension.id)
+                    }}
+                >
+                    Remove
+                </button>
+            </div>
+            {error && <div style={{ color: '#ff6b6b', fontSize: '0.85rem', marginTop: 8 }}>{error}</div>}
+            <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap', marginTop: 8 }}>
+                {dimension.options.map(o => (
+                    <span key={o} className="pill history-pill">
+                        {o}
+                        <button
+                            type="button"
+                            className="btn ghost"
+                            onClick={() => onUpdate({ ...dimension, options: dimension.options.filter(x => x !== o) })}
+                            style={{ padding: '0 4px', marginLeft: 4, color: '#ff6b6b' }}
+                            aria-label={`Remove ${o}`}
+                        >
+                            ✕
+                        </button>
+                    </span>
+                ))}
+                {dimension.options.length === 0 && <span className="muted" style={{ fontSize: '0.85rem' }}>No values yet — type them in when logging.</span>}
+            </div>
+        </li>
+    )
+}
+
+export function ContextManager({ dimensions, onAdd, onUpdate, onDelete, onClose }: ContextManagerProps) {
+    const [name, setName] = useState('')
+    const [error, setError] = useState<string | null>(null)
+
+    const handleAdd = () => {
+        const nameError = validateName(name, dimensions)
+        if (nameError) {
+            setError(nameError)
+            return
+        }
+        onAdd({
+            id: crypto.randomUUID(),
+            name: name.trim(),
+            multiple: false,
+            options: [],
+            sortOrder: dimensions.reduce((max, d) => Math.max(max, d.sortOrder), -1) + 1,
+        })
+        setName('')
+        setError(null)
+    }
+
+    return (
+        <section>
+            <div className="section-header">
+                <h2>Context</h2>
+                <button type="button" className="btn ghost" onClick={onClose}>Done</button>
+            </div>
+
+            <div className="card" style={{ marginBottom: 12 }}>
+                <div style={{ display: 'flex', gap: 8, alignItems: 'flex-end' }}>
+                    <label style={{ flex: 1, marginBottom: 0 }}>
+                        <div className="label">New context</div>
+                        <input
+                            type="text"
+                            value={name}
+                            onChange={e => setName(e.target.value)}
+                            onKeyDown={e => {
+                                if (e.key === 'Enter') {
+                                    e.preventDefault()
+                                    handleAdd()
+                                }
+                            }}
+                            placeholder="e.g. Location"
+                        />
+                    </label>
+                    <button type="button" className="btn primary" onClick={handleAdd}>Add</button>
+                </div>
+                {error && <div style={{ color: '#ff6b6b', fontSize: '0.85rem', marginTop: 8 }}>{error}</div>}
+            </div>
+
+            <ul className="list" style={{ marginBottom: 20 }}>
+                {dimensions.map(d => (
+                    <DimensionEditor key={d.id} dimension={d} dimensions={dimensions} onUpdate={onUpdate} onDelete={onDelete} />
+                ))}
+            </ul>
+        </section>
+    )
+}
@@ -0,0 +1,93 @@
+import React, { useState } from 'react'
+import { ContextDimension } from '../constants'
+
+interface ContextPickerProps {
+    dimensions: ContextDimension[]
+    value: Record<string, string[]> | undefined
+    onChange: (value: Record<string, string[]> | undefined) => void
+    // A value typed in that the dimension doesn't offer yet
+    onAddOption: (dimensionId: string, option: string) => void
+}
+
+// Drop empty dimensions so entries without context store nothing
+const compact = (value: Record<string, string[]>) => {
+    const out = Object.fromEntries(Object.entries(value).filter(([, v]) => v.length > 0))
+    return Object.keys(out).length ? out : undefined
+}
+
+function DimensionRow({ dimension, selected, onToggle, onAddOption }: {
+    dimension: ContextDimension
+    selected: string[]
+    onToggle: (option: string) => void
+    onAddOption: (option: string) => void
+}) {
+    const [draft, setDraft] = useState('')
+    // Values from older entries stay visible even if removed from the options
+    const options = [...dimension.options, ...selected.filter(v => !dimension.options.includes(v))]
+
+    const add = () => {
+        const option = draft.trim()
+        if (!option) return
+        if (!options.includes(option)) onAddOption(option)
+        if (!selected.includes(option)) onToggle(option)
+        setDraft('')
+    }
+
+    return (
+        <div className="context-row">
+            <div className="context-name">{dimension.name}</div>
+            <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap', alignItems: 'center' }}>
+                {options.map(o => (
+                    <button
+                        key={o}
+                        type="button"
+                        onClick={() => onToggle(o)}
+                        aria-pressed={selected.includes(o)}
+                        className={selected.includes(o) ? 'pill selected context-pill' : 'pill context-pill'}
+                    >
+                        {o}
+                    </button>
+                ))}
+                <input
+                    type="text"
+                    className="context-add"
+                    value={draft}
+                    onChange={e => setDraft(e.target.value)}
+                    onKeyDown={e => {
+                        if (e.key === 'Enter') {
+                            e.preventDefault()
+                            add()
+                        }
+                    }}
+                    onBlur={add}
+                    placeholder="+ add"
+                    aria-label={`Add ${dimension.name.toLowerCase()}`}
+                />
+            </div>
+        </div>
+    )
+}
+
+export function ContextPicker({ dimensions, value, onChange, onAddOption }: ContextPickerProps) {
+    const toggle = (dimension: ContextDimension, option: string) => {
+        const current = value?.[dimension.id] || []
+        let next: string[]
+        if (current.includes(option)) next = current.filter(v => v !== option)
+        else next = dimension.multiple ? [...current, option] : [option]
+        onChange(compact({ ...(value || {}), [dimension.id]: next }))
+    }
+
+    return (
+        <div className="context-picker">
+            {dimensions.map(d => (
+                <DimensionRow
+                    key={d.id}
+                    dimension={d}
+                    selected={value?.[d.id] || []}
+                    onToggle={o => toggle(d, o)}
+                    onAddOption={o => onAddOption(d.id, o)}
+                />
+            ))}
+        </div>
+    )
+}
@@ -0,0 +1,141 @@
+import React, { useState } from 'react'
+import { Craving, CravingOutcome, CRAVING_OUTCOMES, FEELING_OPTIONS, Substance, toDateTimeLocal } from '../constants'
+
+interface CravingFormProps {
+    initial: Craving
+    substances: Substance[]
+    title: string
+    submitLabel: string
+    // Only shown when editing; new cravings are logged at the current time
+    showTime?: boolean
+    onSubmit: (craving: Craving) => void
+    onCancel: () => void
+}
+
+export const OUTCOME_LABELS: Record<CravingOutcome, string> = { resisted: 'Resisted', delayed: 'Delayed', used: 'Used' }
+
+export function CravingForm({ initial, substances, title, submitLabel, showTime, onSubmit, onCancel }: CravingFormProps) {
+    const [draft, setDraft] = useState<Craving>(initial)
+
+    const toggleFeeling = (feeling: string) => {
+        setDraft(prev => {
+            const current = prev.feelings || []
+            const next = current.includes(feeling) ? current.filter(f => f !== feeling) : [...current, feeling]
+            return { ...prev, feelings: next.length ? next : undefined }
+        })
+    }
+
+    const handleSubmit = () => {
+        if (!draft.substance) return
+        const trigger = draft.trigger?.trim()
+        onSubmit({ ...draft, trigger: trigger || undefined })
+    }
+
+    return (
+        <div className="craving-form" style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+            <h3 style={{ margin: 0, fontSize: '1.1rem' }}>{title}</h3>
+
+            <label>
+                <div className="label">Substance</div>
+                <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+                    {substances.map(s => (
+                        <button
+                            key={s.id}
+                            type="button"
+                            onClick={() => setDraft(prev => ({ ...prev, substance: s.name }))}
+                            aria-pressed={draft.substance === s.name}
+                            className={draft.substance === s.name ? 'pill selected substance-pill' : 'pill substance-pill'}
+                            style={{ borderColor: draft.substance === s.name ? s.color : undefined }}
+                        >
+                            {s.name}
+                        </button>
+                    ))}
+                </div>
+            </label>
+
+            <label>
+                <div className="label">Intensity: {draft.intensity}/10</div>
+                <input
+                    type="range"
+                    min={1}
+                    max={10}
+                    step={1}
+                    value={draft.intensity}
+                    onChange={e => setDraft(prev => ({ ...prev, intensity: Number(e.target.value) }))}
+                    style={{ width: '100%' }}
+                />
+            </label>
+
+            <div>
+                <div className="label">Outcome</div>
+                <div style={{ display: 'flex', gap: 8 }}>
+                    {CRAVING_OUTCOMES.map(o => (
+                        <button
+                            key={o}
+                            type="button"
+                            onClick={() => setDraft(prev => ({ ...prev, outcome: o }))}
+                            aria-pressed={draft.outcome === o}
+                            className={draft.outcome === o ? 'pill selected' : 'pill'}
+                        >
+                            {OUTCOME_LABELS[o]}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            <label>
+                <div className="label">Trigger (optional)</div>
+                <input
+                    type="text"
+                    value={draft.trigger || ''}
+                    onChange={e => setDraft(prev => ({ ...prev, trigger: e.target.value }))}
+                    placeholder="e.g. after work, saw friends smoking"
+                />
+            </label>
+
+            {showTime && (
+                <label>
+                    <div className="label">Time</div>
+                    <input
+                        type="datetime-local"
+                        value={toDateTimeLocal(draft.timestamp)}
+                        onChange={e => {
+                            if (e.target.value) setDraft(prev => ({ ...prev, timestamp: new Date(e.target.value).toISOString() }))
+                        }}
+                    />
+                </label>
+            )}
+
+            <div>
+                <div className="label">Feelings</div>
+                <div className="feelings-row" style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+                    {FEELING_OPTIONS.map(f => {
+                        const selected = draft.feelings?.includes(f)
+                        return (
+                            <button
+                                key={f}
+                                type="button"
+                                onClick={() => toggleFeeling(f)}
+                                className={selected ? 'pill selected feeling-pill' : 'pill feeling-pill'}
+                                style={{
+                                    borderRadius: 999,
+                                    border: selected ? '1px solid #333' : '1px solid #ccc',
+                                    background: selected ? '#e6f0ff' : 'transparent',
+                                    color: selected ? '#07111a' : undefined,
+                                    cursor: 'pointer'
+                                }}
+                            >
+                                {f}
+                            </button>
+                        )
+                    })}
+                </div>
+            </div>
+
+            <div className="actions">
+                <button type="button" className="btn primary" onClick={handleSubmit} disabled={!draft.substance}>{submitLabel}</button>
+                <button type="button" className="btn ghost" onClick={onCancel}>Cancel</button>
+            </div>
+        </div>
+    )
+}
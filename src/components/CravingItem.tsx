@@ -0,0 +1,82 @@
+import React, { useState } from 'react'
+import { Craving, Substance, formatDateTime } from '../constants'
+import { CravingForm, OUTCOME_LABELS } from './CravingForm'
+import { Highlight } from './Highlight'
+
+interface CravingItemProps {
+    craving: Craving
+    substances: Substance[]
+    highlight?: string[]
+    onUpdate: (craving: Craving) => void
+    onDelete: (id: string) => void
+    // Shows a checkbox while History is in selection mode
+    selected?: boolean
+    onToggleSelect?: () => void
+}
+
+export function CravingItem({ craving, substances, highlight, onUpdate, onDelete, selected, onToggleSelect }: CravingItemProps) {
+    const [isEditing, setIsEditing] = useState(false)
+
+    if (isEditing) {
+        return (
+            <li className="card item" style={{ flexDirection: 'column', alignItems: 'stretch' }}>
+                <CravingForm
+                    initial={craving}
+                    substances={substances.filter(s => !s.archived || s.name === craving.substance)}
+                    title="Edit Craving"
+                    submitLabel="Save"
+                    showTime
+                    onSubmit={c => {
+                        onUpdate(c)
+                        setIsEditing(false)
+                    }}
+                    onCancel={() => setIsEditing(false)}
+                />
+            </li>
+        )
+    }
+
+    return (
+        <li className="card item craving-item">
+            <div className="item-head">
+                <div className="item-title">
+                    {onToggleSelect && (
+                        <input type="checkbox" className="item-select" checked={!!selected} onChange={onToggleSelect} aria-label="Select craving" />
+                    )}
+                    <span style={{ color: substances.find(s => s.name === craving.substance)?.color }}>
+                        <Highlight text={craving.substance} terms={highlight} />
+                    </span>
+                    <span className="muted" style={{ fontWeight: 400, marginLeft: 8, fontSize: '0.85rem' }}>craving</span>
+                </div>
+                <div className="item-time" onClick={() => setIsEditing(true)} style={{ cursor: 'pointer' }} title="Click to edit">
+                    {formatDateTime(craving.timestamp)}
+                </div>
+            </div>
+
+            <div style={{ display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap', marginBottom: 6 }}>
+                <span className={`outcome-badge ${craving.outcome}`}>{OUTCOME_LABELS[craving.outcome]}</span>
+                <span className="muted" style={{ fontSize: '0.85rem' }}>Intensity {craving.intensity}/10</span>
+            </div>
+
+            {craving.trigger && (
+                <div style={{ color: '#cfe0ff', marginBottom: 6 }}>
+                    <strong style={{ color: 'var(--muted)', marginRight: 6 }}>Trigger:</strong>
+                    <Highlight text={craving.trigger} terms={highlight} />
+                </div>
+            )}
+
+            {craving.feelings && craving.feelings.length > 0 && (
+                <div className="item-feelings" style={{ display: 'flex', gap: 8, flexWrap: 'wrap', marginBottom: 8 }}>
+                    {craving.feelings.map(f => (
+                        <span key={f} className="pill history-pill"><Highlight text={f} terms={highlight} /></span>
+                    ))}
+                </div>
+            )}
+
+            <div style={{ marginTop: 8, display: 'flex', justifyContent: 'flex-end', gap: 8 }}>
+                <button className="btn ghost" onClick={() => setIsEditing(true)} style={{ fontSize: '0.8rem', padding: '4px 8px' }}>Edit</button>
+                <button className="btn ghost" onClick={() => onDelete(craving.id)} style={{ fontSize: '0.8rem', padding: '4px 8px', color: '#ff6b6b' }}>Delete</button>
+            </div>
+        </li>
+    )
+}
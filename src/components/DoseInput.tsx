@@ -0,0 +1,93 @@
+import React from 'react'
+import { Dose, Substance, ROUTE_OPTIONS } from '../constants'
+import { normalizeDose } from '../dosage'
+
+interface DoseInputProps {
+    substance?: Substance
+    value?: Dose
+    onChange: (dose?: Dose) => void
+}
+
+const sameDose = (a: Dose | undefined, b: Dose) =>
+    !!a && a.amount === b.amount && a.unit === b.unit && (a.route || '') === (b.route || '')
+
+// Preset pills plus amount / unit / route fields for a substance's dosage
+export function DoseInput({ substance, value, onChange }: DoseInputProps) {
+    if (!substance) {
+        return <input type="text" placeholder="Select a substance first (optional)" disabled />
+    }
+
+    const units = substance.units.map(u => u.unit)
+    // Keep an entry's unit selectable even if the substance no longer defines it
+    if (value && !units.includes(value.unit)) units.push(value.unit)
+    const normalized = value ? normalizeDose(value, substance) : null
+
+    const handleAmount = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const amount = parseFloat(e.target.value)
+        if (isNaN(amount)) {
+            onChange(undefined)
+            return
+        }
+        onChange({ amount, unit: value?.unit ?? substance.normalizedUnit, route: value?.route })
+    }
+
+    return (
+        <>
+            {substance.presets.length > 0 && (
+                <div className="dosage-row" style={{ display: 'flex', gap: 8, flexWrap: 'wrap', marginBottom: 8 }}>
+                    {substance.presets.map((option) => {
+                        const preset: Dose = { amount: option.amount, unit: option.unit, route: option.route }
+                        const selected = sameDose(value, preset)
+                        return (
+                            <button
+                                key={option.label}
+                                type="button"
+                                onClick={() => onChange(selected ? undefined : preset)}
+                                aria-pressed={selected}
+                                className={selected ? 'pill selected' : 'pill'}
+                                title={option.description}
+                            >
+                                {option.label}
+                            </button>
+                        )
+                    })}
+                </div>
+            )}
+            <div className="dose-fields">
+                <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={value ? value.amount : ''}
+                    onChange={handleAmount}
+                    placeholder="Amount (optional)"
+                    aria-label="Amount"
+                />
+                <select
+                    value={value?.unit ?? substance.normalizedUnit}
+                    onChange={e => value && onChange({ ...value, unit: e.target.value })}
+                    disabled={!value}
+                    aria-label="Unit"
+                >
+                    {units.map(u => <option key={u} value={u}>{u}</option>)}
+                </select>
+                <select
+                    value={value?.route ?? ''}
+                    onChange={e => value && onChange({ ...value, route: e.target.value || undefined })}
+                    disabled={!value}
+                    aria-label="Route"
+                >
+                    <option value="">route…</option>
+                    {ROUTE_OPTIONS.map(r => <option key={r} value={r}>{r}</option>)}
+                </select>
+            </div>
+            {value && value.unit !== substance.normalizedUnit && (
+                <div className="muted" style={{ fontSize: '0.8rem', marginTop: 4 }}>
+                    {normalized === null
+                        ? `No conversion from ${value.unit} to ${substance.normalizedUnit} — add one under Manage`
+                        : `≈ ${+normalized.toFixed(2)} ${substance.normalizedUnit}`}
+                </div>
+            )}
+        </>
+    )
+}
@@ -0,0 +1,80 @@
+import React, { useState } from 'react'
+import { PassphraseForm, PassphraseValues } from './PassphraseForm'
+
+interface EncryptionSettingsProps {
+    enabled: boolean
+    onEnable: (passphrase: string) => Promise<void>
+    onChange: (current: string, next: string) => Promise<void>
+    onDisable: (current: string) => Promise<void>
+}
+
+type Mode = 'idle' | 'enable' | 'change' | 'disable'
+
+export function EncryptionSettings({ enabled, onEnable, onChange, onDisable }: EncryptionSettingsProps) {
+    const [mode, setMode] = useState<Mode>('idle')
+
+    const run = (fn: (v: PassphraseValues) => Promise<void>) => async (v: PassphraseValues) => {
+        await fn(v)
+        setMode('idle')
+    }
+
+    if (mode === 'enable') {
+        return (
+            <PassphraseForm
+                title="Encrypt your data"
+                description="Your log will be encrypted on this device with this passphrase. It cannot be recovered if you forget it."
+                askNew
+                submitLabel="Encrypt"
+                onSubmit={run(v => onEnable(v.next))}
+                onCancel={() => setMode('idle')}
+            />
+        )
+    }
+    if (mode === 'change') {
+        return (
+            <PassphraseForm
+                title="Change passphrase"
+                askCurrent
+                askNew
+                submitLabel="Change passphrase"
+                onSubmit={run(v => onChange(v.current, v.next))}
+                onCancel={() => setMode('idle')}
+            />
+        )
+    }
+    if (mode === 'disable') {
+        return (
+            <PassphraseForm
+                title="Turn off encryption"
+                description="Your log will be stored unencrypted on this device."
+                askCurrent
+                submitLabel="Turn off"
+                onSubmit={run(v => onDisable(v.current))}
+                onCancel={() => setMode('idle')}
+            />
+        )
+    }
+
+    return (
+        <div className="card" style={{ marginBottom: 12 }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+                <div>
+                    <strong>Passphrase encryption</strong>
+                    <div className="muted" style={{ fontSize: '0.85rem' }}>
+                        {enabled ? 'On — data on this device is encrypted.' : 'Off — data on this device is stored unencrypted.'}
+                    </div>
+                </div>
+                <div style={{ display: 'flex', gap: 8 }}>
+                    {enabled ? (
+                        <>
+                            <button type="button" className="btn ghost" onClick={() => setMode('change')}>Change passphrase</button>
+                            <button type="button" className="btn ghost" onClick={() => setMode('disable')}>Turn off</button>
+                        </>
+                    ) : (
+                        <button type="button" className="btn primary" onClick={() => setMode('enable')}>Turn on</button>
+                    )}
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,110 @@
+import React, { useMemo } from 'react'
+import type { FeelingCount, FeelingDose } from '../db'
+import { FALLBACK_SUBSTANCE_COLOR } from '../constants'
+import { MIN_DOSED, MIN_EXPECTED, doseLinks, feelingMatrix, findings, formatLift } from '../insights'
+
+interface FeelingInsightsProps {
+    counts: FeelingCount[]
+    // Use entries per substance in the range
+    totals: Record<string, number>
+    doses: FeelingDose[]
+    colors: Record<string, string>
+}
+
+// Warm for more often than expected, cool for less
+const liftColor = (lift: number | null) => {
+    if (lift === null) return 'transparent'
+    if (lift >= 1) return `rgba(255, 107, 107, ${Math.min(0.6, (lift - 1) * 0.3)})`
+    return `rgba(99, 102, 241, ${Math.min(0.6, (1 - lift) * 0.6)})`
+}
+
+export function FeelingInsights({ counts, totals, doses, colors }: FeelingInsightsProps) {
+    const matrix = useMemo(() => feelingMatrix(counts, totals), [counts, totals])
+    const links = useMemo(() => doseLinks(doses), [doses])
+    const notes = useMemo(() => findings(matrix, links), [matrix, links])
+    const doseRows = links.filter(l => l.highWith / l.withFeeling !== l.highWithoutShare).sort((a, b) => Number(a.smallSample) - Number(b.smallSample) || b.withFeeling - a.withFeeling)
+
+    if (matrix.feelings.length === 0) return <div className="muted">No feelings tagged in this range.</div>
+
+    return (
+        <div>
+            {notes.length > 0 ? (
+                <ul className="peak-list">
+                    {notes.map(n => <li key={n}>{n}</li>)}
+                </ul>
+            ) : (
+                <div className="muted" style={{ fontSize: '0.85rem', marginBottom: 8 }}>Nothing stands out yet. Findings show once there are enough entries to compare.</div>
+            )}
+
+            <div className="insight-table-wrap">
+                <table className="insight-table">
+                    <thead>
+                        <tr>
+                            <th />
+                            {matrix.substances.map(s => (
+                                <th key={s} style={{ color: colors[s] || FALLBACK_SUBSTANCE_COLOR }}>{s}</th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {matrix.feelings.map(f => (
+                            <tr key={f}>
+                                <th>{f}</th>
+                                {matrix.substances.map(s => {
+                                    const cell = matrix.cells[f][s]
+                                    return (
+                                        <td
+                                            key={s}
+                                            className={cell.smallSample ? 'small-sample' : undefined}
+                                            style={{ background: cell.smallSample ? undefined : liftColor(cell.lift) }}
+                                            title={`${cell.entries} of ${totals[s]} ${s} entries; ${cell.expected.toFixed(1)} expected`}
+                                        >
+                                            {cell.entries}
+                                            {cell.lift !== null && matrix.substances.length > 1 && <span className="muted"> · {formatLift(cell.lift)}</span>}
+                                            {cell.smallSample && '*'}
+                                        </td>
+                                    )
+                                })}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <div className="muted" style={{ fontSize: '0.8rem', marginTop: 6 }}>
+                Entries with each feeling, and how that compares with the feeling's rate across all substances (1× is the same, 2× twice as often).
+                * Fewer than {MIN_EXPECTED} entries were expected, so the comparison may be chance.
+            </div>
+
+            {doseRows.length > 0 && (
+                <>
+                    <div className="label" style={{ margin: '14px 0 4px' }}>Higher-than-usual doses</div>
+                    <div className="insight-table-wrap">
+                        <table className="insight-table">
+                            <thead>
+                                <tr>
+                                    <th />
+                                    <th>Feeling</th>
+                                    <th>With it</th>
+                                    <th>Without it</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {doseRows.map(l => (
+                                    <tr key={`${l.substance}:${l.feeling}`} className={l.smallSample ? 'small-sample' : undefined}>
+                                        <th style={{ color: colors[l.substance] || FALLBACK_SUBSTANCE_COLOR }}>{l.substance}</th>
+                                        <td>{l.feeling}{l.smallSample && '*'}</td>
+                                        <td>{l.highWith} of {l.withFeeling}</td>
+                                        <td>{Math.round(l.highWithoutShare * 100)}%</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    <div className="muted" style={{ fontSize: '0.8rem', marginTop: 6 }}>
+                        Entries above the substance's average dose in this range. * Fewer than {MIN_DOSED} dosed entries on one side.
+                    </div>
+                </>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,108 @@
+import React, { useState } from 'react'
+import { LogEntry, Substance, FEELING_OPTIONS, formatDateTime } from '../constants'
+import { formatDose } from '../dosage'
+
+interface FollowUpPanelProps {
+    // Entries whose check-in is due, oldest first
+    due: LogEntry[]
+    // Check-ins scheduled for later
+    upcoming: number
+    substances: Substance[]
+    onComplete: (log: LogEntry, answer: { feelings?: string[]; worthIt?: number }) => void
+    onSkip: (log: LogEntry) => void
+    onClose: () => void
+}
+
+export const WORTH_IT_LABELS = ['Not at all', 'Not really', 'Unsure', 'Mostly', 'Very much']
+
+function CheckIn({ log, substances, onComplete, onSkip }: {
+    log: LogEntry
+    substances: Substance[]
+    onComplete: FollowUpPanelProps['onComplete']
+    onSkip: FollowUpPanelProps['onSkip']
+}) {
+    const [feelings, setFeelings] = useState<string[]>([])
+    const [worthIt, setWorthIt] = useState<number | undefined>(undefined)
+    const dose = log.dose ? formatDose(log.dose) : log.dosage
+
+    return (
+        <li className="card">
+            <div>
+                <strong style={{ color: substances.find(s => s.name === log.substance)?.color }}>{log.substance}</strong>
+                {dose && <span> · {dose}</span>}
+                <span className="muted" style={{ marginLeft: 8, fontSize: '0.85rem' }}>{formatDateTime(log.timestamp)}</span>
+            </div>
+            {log.feelings && log.feelings.length > 0 && (
+                <div className="muted" style={{ fontSize: '0.85rem' }}>You felt {log.feelings.join(', ')} then.</div>
+            )}
+
+            <div className="label" style={{ marginTop: 8 }}>How do you feel now?</div>
+            <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap' }}>
+                {FEELING_OPTIONS.map(f => (
+                    <button
+                        key={f}
+                        type="button"
+                        className={feelings.includes(f) ? 'pill selected context-pill' : 'pill context-pill'}
+                        aria-pressed={feelings.includes(f)}
+                        onClick={() => setFeelings(feelings.includes(f) ? feelings.filter(x => x !== f) : [...feelings, f])}
+                    >
+                        {f}
+                    </button>
+                ))}
+            </div>
+
+            <div className="label" style={{ marginTop: 8 }}>Was it worth it?</div>
+            <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap' }}>
+                {WORTH_IT_LABELS.map((label, i) => (
+                    <button
+                        key={label}
+                        type="button"
+                        className={worthIt === i + 1 ? 'pill selected' : 'pill'}
+                        aria-pressed={worthIt === i + 1}
+                        onClick={() => setWorthIt(worthIt === i + 1 ? undefined : i + 1)}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+
+            <div className="actions" style={{ marginTop: 8 }}>
+                <button
+                    type="button"
+                    className="btn primary"
+                    disabled={!feelings.length && !worthIt}
+                    onClick={() => onComplete(log, { feelings: feelings.length ? feelings : undefined, worthIt })}
+                >
+                    Save
+                </button>
+                <button type="button" className="btn ghost" onClick={() => onSkip(log)}>Skip</button>
+            </div>
+        </li>
+    )
+}
+
+// Due follow-up check-ins, answered one entry at a time
+export function FollowUpPanel({ due, upcoming, substances, onComplete, onSkip, onClose }: FollowUpPanelProps) {
+    return (
+        <section>
+            <div className="section-header">
+                <h2>Check-ins</h2>
+                <button type="button" className="btn ghost" onClick={onClose}>Done</button>
+            </div>
+            {due.length === 0 ? (
+                <div className="card muted" style={{ marginBottom: 12 }}>No check-ins are due.</div>
+            ) : (
+                <ul className="list" style={{ marginBottom: 12 }}>
+                    {due.map(log => (
+                        <CheckIn key={log.id} log={log} substances={substances} onComplete={onComplete} onSkip={onSkip} />
+                    ))}
+                </ul>
+            )}
+            {upcoming > 0 && (
+                <div className="muted" style={{ fontSize: '0.85rem', marginBottom: 20 }}>
+                    {upcoming} more {upcoming === 1 ? 'check-in is' : 'check-ins are'} scheduled for later.
+                </div>
+            )}
+        </section>
+    )
+}
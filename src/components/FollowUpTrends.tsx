@@ -0,0 +1,65 @@
+import React from 'react'
+import type { FollowUpSummary } from '../db'
+import { FALLBACK_SUBSTANCE_COLOR, FEELING_OPTIONS } from '../constants'
+import { WORTH_IT_LABELS } from './FollowUpPanel'
+
+interface FollowUpTrendsProps {
+    summaries: FollowUpSummary[]
+    colors: Record<string, string>
+}
+
+const share = (n: number | undefined, total: number) => `${Math.round(((n ?? 0) / total) * 100)}%`
+
+// Per substance: how often each feeling was tagged when logging and at the
+// check-in afterwards, out of the entries that were checked in on
+export function FollowUpTrends({ summaries, colors }: FollowUpTrendsProps) {
+    if (summaries.length === 0) {
+        return <div className="muted">No check-ins in this range. Choose "Check in later" when logging to see how you feel afterwards.</div>
+    }
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+            {summaries.map(s => {
+                const feelings = FEELING_OPTIONS.filter(f => s.before[f] || s.after[f])
+                return (
+                    <div key={s.substance}>
+                        <div style={{ display: 'flex', justifyContent: 'space-between', gap: 8, flexWrap: 'wrap' }}>
+                            <strong style={{ color: colors[s.substance] || FALLBACK_SUBSTANCE_COLOR }}>{s.substance}</strong>
+                            <span className="muted" style={{ fontSize: '0.85rem' }}>
+                                {s.checkIns} {s.checkIns === 1 ? 'check-in' : 'check-ins'}
+                                {s.worthIt !== null && ` · worth it: ${WORTH_IT_LABELS[Math.round(s.worthIt) - 1].toLowerCase()} (${s.worthIt.toFixed(1)}/5)`}
+                            </span>
+                        </div>
+                        {feelings.length > 0 && (
+                            <div className="insight-table-wrap">
+                                <table className="insight-table">
+                                    <thead>
+                                        <tr>
+                                            <th>Feeling</th>
+                                            <th>When logged</th>
+                                            <th>Afterwards</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {feelings.map(f => (
+                                            <tr key={f}>
+                                                <th>{f}</th>
+                                                <td>{share(s.before[f], s.checkIns)}</td>
+                                                <td>
+                                                    {share(s.after[f], s.checkIns)}
+                                                    {(s.after[f] ?? 0) !== (s.before[f] ?? 0) && (
+                                                        <span className="muted"> {(s.after[f] ?? 0) > (s.before[f] ?? 0) ? '▲' : '▼'}</span>
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+                    </div>
+                )
+            })}
+        </div>
+    )
+}
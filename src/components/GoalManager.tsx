@@ -0,0 +1,154 @@
+import React, { useState } from 'react'
+import { Goal, GoalPeriod, Substance } from '../constants'
+import { WEEKDAY_LABELS, describeGoal, newGoal } from '../goals'
+
+interface GoalManagerProps {
+    goals: Goal[]
+    substances: Substance[]
+    onAdd: (goal: Goal) => void
+    onUpdate: (goal: Goal) => void
+    onDelete: (id: string) => void
+    onClose: () => void
+}
+
+function GoalForm({ initial, substances, submitLabel, onSubmit, onCancel }: {
+    initial: Goal
+    substances: Substance[]
+    submitLabel: string
+    onSubmit: (goal: Goal) => void
+    onCancel?: () => void
+}) {
+    const [draft, setDraft] = useState<Goal>(initial)
+    const [error, setError] = useState<string | null>(null)
+    const substance = substances.find(s => s.id === draft.substanceId)
+
+    const toggleDay = (day: number) => {
+        setDraft(prev => ({
+            ...prev,
+            weekdays: prev.weekdays.includes(day) ? prev.weekdays.filter(d => d !== day) : [...prev.weekdays, day].sort(),
+        }))
+    }
+
+    const handleSubmit = () => {
+        if (!substance) return setError('Choose a substance')
+        if (!(draft.limit >= 0)) return setError('The limit must be 0 or more')
+        if (draft.period === 'day' && draft.weekdays.length === 0) return setError('Pick at least one day')
+        setError(null)
+        onSubmit({ ...draft, weekdays: draft.period === 'week' ? [0, 1, 2, 3, 4, 5, 6] : draft.weekdays })
+    }
+
+    return (
+        <div>
+            <div className="goal-fields">
+                <select value={draft.substanceId} onChange={e => setDraft({ ...draft, substanceId: e.target.value })} aria-label="Substance">
+                    {!substance && <option value="">Substance…</option>}
+                    {substances.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                </select>
+                <span className="muted">max</span>
+                <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={draft.limit}
+                    onChange={e => setDraft({ ...draft, limit: parseFloat(e.target.value) })}
+                    aria-label="Limit"
+                />
+                <span className="muted">{substance?.normalizedUnit ?? ''}</span>
+                <select value={draft.period} onChange={e => setDraft({ ...draft, period: e.target.value as GoalPeriod })} aria-label="Period">
+                    <option value="day">per day</option>
+                    <option value="week">per week</option>
+                </select>
+            </div>
+            {draft.period === 'day' && (
+                <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap', marginTop: 8 }}>
+                    {WEEKDAY_LABELS.map((label, day) => (
+                        <button
+                            key={label}
+                            type="button"
+                            className={draft.weekdays.includes(day) ? 'pill selected' : 'pill'}
+                            aria-pressed={draft.weekdays.includes(day)}
+                            onClick={() => toggleDay(day)}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            )}
+            <div className="muted" style={{ fontSize: '0.8rem', marginTop: 8 }}>
+                {substance && draft.limit >= 0 ? describeGoal(draft, substance) : 'A limit of 0 means not using it at all.'}
+            </div>
+            {error && <div style={{ color: '#ff6b6b', fontSize: '0.85rem', marginTop: 8 }}>{error}</div>}
+            <div className="actions" style={{ marginTop: 8 }}>
+                <button type="button" className="btn primary" onClick={handleSubmit}>{submitLabel}</button>
+                {onCancel && <button type="button" className="btn ghost" onClick={onCancel}>Cancel</button>}
+            </div>
+        </div>
+    )
+}
+
+export function GoalManager({ goals, substances, onAdd, onUpdate, onDelete, onClose }: GoalManagerProps) {
+    const [editingId, setEditingId] = useState<string | null>(null)
+    // Bumped after each add so the form starts over with a fresh goal
+    const [formKey, setFormKey] = useState(0)
+    const active = substances.filter(s => !s.archived)
+
+    return (
+        <section>
+            <div className="section-header">
+                <h2>Goals</h2>
+                <button type="button" className="btn ghost" onClick={onClose}>Done</button>
+            </div>
+
+            <div className="card" style={{ marginBottom: 12 }}>
+                <div className="label">New goal</div>
+                <GoalForm
+                    key={formKey}
+                    initial={newGoal(active[0]?.id ?? '')}
+                    substances={active}
+                    submitLabel="Add goal"
+                    onSubmit={goal => {
+                        onAdd(goal)
+                        setFormKey(k => k + 1)
+                    }}
+                />
+            </div>
+
+            <ul className="list" style={{ marginBottom: 20 }}>
+                {goals.map(goal => (
+                    <li key={goal.id} className="card">
+                        {editingId === goal.id ? (
+                            <GoalForm
+                                initial={goal}
+                                substances={substances.filter(s => !s.archived || s.id === goal.substanceId)}
+                                submitLabel="Save"
+                                onSubmit={g => {
+                                    onUpdate(g)
+                                    setEditingId(null)
+                                }}
+                                onCancel={() => setEditingId(null)}
+                            />
+                        ) : (
+                            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 8 }}>
+                                <span>{describeGoal(goal, substances.find(s => s.id === goal.substanceId))}</span>
+                                <div style={{ display: 'flex', gap: 8 }}>
+                                    <button type="button" className="btn ghost" onClick={() => setEditingId(goal.id)}>Edit</button>
+                                    <button
+                                        type="button"
+                                        className="btn ghost"
+                                        style={{ color: '#ff6b6b' }}
+                                        onClick={() => {
+                                            if (confirm('Delete this goal?')) onDelete(goal.id)
+                                        }}
+                                    >
+                                        Delete
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                    </li>
+                ))}
+                {goals.length === 0 && <li className="muted">No goals yet.</li>}
+            </ul>
+        </section>
+    )
+}
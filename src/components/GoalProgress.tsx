@@ -0,0 +1,59 @@
+import React from 'react'
+import { Goal, Substance } from '../constants'
+import type { DayTotal } from '../db'
+import { dailyUsage, describeGoal, goalAppliesOn, isOver, usageInPeriod } from '../goals'
+import { formatDose } from '../dosage'
+
+interface GoalProgressProps {
+    goals: Goal[]
+    substances: Substance[]
+    // Per-day totals since the start of the week
+    totals: DayTotal[]
+    // Goals the entry being composed would break; highlighted as a warning
+    breaking: Goal[]
+}
+
+// Where each goal stands today / this week
+export function GoalProgress({ goals, substances, totals, breaking }: GoalProgressProps) {
+    const now = new Date()
+
+    return (
+        <div className="goal-progress">
+            {goals.map(goal => {
+                const substance = substances.find(s => s.id === goal.substanceId)
+                if (!substance) return null
+                const usage = usageInPeriod(goal, dailyUsage(totals, substance), now)
+                const over = isOver(goal, usage)
+                const warn = breaking.some(g => g.id === goal.id)
+                const applies = goalAppliesOn(goal, now)
+                const ratio = goal.limit > 0 ? Math.min(1, usage.used / goal.limit) : usage.entries > 0 ? 1 : 0
+                const status = !applies
+                    ? 'Not today'
+                    : goal.limit === 0
+                        ? (usage.entries > 0 ? `Used ${usage.entries}×` : 'On track')
+                        : `${formatDose({ amount: +usage.used.toFixed(2), unit: substance.normalizedUnit })} of ${goal.limit}`
+                return (
+                    <div key={goal.id} className={warn ? 'goal-row warn' : 'goal-row'}>
+                        <div style={{ display: 'flex', justifyContent: 'space-between', gap: 8, fontSize: '0.85rem' }}>
+                            <span>{describeGoal(goal, substance)}</span>
+                            <span className="muted">{status}</span>
+                        </div>
+                        <div className="goal-bar">
+                            <div
+                                style={{
+                                    width: `${ratio * 100}%`,
+                                    background: over ? '#ff6b6b' : substance.color,
+                                }}
+                            />
+                        </div>
+                        {warn && (
+                            <div style={{ color: '#ff6b6b', fontSize: '0.8rem', marginTop: 4 }}>
+                                This entry would {over ? 'add to a goal already broken' : 'break this goal'}.
+                            </div>
+                        )}
+                    </div>
+                )
+            })}
+        </div>
+    )
+}
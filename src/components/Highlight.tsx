@@ -0,0 +1,12 @@
+import React from 'react'
+import { splitMatches } from '../search'
+
+// Renders `text` with the parts matching a History search marked
+export function Highlight({ text, terms }: { text: string; terms?: string[] }) {
+    if (!terms || terms.length === 0) return <>{text}</>
+    return (
+        <>
+            {splitMatches(text, terms).map((part, i) => (part.match ? <mark key={i}>{part.text}</mark> : <React.Fragment key={i}>{part.text}</React.Fragment>))}
+        </>
+    )
+}
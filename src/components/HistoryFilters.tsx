@@ -0,0 +1,121 @@
+import React, { useState } from 'react'
+import { FEELING_OPTIONS, Substance } from '../constants'
+
+export type HistoryFilterValue = {
+    text: string
+    substances: string[]
+    feelings: string[]
+    from: string // YYYY-MM-DD, '' for no limit
+    to: string // YYYY-MM-DD, inclusive
+    hasDosage: boolean
+}
+
+export const EMPTY_HISTORY_FILTER: HistoryFilterValue = { text: '', substances: [], feelings: [], from: '', to: '', hasDosage: false }
+
+// Filters set in the panel; the search box is counted separately
+const panelCount = (v: HistoryFilterValue) =>
+    (v.substances.length ? 1 : 0) + (v.feelings.length ? 1 : 0) + (v.from || v.to ? 1 : 0) + (v.hasDosage ? 1 : 0)
+
+export const isFiltered = (v: HistoryFilterValue) => panelCount(v) > 0 || v.text.trim() !== ''
+
+interface HistoryFiltersProps {
+    value: HistoryFilterValue
+    onChange: (value: HistoryFilterValue) => void
+    substances: Substance[]
+    // Matching entries, or null while the first count is loading
+    total: number | null
+}
+
+const toggle = (list: string[], item: string) => (list.includes(item) ? list.filter(x => x !== item) : [...list, item])
+
+export function HistoryFilters({ value, onChange, substances, total }: HistoryFiltersProps) {
+    const [open, setOpen] = useState(false)
+    const count = panelCount(value)
+    const set = (patch: Partial<HistoryFilterValue>) => onChange({ ...value, ...patch })
+
+    return (
+        <div className="history-filters">
+            <div className="history-search">
+                <input
+                    type="search"
+                    value={value.text}
+                    onChange={e => set({ text: e.target.value })}
+                    placeholder="Search notes, feelings, substances…"
+                    aria-label="Search history"
+                />
+                <button type="button" className="btn ghost" onClick={() => setOpen(v => !v)} aria-expanded={open}>
+                    Filters{count > 0 ? ` (${count})` : ''}
+                </button>
+            </div>
+
+            {open && (
+                <div className="card history-filter-panel">
+                    <div>
+                        <div className="label">Substances</div>
+                        <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap' }}>
+                            {substances.map(s => (
+                                <button
+                                    key={s.id}
+                                    type="button"
+                                    onClick={() => set({ substances: toggle(value.substances, s.name) })}
+                                    aria-pressed={value.substances.includes(s.name)}
+                                    className={value.substances.includes(s.name) ? 'pill selected context-pill' : 'pill context-pill'}
+                                    style={{ borderColor: value.substances.includes(s.name) ? s.color : undefined }}
+                                >
+                                    {s.name}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div>
+                        <div className="label">Feelings (any of)</div>
+                        <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap' }}>
+                            {FEELING_OPTIONS.map(f => (
+                                <button
+                                    key={f}
+                                    type="button"
+                                    onClick={() => set({ feelings: toggle(value.feelings, f) })}
+                                    aria-pressed={value.feelings.includes(f)}
+                                    className={value.feelings.includes(f) ? 'pill selected context-pill' : 'pill context-pill'}
+                                >
+                                    {f}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+                        <label style={{ flex: 1, minWidth: 130, marginBottom: 0 }}>
+                            <div className="label">From</div>
+                            <input type="date" value={value.from} max={value.to || undefined} onChange={e => set({ from: e.target.value })} />
+                        </label>
+                        <label style={{ flex: 1, minWidth: 130, marginBottom: 0 }}>
+                            <div className="label">To</div>
+                            <input type="date" value={value.to} min={value.from || undefined} onChange={e => set({ to: e.target.value })} />
+                        </label>
+                    </div>
+
+                    <label style={{ display: 'flex', gap: 6, alignItems: 'center', margin: 0, fontSize: '0.9rem' }}>
+                        <input type="checkbox" checked={value.hasDosage} onChange={e => set({ hasDosage: e.target.checked })} />
+                        Only entries with a dose
+                    </label>
+
+                    {isFiltered(value) && (
+                        <div>
+                            <button type="button" className="btn ghost" onClick={() => onChange(EMPTY_HISTORY_FILTER)}>
+                                Clear filters
+                            </button>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {isFiltered(value) && total !== null && (
+                <div className="muted" style={{ fontSize: '0.85rem' }}>
+                    {total} {total === 1 ? 'entry matches' : 'entries match'}
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,124 @@
+import React, { useState } from 'react'
+import { LogEntry, formatDateTime } from '../constants'
+import { formatDose } from '../dosage'
+
+export type Resolution = 'local' | 'incoming'
+
+export interface ImportConflictEntry {
+    id: string
+    local: LogEntry
+    incoming: LogEntry
+}
+
+interface ImportReviewProps {
+    fileName: string
+    // Only whole database files can replace the current data
+    canReplace: boolean
+    newCount: number
+    identicalCount: number
+    newSubstances: string[]
+    newCravingCount: number
+    conflicts: ImportConflictEntry[]
+    onMerge: (resolutions: Record<string, Resolution>) => void
+    onReplace: () => void
+    onCancel: () => void
+}
+
+// The fields shown when comparing two versions of an entry
+const describe = (log: LogEntry): [string, string][] => [
+    ['Substance', log.substance],
+    ['Time', formatDateTime(log.timestamp)],
+    ['Dose', log.dose ? formatDose(log.dose) : log.dosage || '—'],
+    ['Feelings', log.feelings?.join(', ') || '—'],
+]
+
+function ConflictRow({ conflict, choice, onChoose }: { conflict: ImportConflictEntry; choice: Resolution; onChoose: (r: Resolution) => void }) {
+    const local = describe(conflict.local)
+    const incoming = describe(conflict.incoming)
+    const side = (r: Resolution, fields: [string, string][], other: [string, string][], title: string) => (
+        <button
+            type="button"
+            className={choice === r ? 'conflict-side selected' : 'conflict-side'}
+            onClick={() => onChoose(r)}
+            aria-pressed={choice === r}
+        >
+            <div className="label" style={{ marginBottom: 4 }}>{title}</div>
+            {fields.map(([k, v], i) => (
+                <div key={k} style={{ fontWeight: v !== other[i][1] ? 600 : undefined }}>
+                    <span className="muted">{k}: </span>{v}
+                </div>
+            ))}
+        </button>
+    )
+    return (
+        <li className="conflict-row">
+            {side('local', local, incoming, 'Keep this device')}
+            {side('incoming', incoming, local, 'Use imported')}
+        </li>
+    )
+}
+
+export function ImportReview({ fileName, canReplace, newCount, identicalCount, newSubstances, newCravingCount, conflicts, onMerge, onReplace, onCancel }: ImportReviewProps) {
+    // Default every conflict to the local version: merging never changes
+    // an existing entry unless the user says so
+    const [resolutions, setResolutions] = useState<Record<string, Resolution>>(() =>
+        Object.fromEntries(conflicts.map(c => [c.id, 'local' as Resolution]))
+    )
+
+    const setAll = (r: Resolution) => setResolutions(Object.fromEntries(conflicts.map(c => [c.id, r])))
+
+    return (
+        <div className="card" style={{ marginBottom: 12 }}>
+            <h3 style={{ margin: '0 0 8px 0' }}>Import "{fileName}"</h3>
+            <div className="import-summary">
+                <div><strong>{newCount}</strong> new</div>
+                <div><strong>{identicalCount}</strong> identical</div>
+                <div><strong>{conflicts.length}</strong> conflicting</div>
+            </div>
+            {newCravingCount > 0 && (
+                <div className="muted" style={{ fontSize: '0.85rem', marginBottom: 8 }}>
+                    Also adds {newCravingCount} {newCravingCount === 1 ? 'craving' : 'cravings'}
+                </div>
+            )}
+            {newSubstances.length > 0 && (
+                <div className="muted" style={{ fontSize: '0.85rem', marginBottom: 8 }}>
+                    Adds substances: {newSubstances.join(', ')}
+                </div>
+            )}
+
+            {conflicts.length > 0 && (
+                <>
+                    <div style={{ display: 'flex', gap: 8, alignItems: 'center', margin: '8px 0', flexWrap: 'wrap' }}>
+                        <div className="label" style={{ margin: 0 }}>For all conflicts</div>
+                        <button type="button" className="btn ghost" onClick={() => setAll('local')}>Keep this device</button>
+                        <button type="button" className="btn ghost" onClick={() => setAll('incoming')}>Use imported</button>
+                    </div>
+                    <ul className="list" style={{ maxHeight: 360, overflowY: 'auto', marginBottom: 8 }}>
+                        {conflicts.map(c => (
+                            <ConflictRow
+                                key={c.id}
+                                conflict={c}
+                                choice={resolutions[c.id]}
+                                onChoose={r => setResolutions(prev => ({ ...prev, [c.id]: r }))}
+                            />
+                        ))}
+                    </ul>
+                </>
+            )}
+
+            <div className="actions">
+                <button type="button" className="btn primary" onClick={() => onMerge(resolutions)}>
+                    Merge
+                </button>
+                <button type="button" className="btn ghost" onClick={onCancel}>
+                    Cancel
+                </button>
+                {canReplace && (
+                    <button type="button" className="btn ghost" onClick={onReplace} style={{ marginLeft: 'auto', color: '#ff6b6b' }}>
+                        Replace all my data…
+                    </button>
+                )}
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,123 @@
+import React, { FormEvent, useEffect, useState } from 'react'
+
+interface LockScreenProps {
+    // Resolves with the time before which no retry is accepted on failure
+    onUnlock: (pin: string) => Promise<{ ok: true } | { ok: false; retryAt: number }>
+    onWipe: () => Promise<void>
+}
+
+// Text the user must type to confirm erasing everything
+const WIPE_CONFIRMATION = 'ERASE'
+
+export function LockScreen({ onUnlock, onWipe }: LockScreenProps) {
+    const [pin, setPin] = useState('')
+    const [error, setError] = useState<string | null>(null)
+    const [retryAt, setRetryAt] = useState(0)
+    const [now, setNow] = useState(Date.now())
+    const [busy, setBusy] = useState(false)
+    const [showRecovery, setShowRecovery] = useState(false)
+    const [wipeText, setWipeText] = useState('')
+    const [wipeError, setWipeError] = useState<string | null>(null)
+
+    // Tick while blocked so the countdown stays current
+    useEffect(() => {
+        if (retryAt <= now) return
+        const t = setTimeout(() => setNow(Date.now()), 1000)
+        return () => clearTimeout(t)
+    }, [retryAt, now])
+
+    const waitSeconds = Math.max(0, Math.ceil((retryAt - now) / 1000))
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault()
+        if (!pin || waitSeconds > 0) return
+        setBusy(true)
+        try {
+            const result = await onUnlock(pin)
+            if (!result.ok) {
+                setPin('')
+                setError('Incorrect PIN')
+                setRetryAt(result.retryAt)
+                setNow(Date.now())
+            }
+        } finally {
+            setBusy(false)
+        }
+    }
+
+    const handleWipe = async () => {
+        setBusy(true)
+        setWipeError(null)
+        // On success the app reloads, so the button stays disabled until then
+        try {
+            await onWipe()
+        } catch (err) {
+            console.warn('Failed to erase data', err)
+            setWipeError(`Couldn't erase the data (${err instanceof Error ? err.message : 'unknown error'}). Please try again.`)
+            setBusy(false)
+        }
+    }
+
+    if (showRecovery) {
+        return (
+            <div className="card">
+                <h3 style={{ margin: '0 0 8px 0' }}>Forgot your PIN?</h3>
+                <p className="muted" style={{ fontSize: '0.9rem' }}>
+                    The PIN can't be recovered. The only way back in is to erase all data on this device — every log entry,
+                    substance and setting. If you have an exported backup you can import it afterwards.
+                </p>
+                <label>
+                    <div className="label">Type {WIPE_CONFIRMATION} to confirm</div>
+                    <input type="text" value={wipeText} onChange={e => setWipeText(e.target.value)} autoComplete="off" />
+                </label>
+                {wipeError && <div style={{ color: '#ff6b6b', fontSize: '0.85rem', marginBottom: 8 }}>{wipeError}</div>}
+                <div className="actions">
+                    <button
+                        type="button"
+                        className="btn primary"
+                        style={{ background: '#ff6b6b' }}
+                        disabled={busy || wipeText !== WIPE_CONFIRMATION}
+                        onClick={handleWipe}
+                    >
+                        {busy ? 'Erasing…' : 'Erase everything'}
+                    </button>
+                    <button type="button" className="btn ghost" onClick={() => setShowRecovery(false)} disabled={busy}>
+                        Back
+                    </button>
+                </div>
+            </div>
+        )
+    }
+
+    return (
+        <form className="card" onSubmit={handleSubmit}>
+            <h3 style={{ margin: '0 0 8px 0' }}>Sub-Track is locked</h3>
+            <label>
+                <div className="label">PIN or passphrase</div>
+                <input
+                    type="password"
+                    inputMode="numeric"
+                    value={pin}
+                    onChange={e => setPin(e.target.value)}
+                    autoComplete="current-password"
+                    autoFocus
+                    disabled={waitSeconds > 0}
+                />
+            </label>
+            {error && <div style={{ color: '#ff6b6b', fontSize: '0.85rem', marginBottom: 8 }}>{error}</div>}
+            {waitSeconds > 0 && (
+                <div className="muted" style={{ fontSize: '0.85rem', marginBottom: 8 }}>
+                    Too many attempts. Try again in {waitSeconds >= 60 ? `${Math.ceil(waitSeconds / 60)} min` : `${waitSeconds} s`}.
+                </div>
+            )}
+            <div className="actions">
+                <button type="submit" className="btn primary" disabled={busy || waitSeconds > 0}>
+                    Unlock
+                </button>
+                <button type="button" className="btn ghost" onClick={() => setShowRecovery(true)} style={{ marginLeft: 'auto' }}>
+                    Forgot PIN?
+                </button>
+            </div>
+        </form>
+    )
+}
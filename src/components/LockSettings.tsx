@@ -0,0 +1,110 @@
+import React, { FormEvent, useState } from 'react'
+import { LOCK_TIMEOUT_OPTIONS, MIN_PIN_LENGTH } from '../appLock'
+
+interface LockSettingsProps {
+    enabled: boolean
+    timeoutMinutes: number
+    onSetPin: (pin: string, timeoutMinutes: number) => Promise<void>
+    // Both resolve false when `current` is wrong
+    onChangePin: (current: string, next: string) => Promise<boolean>
+    onRemovePin: (current: string) => Promise<boolean>
+    onTimeoutChange: (minutes: number) => void
+}
+
+type Mode = 'idle' | 'set' | 'change' | 'remove'
+
+const timeoutLabel = (m: number) => (m === 0 ? 'Immediately' : m < 60 ? `After ${m} min` : `After ${m / 60} h`)
+
+export function LockSettings({ enabled, timeoutMinutes, onSetPin, onChangePin, onRemovePin, onTimeoutChange }: LockSettingsProps) {
+    const [mode, setMode] = useState<Mode>('idle')
+    const [current, setCurrent] = useState('')
+    const [next, setNext] = useState('')
+    const [confirmNext, setConfirmNext] = useState('')
+    const [error, setError] = useState<string | null>(null)
+
+    const open = (m: Mode) => {
+        setCurrent('')
+        setNext('')
+        setConfirmNext('')
+        setError(null)
+        setMode(m)
+    }
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault()
+        if (mode !== 'remove') {
+            if (next.length < MIN_PIN_LENGTH) return setError(`Use at least ${MIN_PIN_LENGTH} characters`)
+            if (next !== confirmNext) return setError('The PINs do not match')
+        }
+        if (mode === 'set') {
+            await onSetPin(next, timeoutMinutes)
+        } else if (mode === 'change') {
+            if (!(await onChangePin(current, next))) return setError('Current PIN is incorrect')
+        } else if (mode === 'remove') {
+            if (!(await onRemovePin(current))) return setError('PIN is incorrect')
+        }
+        setMode('idle')
+    }
+
+    if (mode !== 'idle') {
+        return (
+            <form className="card" onSubmit={handleSubmit} style={{ marginBottom: 12 }}>
+                <h3 style={{ margin: '0 0 8px 0' }}>{mode === 'set' ? 'Set a PIN' : mode === 'change' ? 'Change PIN' : 'Remove PIN'}</h3>
+                {mode !== 'set' && (
+                    <label>
+                        <div className="label">Current PIN</div>
+                        <input type="password" value={current} onChange={e => setCurrent(e.target.value)} autoFocus />
+                    </label>
+                )}
+                {mode !== 'remove' && (
+                    <>
+                        <label>
+                            <div className="label">New PIN or passphrase</div>
+                            <input type="password" inputMode="numeric" value={next} onChange={e => setNext(e.target.value)} autoFocus={mode === 'set'} />
+                        </label>
+                        <label>
+                            <div className="label">Repeat</div>
+                            <input type="password" inputMode="numeric" value={confirmNext} onChange={e => setConfirmNext(e.target.value)} />
+                        </label>
+                    </>
+                )}
+                {error && <div style={{ color: '#ff6b6b', fontSize: '0.85rem', marginBottom: 8 }}>{error}</div>}
+                <div className="actions">
+                    <button type="submit" className="btn primary">{mode === 'remove' ? 'Remove' : 'Save'}</button>
+                    <button type="button" className="btn ghost" onClick={() => setMode('idle')}>Cancel</button>
+                </div>
+            </form>
+        )
+    }
+
+    return (
+        <div className="card" style={{ marginBottom: 12 }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+                <div>
+                    <strong>App lock</strong>
+                    <div className="muted" style={{ fontSize: '0.85rem' }}>
+                        {enabled ? 'On — a PIN is asked for when the app opens.' : 'Off — anyone with this device can open the app.'}
+                    </div>
+                </div>
+                <div style={{ display: 'flex', gap: 8 }}>
+                    {enabled ? (
+                        <>
+                            <button type="button" className="btn ghost" onClick={() => open('change')}>Change PIN</button>
+                            <button type="button" className="btn ghost" onClick={() => open('remove')}>Remove</button>
+                        </>
+                    ) : (
+                        <button type="button" className="btn primary" onClick={() => open('set')}>Set PIN</button>
+                    )}
+                </div>
+            </div>
+            {enabled && (
+                <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginTop: 12 }}>
+                    <div className="label" style={{ margin: 0 }}>Lock when idle or in the background</div>
+                    <select value={timeoutMinutes} onChange={e => onTimeoutChange(Number(e.target.value))}>
+                        {LOCK_TIMEOUT_OPTIONS.map(m => <option key={m} value={m}>{timeoutLabel(m)}</option>)}
+                    </select>
+                </div>
+            )}
+        </div>
+    )
+}
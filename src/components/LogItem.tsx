@@ -1,15 +1,56 @@
 import React, { useState } from 'react'
-import { LogEntry, SUBSTANCE_OPTIONS, FEELING_OPTIONS, DOSAGE_OPTIONS, formatDateTime } from '../constants'
+import { LogEntry, Substance, ContextDimension, FEELING_OPTIONS, formatDateTime, toDateTimeLocal } from '../constants'
+import { formatDose, needsDosageReview } from '../dosage'
+import { DoseInput } from './DoseInput'
+import { ContextPicker } from './ContextPicker'
+import { Highlight } from './Highlight'
+import { WORTH_IT_LABELS } from './FollowUpPanel'
 
 interface LogItemProps {
     log: LogEntry
+    substances: Substance[]
+    dimensions: ContextDimension[]
+    onAddContextOption: (dimensionId: string, option: string) => void
+    // Search terms to mark in the entry's text
+    highlight?: string[]
     onUpdate: (log: LogEntry) => void
     onDelete: (id: string) => void
+    // Earlier versions of the entry, newest first
+    onLoadRevisions: (id: string) => Promise<{ editedAt: string; log: LogEntry }[]>
+    // Shows a checkbox while History is in selection mode
+    selected?: boolean
+    onToggleSelect?: () => void
 }
 
-export function LogItem({ log, onUpdate, onDelete }: LogItemProps) {
+// One line describing a version of an entry
+const describeVersion = (log: LogEntry) =>
+    [
+        log.substance,
+        log.dose ? formatDose(log.dose) : log.dosage,
+        formatDateTime(log.timestamp),
+        log.feelings?.join(', '),
+        log.notes,
+    ].filter(Boolean).join(' · ')
+
+export function LogItem({ log, substances, dimensions, onAddContextOption, highlight, onUpdate, onDelete, onLoadRevisions, selected, onToggleSelect }: LogItemProps) {
     const [isEditing, setIsEditing] = useState(false)
     const [editedLog, setEditedLog] = useState<LogEntry>(log)
+    // Loaded when first shown
+    const [revisions, setRevisions] = useState<{ editedAt: string; log: LogEntry }[] | null>(null)
+    const [showRevisions, setShowRevisions] = useState(false)
+
+    const toggleRevisions = async () => {
+        if (showRevisions) {
+            setShowRevisions(false)
+            return
+        }
+        try {
+            setRevisions(await onLoadRevisions(log.id))
+            setShowRevisions(true)
+        } catch (err) {
+            console.warn('Failed to load revisions', err)
+        }
+    }
 
     const handleStartEdit = () => {
         // Initialize editedLog with current log values
@@ -25,16 +66,18 @@ export function LogItem({ log, onUpdate, onDelete }: LogItemProps) {
     }
 
     const handleSave = () => {
-        onUpdate(editedLog)
+        // Once a structured dose is entered the legacy text has been reviewed
+        onUpdate(editedLog.dose ? { ...editedLog, dosage: undefined } : editedLog)
         setIsEditing(false)
+        setShowRevisions(false)
     }
 
     const handleSubstanceChange = (substance: string) => {
         setEditedLog(prev => ({
             ...prev,
             substance,
-            // Reset dosage if substance changes as options might change
-            dosage: undefined
+            // Reset dose if substance changes as units and presets might change
+            dose: undefined
         }))
     }
 
@@ -48,17 +91,6 @@ export function LogItem({ log, onUpdate, onDelete }: LogItemProps) {
         })
     }
 
-    // Helper to get datetime-local string from ISO
-    const getDateTimeLocal = (iso: string) => {
-        const date = new Date(iso)
-        const year = date.getFullYear()
-        const month = String(date.getMonth() + 1).padStart(2, '0')
-        const day = String(date.getDate()).padStart(2, '0')
-        const hours = String(date.getHours()).padStart(2, '0')
-        const minutes = String(date.getMinutes()).padStart(2, '0')
-        return `${year}-${month}-${day}T${hours}:${minutes}`
-    }
-
     const handleTimeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const val = e.target.value
         if (!val) return
@@ -66,6 +98,11 @@ export function LogItem({ log, onUpdate, onDelete }: LogItemProps) {
         setEditedLog(prev => ({ ...prev, timestamp: date.toISOString() }))
     }
 
+    // Archived substances are hidden from the picker unless this entry uses one
+    const substanceChoices = substances.filter(s => !s.archived || s.name === log.substance)
+    const editedSubstance = substances.find(s => s.name === editedLog.substance)
+    const needsReview = needsDosageReview(log, substances.find(s => s.name === log.substance))
+
     if (isEditing) {
         return (
             <li className="card item" style={{ flexDirection: 'column', gap: 12, alignItems: 'stretch' }}>
@@ -80,14 +117,15 @@ export function LogItem({ log, onUpdate, onDelete }: LogItemProps) {
                 <label>
                     <div className="label">Substance</div>
                     <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
-                        {SUBSTANCE_OPTIONS.map(s => (
+                        {substanceChoices.map(s => (
                             <button
-                                key={s}
+                                key={s.id}
                                 type="button"
-                                onClick={() => handleSubstanceChange(s)}
-                                className={editedLog.substance === s ? 'pill selected substance-pill' : 'pill substance-pill'}
+                                onClick={() => handleSubstanceChange(s.name)}
+                                className={editedLog.substance === s.name ? 'pill selected substance-pill' : 'pill substance-pill'}
+                                style={{ borderColor: editedLog.substance === s.name ? s.color : undefined }}
                             >
-                                {s}
+                                {s.name}
                             </button>
                         ))}
                     </div>
@@ -97,7 +135,7 @@ export function LogItem({ log, onUpdate, onDelete }: LogItemProps) {
                     <div className="label">Time</div>
                     <input
                         type="datetime-local"
-                        value={getDateTimeLocal(editedLog.timestamp)}
+                        value={toDateTimeLocal(editedLog.timestamp)}
                         onChange={handleTimeChange}
                         style={{ padding: '8px', borderRadius: '6px', border: '1px solid #333', background: '#07111a', color: 'var(--text)', width: '100%' }}
                     />
@@ -105,35 +143,16 @@ export function LogItem({ log, onUpdate, onDelete }: LogItemProps) {
 
                 <label>
                     <div className="label">Dosage</div>
-                    {editedLog.substance && DOSAGE_OPTIONS[editedLog.substance] ? (
-                        <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', marginBottom: 8 }}>
-                            {DOSAGE_OPTIONS[editedLog.substance].map(option => (
-                                <button
-                                    key={option.label}
-                                    type="button"
-                                    onClick={() => setEditedLog(prev => ({ ...prev, dosage: option.label }))}
-                                    className={editedLog.dosage === option.label ? 'pill selected' : 'pill'}
-                                    title={option.description}
-                                >
-                                    {option.label}
-                                </button>
-                            ))}
-                            <input
-                                type="text"
-                                value={editedLog.dosage || ''}
-                                onChange={e => setEditedLog(prev => ({ ...prev, dosage: e.target.value }))}
-                                placeholder="Custom dosage"
-                                style={{ flex: 1, minWidth: '120px' }}
-                            />
+                    {editedLog.dosage && !editedLog.dose && (
+                        <div className="muted" style={{ fontSize: '0.85rem', marginBottom: 6 }}>
+                            Originally logged as "{editedLog.dosage}" — enter it as an amount and unit below.
                         </div>
-                    ) : (
-                        <input
-                            type="text"
-                            value={editedLog.dosage || ''}
-                            onChange={e => setEditedLog(prev => ({ ...prev, dosage: e.target.value }))}
-                            placeholder="Dosage (optional)"
-                        />
                     )}
+                    <DoseInput
+                        substance={editedSubstance}
+                        value={editedLog.dose}
+                        onChange={dose => setEditedLog(prev => ({ ...prev, dose }))}
+                    />
                 </label>
 
                 <label>
@@ -162,7 +181,27 @@ export function LogItem({ log, onUpdate, onDelete }: LogItemProps) {
                     </div>
                 </label>
 
+                <label>
+                    <div className="label">Notes</div>
+                    <textarea
+                        value={editedLog.notes || ''}
+                        onChange={e => setEditedLog(prev => ({ ...prev, notes: e.target.value || undefined }))}
+                        rows={3}
+                        placeholder="e.g. couldn't sleep, took it with food"
+                    />
+                </label>
 
+                {dimensions.length > 0 && (
+                    <div>
+                        <div className="label">Context</div>
+                        <ContextPicker
+                            dimensions={dimensions}
+                            value={editedLog.context}
+                            onChange={context => setEditedLog(prev => ({ ...prev, context }))}
+                            onAddOption={onAddContextOption}
+                        />
+                    </div>
+                )}
             </li>
         )
     }
@@ -170,7 +209,12 @@ export function LogItem({ log, onUpdate, onDelete }: LogItemProps) {
     return (
         <li className="card item">
             <div className="item-head">
-                <div className="item-title">{log.substance}</div>
+                <div className="item-title" style={{ color: substances.find(s => s.name === log.substance)?.color }}>
+                    {onToggleSelect && (
+                        <input type="checkbox" className="item-select" checked={!!selected} onChange={onToggleSelect} aria-label="Select entry" />
+                    )}
+                    <Highlight text={log.substance} terms={highlight} />
+                </div>
                 <div
                     className="item-time"
                     onClick={handleStartEdit}
@@ -183,21 +227,70 @@ export function LogItem({ log, onUpdate, onDelete }: LogItemProps) {
             {log.feelings && log.feelings.length > 0 && (
                 <div className="item-feelings" style={{ display: 'flex', gap: 8, flexWrap: 'wrap', marginBottom: 8 }}>
                     {log.feelings.map((f) => (
-                        <span key={f} className="pill history-pill">{f}</span>
+                        <span key={f} className="pill history-pill"><Highlight text={f} terms={highlight} /></span>
                     ))}
                 </div>
             )}
 
-            {log.dosage && (
+            {log.context && (
+                <div className="item-context" style={{ display: 'flex', gap: 6, flexWrap: 'wrap', marginBottom: 8 }}>
+                    {dimensions.flatMap(d => (log.context?.[d.id] || []).map(v => (
+                        <span key={`${d.id}:${v}`} className="pill context-pill" title={d.name}>{v}</span>
+                    )))}
+                </div>
+            )}
+
+            {(log.dose || log.dosage) && (
                 <div className="item-dosage" style={{ color: '#cfe0ff', marginBottom: 6 }}>
                     <strong style={{ color: 'var(--muted)', marginRight: 6 }}>Dose:</strong>
-                    {log.dosage}
+                    <Highlight text={log.dose ? formatDose(log.dose) : log.dosage || ''} terms={highlight} />
+                    {needsReview && (
+                        <span
+                            className="review-badge"
+                            onClick={handleStartEdit}
+                            style={{ marginLeft: 8, cursor: 'pointer' }}
+                            title={log.dose ? `No conversion for "${log.dose.unit}" under ${log.substance}` : 'Could not read this dosage; edit to fix'}
+                        >
+                            needs review
+                        </span>
+                    )}
+                </div>
+            )}
+
+
+
+            {log.followUp?.doneAt && !log.followUp.skipped && (
+                <div className="item-follow-up muted" style={{ fontSize: '0.85rem', marginBottom: 6 }}>
+                    Afterwards: {log.followUp.feelings?.join(', ') || 'no feelings noted'}
+                    {log.followUp.worthIt && ` · worth it: ${WORTH_IT_LABELS[log.followUp.worthIt - 1].toLowerCase()}`}
                 </div>
             )}
 
+            {log.notes && (
+                <div className="item-notes">
+                    <Highlight text={log.notes} terms={highlight} />
+                </div>
+            )}
 
+            {showRevisions && revisions && (
+                <div className="item-revisions">
+                    <div className="label">Earlier versions</div>
+                    {revisions.length === 0 ? (
+                        <div className="muted">This entry hasn't been edited.</div>
+                    ) : (
+                        <ul>
+                            {revisions.map((r, i) => (
+                                <li key={i}>
+                                    <span className="muted">Before the edit on {formatDateTime(r.editedAt)}:</span> {describeVersion(r.log)}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
 
             <div style={{ marginTop: 8, display: 'flex', justifyContent: 'flex-end', gap: 8 }}>
+                <button className="btn ghost" onClick={toggleRevisions} aria-expanded={showRevisions} style={{ fontSize: '0.8rem', padding: '4px 8px' }}>History</button>
                 <button className="btn ghost" onClick={handleStartEdit} style={{ fontSize: '0.8rem', padding: '4px 8px' }}>Edit</button>
                 <button className="btn ghost" onClick={() => onDelete(log.id)} style={{ fontSize: '0.8rem', padding: '4px 8px', color: '#ff6b6b' }}>Delete</button>
             </div>
@@ -0,0 +1,146 @@
+import React, { useState } from 'react'
+import { NotificationState, Reminder, ReminderSettings, LIMIT_WARNING_SHARE, STREAK_MILESTONES } from '../reminders'
+import { formatDateTime } from '../constants'
+
+interface NotificationSettingsProps {
+    settings: ReminderSettings
+    permission: NotificationState
+    // With the app lock on, reminders never name substances
+    lockEnabled: boolean
+    upcoming: Reminder[]
+    onChange: (settings: ReminderSettings) => void
+    onRequestPermission: () => void
+    // Resolves false when the notification couldn't be shown
+    onTest: () => Promise<boolean>
+    onCancel: (id: string) => void
+}
+
+// How many upcoming reminders to list
+const UPCOMING_SHOWN = 5
+
+function Toggle({ checked, disabled, onChange, label, hint }: {
+    checked: boolean
+    disabled?: boolean
+    onChange: (checked: boolean) => void
+    label: string
+    hint?: string
+}) {
+    return (
+        <label style={{ display: 'flex', gap: 8, alignItems: 'flex-start', marginBottom: 8 }}>
+            <input type="checkbox" checked={checked} disabled={disabled} onChange={e => onChange(e.target.checked)} style={{ width: 'auto', marginTop: 3 }} />
+            <span>
+                {label}
+                {hint && <div className="muted" style={{ fontSize: '0.8rem' }}>{hint}</div>}
+            </span>
+        </label>
+    )
+}
+
+export function NotificationSettings({ settings, permission, lockEnabled, upcoming, onChange, onRequestPermission, onTest, onCancel }: NotificationSettingsProps) {
+    const set = (patch: Partial<ReminderSettings>) => onChange({ ...settings, ...patch })
+    const usable = permission === 'granted'
+    const off = !settings.enabled || !usable
+    const [testFailed, setTestFailed] = useState(false)
+
+    const handleTest = async () => {
+        setTestFailed(false)
+        setTestFailed(!(await onTest()))
+    }
+
+    return (
+        <div className="card" style={{ marginBottom: 12 }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 8, flexWrap: 'wrap' }}>
+                <div>
+                    <strong>Reminders</strong>
+                    <div className="muted" style={{ fontSize: '0.85rem' }}>
+                        {permission === 'unsupported'
+                            ? 'This browser can\'t show notifications. Check-ins and goal warnings still show in the app.'
+                            : permission === 'denied'
+                                ? 'Notifications are blocked for this site. Allow them in your browser\'s site settings to get reminders; check-ins and goal warnings still show in the app.'
+                                : 'Notifications on this device, planned and stored here without any server.'}
+                    </div>
+                </div>
+                <div style={{ display: 'flex', gap: 8 }}>
+                    {permission === 'default' && (
+                        <button type="button" className="btn primary" onClick={onRequestPermission}>Allow notifications</button>
+                    )}
+                    {usable && <button type="button" className="btn ghost" onClick={handleTest}>Send a test</button>}
+                </div>
+            </div>
+
+            {testFailed && (
+                <div style={{ color: '#ff6b6b', fontSize: '0.85rem', marginTop: 8 }}>
+                    Couldn't show a notification. The app may still be installing its offline support; reload the page and try again.
+                </div>
+            )}
+
+            {usable && (
+                <div style={{ marginTop: 12 }}>
+                    <Toggle checked={settings.enabled} onChange={enabled => set({ enabled })} label="Send reminders on this device" />
+                    <div style={{ display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap' }}>
+                        <Toggle checked={settings.daily} disabled={!settings.enabled} onChange={daily => set({ daily })} label="Daily check-in at" />
+                        <input
+                            type="time"
+                            value={settings.dailyTime}
+                            disabled={!settings.enabled || !settings.daily}
+                            onChange={e => e.target.value && set({ dailyTime: e.target.value })}
+                            style={{ width: 'auto', marginBottom: 8 }}
+                            aria-label="Daily check-in time"
+                        />
+                    </div>
+                    <Toggle
+                        checked={settings.followUps}
+                        disabled={!settings.enabled}
+                        onChange={followUps => set({ followUps })}
+                        label="When a check-in after use is due"
+                    />
+                    <Toggle
+                        checked={settings.limits}
+                        disabled={!settings.enabled}
+                        onChange={limits => set({ limits })}
+                        label="When close to a weekly limit"
+                        hint={`Once a week, after ${Math.round(LIMIT_WARNING_SHARE * 100)}% of the limit is used`}
+                    />
+                    <Toggle
+                        checked={settings.milestones}
+                        disabled={!settings.enabled}
+                        onChange={milestones => set({ milestones })}
+                        label="Streak milestones"
+                        hint={`${STREAK_MILESTONES.slice(0, -1).join(', ')} and ${STREAK_MILESTONES[STREAK_MILESTONES.length - 1]} days without a substance`}
+                    />
+                    <Toggle
+                        checked={settings.discreet || lockEnabled}
+                        disabled={!settings.enabled || lockEnabled}
+                        onChange={discreet => set({ discreet })}
+                        label="Hide details"
+                        hint={lockEnabled ? 'Always on while the app lock is set' : 'Show "You have a reminder" instead of substances and amounts'}
+                    />
+                </div>
+            )}
+
+            {!off && (
+                <div style={{ marginTop: 4 }}>
+                    <div className="label">Coming up</div>
+                    {upcoming.length === 0 ? (
+                        <div className="muted" style={{ fontSize: '0.85rem' }}>Nothing scheduled.</div>
+                    ) : (
+                        <ul className="reminder-list">
+                            {upcoming.slice(0, UPCOMING_SHOWN).map(r => (
+                                <li key={r.id}>
+                                    <span>
+                                        {r.title}
+                                        <span className="muted" style={{ marginLeft: 8, fontSize: '0.85rem' }}>{formatDateTime(new Date(r.at).toISOString())}</span>
+                                    </span>
+                                    <button type="button" className="btn ghost" onClick={() => onCancel(r.id)}>Cancel</button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    {upcoming.length > UPCOMING_SHOWN && (
+                        <div className="muted" style={{ fontSize: '0.85rem' }}>and {upcoming.length - UPCOMING_SHOWN} more</div>
+                    )}
+                </div>
+            )}
+        </div>
+    )
+}
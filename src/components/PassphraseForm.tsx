@@ -0,0 +1,93 @@
+import React, { FormEvent, useState } from 'react'
+
+export interface PassphraseValues {
+    current: string
+    next: string
+}
+
+interface PassphraseFormProps {
+    title: string
+    description?: string
+    // Ask for the passphrase in use (unlocking, changing, turning off)
+    askCurrent?: boolean
+    // Ask for a new passphrase, typed twice
+    askNew?: boolean
+    submitLabel: string
+    // May throw; the error's message is shown under the form
+    onSubmit: (values: PassphraseValues) => Promise<void>
+    onCancel?: () => void
+}
+
+// Short passphrases are easy to brute-force offline from a stolen file
+export const MIN_PASSPHRASE_LENGTH = 8
+
+export function PassphraseForm({ title, description, askCurrent, askNew, submitLabel, onSubmit, onCancel }: PassphraseFormProps) {
+    const [current, setCurrent] = useState('')
+    const [next, setNext] = useState('')
+    const [confirmNext, setConfirmNext] = useState('')
+    const [error, setError] = useState<string | null>(null)
+    const [busy, setBusy] = useState(false)
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault()
+        if (askCurrent && !current) {
+            setError('Enter your passphrase')
+            return
+        }
+        if (askNew) {
+            if (next.length < MIN_PASSPHRASE_LENGTH) {
+                setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`)
+                return
+            }
+            if (next !== confirmNext) {
+                setError('The passphrases do not match')
+                return
+            }
+        }
+        setError(null)
+        setBusy(true)
+        try {
+            await onSubmit({ current, next })
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Something went wrong')
+        } finally {
+            setBusy(false)
+        }
+    }
+
+    return (
+        <form className="card" onSubmit={handleSubmit} style={{ marginBottom: 12 }}>
+            <h3 style={{ margin: '0 0 8px 0' }}>{title}</h3>
+            {description && <p className="muted" style={{ fontSize: '0.85rem', marginTop: 0 }}>{description}</p>}
+            {askCurrent && (
+                <label>
+                    <div className="label">{askNew ? 'Current passphrase' : 'Passphrase'}</div>
+                    <input type="password" value={current} onChange={e => setCurrent(e.target.value)} autoComplete="current-password" autoFocus />
+                </label>
+            )}
+            {askNew && (
+                <>
+                    <label>
+                        <div className="label">New passphrase</div>
+                        <input type="password" value={next} onChange={e => setNext(e.target.value)} autoComplete="new-password" autoFocus={!askCurrent} />
+                    </label>
+                    <label>
+                        <div className="label">Repeat new passphrase</div>
+                        <input type="password" value={confirmNext} onChange={e => setConfirmNext(e.target.value)} autoComplete="new-password" />
+                    </label>
+                </>
+            )}
+            {error && <div style={{ color: '#ff6b6b', fontSize: '0.85rem', marginBottom: 8 }}>{error}</div>}
+            <div className="actions">
+                <button type="submit" className="btn primary" disabled={busy}>
+                    {busy ? 'Working…' : submitLabel}
+                </button>
+                {onCancel && (
+                    <button type="button" className="btn ghost" onClick={onCancel} disabled={busy}>
+                        Cancel
+                    </button>
+                )}
+            </div>
+        </form>
+    )
+}
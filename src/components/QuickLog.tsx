@@ -0,0 +1,73 @@
+import React, { useState } from 'react'
+import { LogTemplate, Substance } from '../constants'
+import { BACKDATE_OPTIONS, describeBackdate } from '../templates'
+
+export type TemplateSuggestionEntry = { template: LogTemplate; uses: number }
+
+interface QuickLogProps {
+    templates: LogTemplate[]
+    // Frequent combinations not saved yet
+    suggestions: TemplateSuggestionEntry[]
+    substances: Substance[]
+    onLog: (template: LogTemplate, minutesAgo: number) => void
+    onSaveSuggestion: (template: LogTemplate) => void
+    onManage: () => void
+}
+
+// One-tap buttons for saved templates, shown above the New Log form
+export function QuickLog({ templates, suggestions, substances, onLog, onSaveSuggestion, onManage }: QuickLogProps) {
+    const [minutesAgo, setMinutesAgo] = useState(0)
+    if (templates.length === 0 && suggestions.length === 0) return null
+
+    return (
+        <div className="card quick-log">
+            <div className="section-header">
+                <h2 style={{ margin: 0 }}>Quick log</h2>
+                <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+                    <select value={minutesAgo} onChange={e => setMinutesAgo(Number(e.target.value))} aria-label="When">
+                        {BACKDATE_OPTIONS.map(m => <option key={m} value={m}>{describeBackdate(m)}</option>)}
+                    </select>
+                    <button type="button" className="btn ghost" onClick={onManage}>Edit</button>
+                </div>
+            </div>
+
+            {templates.length > 0 && (
+                <div className="quick-log-row">
+                    {templates.map(t => (
+                        <button
+                            key={t.id}
+                            type="button"
+                            className="pill quick-log-pill"
+                            style={{ borderColor: substances.find(s => s.id === t.substanceId)?.color }}
+                            onClick={() => {
+                                onLog(t, minutesAgo)
+                                setMinutesAgo(0)
+                            }}
+                        >
+                            {t.label}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {suggestions.length > 0 && (
+                <>
+                    <div className="label" style={{ marginTop: 12 }}>Suggested from your log</div>
+                    <div className="quick-log-row">
+                        {suggestions.map(({ template, uses }) => (
+                            <button
+                                key={template.id}
+                                type="button"
+                                className="pill quick-log-pill suggested"
+                                title={`Logged ${uses} times. Save as a template.`}
+                                onClick={() => onSaveSuggestion(template)}
+                            >
+                                + {template.label}
+                            </button>
+                        ))}
+                    </div>
+                </>
+            )}
+        </div>
+    )
+}
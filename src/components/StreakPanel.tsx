@@ -0,0 +1,156 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { Break, Substance, getDateKey } from '../constants'
+import type { UseDay } from '../db'
+import { formatElapsed, streakSummary } from '../streaks'
+
+interface StreakPanelProps {
+    substances: Substance[]
+    // The latest use on each day, from the logs table
+    useDays: UseDay[]
+    breaks: Break[]
+    onAddBreak: (substanceId: string, startDate: string) => void
+    onDeleteBreak: (id: string) => void
+}
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`
+
+const formatDay = (key: string) =>
+    new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', year: 'numeric' }).format(new Date(key + 'T00:00'))
+
+function SubstanceStreak({ substance, timestamps, breaks, now, onAddBreak, onDeleteBreak }: {
+    substance: Substance
+    timestamps: string[]
+    breaks: Break[]
+    now: Date
+    onAddBreak: (substanceId: string, startDate: string) => void
+    onDeleteBreak: (id: string) => void
+}) {
+    const [showHistory, setShowHistory] = useState(false)
+    const [breakDate, setBreakDate] = useState<string | null>(null)
+    const summary = useMemo(() => streakSummary(timestamps, breaks.map(b => b.startDate), now), [timestamps, breaks, now])
+    const today = getDateKey(now.toISOString())
+
+    return (
+        <li className="card streak-card">
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', gap: 8, flexWrap: 'wrap' }}>
+                <strong style={{ color: substance.color }}>{substance.name}</strong>
+                <span className="muted" style={{ fontSize: '0.85rem' }}>
+                    {summary.lastUse ? `Last used ${formatElapsed(now.getTime() - new Date(summary.lastUse).getTime())} ago` : 'No use logged'}
+                </span>
+            </div>
+            <div className="streak-stats">
+                <div>
+                    <div className="streak-number">{summary.current}</div>
+                    <div className="muted">{summary.current === 1 ? 'day' : 'days'} current streak</div>
+                </div>
+                <div>
+                    <div className="streak-number">{summary.longest}</div>
+                    <div className="muted">{summary.longest === 1 ? 'day' : 'days'} longest</div>
+                </div>
+            </div>
+
+            <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', alignItems: 'center' }}>
+                {breakDate === null ? (
+                    <button type="button" className="btn ghost" style={{ fontSize: '0.8rem', padding: '4px 8px' }} onClick={() => setBreakDate(today)}>
+                        Start a break
+                    </button>
+                ) : (
+                    <>
+                        <input type="date" value={breakDate} max={today} onChange={e => setBreakDate(e.target.value)} aria-label="Break start date" />
+                        <button
+                            type="button"
+                            className="btn primary"
+                            style={{ fontSize: '0.8rem', padding: '4px 8px' }}
+                            disabled={!breakDate || breakDate > today}
+                            onClick={() => {
+                                onAddBreak(substance.id, breakDate)
+                                setBreakDate(null)
+                            }}
+                        >
+                            Mark break start
+                        </button>
+                        <button type="button" className="btn ghost" style={{ fontSize: '0.8rem', padding: '4px 8px' }} onClick={() => setBreakDate(null)}>
+                            Cancel
+                        </button>
+                    </>
+                )}
+                {(summary.history.length > 0 || breaks.length > 0) && (
+                    <button
+                        type="button"
+                        className="btn ghost"
+                        style={{ fontSize: '0.8rem', padding: '4px 8px', marginLeft: 'auto' }}
+                        onClick={() => setShowHistory(v => !v)}
+                    >
+                        {showHistory ? 'Hide history' : 'History'}
+                    </button>
+                )}
+            </div>
+
+            {showHistory && (
+                <div style={{ marginTop: 10, fontSize: '0.85rem' }}>
+                    {breaks.length > 0 && (
+                        <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap', marginBottom: 8 }}>
+                            {breaks.map(b => (
+                                <span key={b.id} className="pill history-pill">
+                                    Break from {formatDay(b.startDate)}
+                                    <button
+                                        type="button"
+                                        className="btn ghost"
+                                        onClick={() => onDeleteBreak(b.id)}
+                                        style={{ padding: '0 4px', marginLeft: 4, color: '#ff6b6b' }}
+                                        aria-label="Remove break mark"
+                                    >
+                                        ✕
+                                    </button>
+                                </span>
+                            ))}
+                        </div>
+                    )}
+                    <ul className="streak-history">
+                        {summary.history.map(s => (
+                            <li key={s.start}>
+                                <span>{formatDay(s.start)} – {s.end ? formatDay(s.end) : 'now'}</span>
+                                <span className="muted">{plural(s.days, 'day')}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </li>
+    )
+}
+
+// Time since last use and use-free streaks for each substance
+export function StreakPanel({ substances, useDays, breaks, onAddBreak, onDeleteBreak }: StreakPanelProps) {
+    // Re-render every minute so "last used" stays current
+    const [now, setNow] = useState(() => new Date())
+    useEffect(() => {
+        const t = setInterval(() => setNow(new Date()), 60 * 1000)
+        return () => clearInterval(t)
+    }, [])
+
+    const timestampsByName = useMemo(() => {
+        const map: Record<string, string[]> = {}
+        for (const d of useDays) (map[d.substance] = map[d.substance] || []).push(d.last)
+        return map
+    }, [useDays])
+
+    // Only substances with something logged or a break marked
+    const shown = substances.filter(s => timestampsByName[s.name] || breaks.some(b => b.substanceId === s.id))
+
+    return (
+        <ul className="list streak-list">
+            {shown.map(s => (
+                <SubstanceStreak
+                    key={s.id}
+                    substance={s}
+                    timestamps={timestampsByName[s.name] || []}
+                    breaks={breaks.filter(b => b.substanceId === s.id)}
+                    now={now}
+                    onAddBreak={onAddBreak}
+                    onDeleteBreak={onDeleteBreak}
+                />
+            ))}
+        </ul>
+    )
+}
@@ -0,0 +1,310 @@
+import React, { useState } from 'react'
+import { Substance, DosagePreset, UnitConversion, SUBSTANCE_COLOR_PALETTE, UNIT_OPTIONS, ROUTE_OPTIONS } from '../constants'
+import { canonicalUnit } from '../dosage'
+
+interface SubstanceManagerProps {
+    substances: Substance[]
+    onAdd: (substance: Substance) => void
+    onUpdate: (substance: Substance) => void
+    onClose: () => void
+}
+
+// Returns an error message if `name` is empty or already used by another substance
+const validateName = (name: string, substances: Substance[], selfId?: string): string | null => {
+    const trimmed = name.trim()
+    if (!trimmed) return 'Name is required'
+    const clash = substances.find(s => s.id !== selfId && s.name.toLowerCase() === trimmed.toLowerCase())
+    if (clash) return `"${clash.name}" already exists${clash.archived ? ' (archived)' : ''}`
+    return null
+}
+
+// Clean up a draft's units: the normalized unit is always present with
+// factor 1, blank or non-positive rows are dropped, duplicates keep the first.
+const cleanUnits = (normalizedUnit: string, units: UnitConversion[]): UnitConversion[] => {
+    const out: UnitConversion[] = [{ unit: normalizedUnit, factor: 1 }]
+    for (const u of units) {
+        const unit = canonicalUnit(u.unit)
+        const factor = Number(u.factor)
+        if (!unit || !(factor > 0) || out.some(o => o.unit === unit)) continue
+        out.push({ unit, factor })
+    }
+    return out
+}
+
+function SubstanceEditor({ substance, substances, onUpdate }: { substance: Substance; substances: Substance[]; onUpdate: (s: Substance) => void }) {
+    const [isEditing, setIsEditing] = useState(false)
+    const [draft, setDraft] = useState<Substance>(substance)
+    const [error, setError] = useState<string | null>(null)
+
+    const handleStartEdit = () => {
+        setDraft({ ...substance, presets: substance.presets.map(p => ({ ...p })), units: substance.units.map(u => ({ ...u })) })
+        setError(null)
+        setIsEditing(true)
+    }
+
+    const handleSave = () => {
+        const nameError = validateName(draft.name, substances, substance.id)
+        if (nameError) {
+            setError(nameError)
+            return
+        }
+        if (draft.name.trim() !== substance.name && !confirm(`Rename "${substance.name}" to "${draft.name.trim()}"? Existing log entries will be renamed too.`)) return
+        const normalizedUnit = canonicalUnit(draft.normalizedUnit)
+        if (!normalizedUnit) {
+            setError('Normalized unit is required')
+            return
+        }
+        const units = cleanUnits(normalizedUnit, draft.units)
+        const presets: DosagePreset[] = draft.presets
+            .filter(p => p.label.trim())
+            .map(p => ({
+                label: p.label.trim(),
+                description: p.description.trim(),
+                amount: Number(p.amount) || 0,
+                unit: p.unit,
+                ...(p.route ? { route: p.route } : {}),
+            }))
+        const orphan = presets.find(p => !units.some(u => u.unit === p.unit))
+        if (orphan) {
+            setError(`Preset "${orphan.label}" uses "${orphan.unit}", which has no conversion`)
+            return
+        }
+        onUpdate({ ...draft, name: draft.name.trim(), normalizedUnit, units, presets })
+        setIsEditing(false)
+    }
+
+    const updatePreset = (index: number, patch: Partial<DosagePreset>) => {
+        setDraft(prev => ({ ...prev, presets: prev.presets.map((p, i) => (i === index ? { ...p, ...patch } : p)) }))
+    }
+
+    const updateUnit = (index: number, patch: Partial<UnitConversion>) => {
+        setDraft(prev => ({ ...prev, units: prev.units.map((u, i) => (i === index ? { ...u, ...patch } : u)) }))
+    }
+
+    // Units a preset can pick from: the saved-or-draft conversions by name
+    const unitChoices = Array.from(new Set([draft.normalizedUnit, ...draft.units.map(u => u.unit)].filter(Boolean)))
+
+    if (!isEditing) {
+        return (
+            <li className="card item substance-item" style={{ opacity: substance.archived ? 0.6 : 1 }}>
+                <div className="item-head" style={{ marginBottom: 0 }}>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: 10 }}>
+                        <span className="color-swatch" style={{ background: substance.color }} />
+                        <span className="item-title" style={{ color: substance.color }}>{substance.name}</span>
+                        {substance.archived && <span className="muted" style={{ fontSize: '0.8rem' }}>(archived)</span>}
+                    </div>
+                    <div style={{ display: 'flex', gap: 8 }}>
+                        <button type="button" className="btn ghost" onClick={handleStartEdit} style={{ fontSize: '0.8rem', padding: '4px 8px' }}>Edit</button>
+                        <button
+                            type="button"
+                            className="btn ghost"
+                            onClick={() => onUpdate({ ...substance, archived: !substance.archived })}
+                            style={{ fontSize: '0.8rem', padding: '4px 8px' }}
+                        >
+                            {substance.archived ? 'Unarchive' : 'Archive'}
+                        </button>
+                    </div>
+                </div>
+                <div className="muted" style={{ fontSize: '0.85rem', marginTop: 6 }}>
+                    Measured in {substance.normalizedUnit}
+                    {substance.units.length > 1 && ` · ${substance.units.filter(u => u.unit !== substance.normalizedUnit).map(u => `1 ${u.unit} = ${u.factor} ${substance.normalizedUnit}`).join(', ')}`}
+                </div>
+                {substance.presets.length > 0 && (
+                    <div className="muted" style={{ fontSize: '0.85rem', marginTop: 6 }}>
+                        Presets: {substance.presets.map(p => p.label).join(', ')}
+                    </div>
+                )}
+            </li>
+        )
+    }
+
+    return (
+        <li className="card item substance-item" style={{ display: 'flex', flexDirection: 'column', gap: 12, alignItems: 'stretch' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <h3 style={{ margin: 0, fontSize: '1.1rem' }}>Edit Substance</h3>
+                <div style={{ display: 'flex', gap: 8 }}>
+                    <button type="button" className="btn primary" onClick={handleSave} style={{ padding: '6px 12px' }}>Save</button>
+                    <button type="button" className="btn ghost" onClick={() => setIsEditing(false)} style={{ padding: '6px 12px' }}>Cancel</button>
+                </div>
+            </div>
+
+            <div style={{ display: 'flex', gap: 8, alignItems: 'flex-end' }}>
+                <label style={{ flex: 1, marginBottom: 0 }}>
+                    <div className="label">Name</div>
+                    <input type="text" value={draft.name} onChange={e => setDraft(prev => ({ ...prev, name: e.target.value }))} />
+                </label>
+                <label style={{ marginBottom: 0 }}>
+                    <div className="label">Color</div>
+                    <input
+                        type="color"
+                        value={draft.color}
+                        onChange={e => setDraft(prev => ({ ...prev, color: e.target.value }))}
+                        className="color-input"
+                    />
+                </label>
+            </div>
+            {error && <div style={{ color: '#ff6b6b', fontSize: '0.85rem' }}>{error}</div>}
+
+            <div>
+                <div className="label">Units</div>
+                <div style={{ display: 'grid', gap: 8 }}>
+                    <div className="unit-row" style={{ gridTemplateColumns: 'auto 1fr' }}>
+                        <span className="muted">Normalized unit</span>
+                        <input
+                            type="text"
+                            list="unit-options"
+                            value={draft.normalizedUnit}
+                            onChange={e => setDraft(prev => ({ ...prev, normalizedUnit: e.target.value }))}
+                            title="Charts and goals add doses up in this unit"
+                        />
+                    </div>
+                    {draft.units.map((u, i) => u.unit === draft.normalizedUnit ? null : (
+                        <div key={i} className="unit-row">
+                            <span className="muted">1</span>
+                            <input type="text" list="unit-options" value={u.unit} onChange={e => updateUnit(i, { unit: e.target.value })} placeholder="unit" />
+                            <span className="muted">=</span>
+                            <input type="number" min={0} step="any" value={u.factor} onChange={e => updateUnit(i, { factor: parseFloat(e.target.value) })} />
+                            <span className="muted">{draft.normalizedUnit}</span>
+                            <button
+                                type="button"
+                                className="btn ghost"
+                                onClick={() => setDraft(prev => ({ ...prev, units: prev.units.filter((_, j) => j !== i) }))}
+                                style={{ color: '#ff6b6b', padding: '4px 8px' }}
+                                aria-label="Remove unit"
+                            >
+                                ✕
+                            </button>
+                        </div>
+                    ))}
+                </div>
+                <button
+                    type="button"
+                    className="btn ghost"
+                    onClick={() => setDraft(prev => ({ ...prev, units: [...prev.units, { unit: '', factor: 1 }] }))}
+                    style={{ marginTop: 8, fontSize: '0.85rem', padding: '6px 10px' }}
+                >
+                    + Add unit
+                </button>
+            </div>
+
+            <div>
+                <div className="label">Dosage presets</div>
+                <div style={{ display: 'grid', gap: 8 }}>
+                    {draft.presets.map((p, i) => (
+                        <div key={i} className="preset-row">
+                            <input type="text" value={p.label} onChange={e => updatePreset(i, { label: e.target.value })} placeholder="Label (e.g. 10mg)" />
+                            <input type="text" value={p.description} onChange={e => updatePreset(i, { description: e.target.value })} placeholder="Description" />
+                            <input
+                                type="number"
+                                value={p.amount}
+                                min={0}
+                                step="any"
+                                onChange={e => updatePreset(i, { amount: parseFloat(e.target.value) })}
+                                aria-label="Amount"
+                            />
+                            <select value={p.unit} onChange={e => updatePreset(i, { unit: e.target.value })} aria-label="Unit">
+                                {(unitChoices.includes(p.unit) ? unitChoices : [p.unit, ...unitChoices]).map(u => <option key={u} value={u}>{u}</option>)}
+                            </select>
+                            <select value={p.route || ''} onChange={e => updatePreset(i, { route: e.target.value || undefined })} aria-label="Route">
+                                <option value="">route…</option>
+                                {ROUTE_OPTIONS.map(r => <option key={r} value={r}>{r}</option>)}
+                            </select>
+                            <button
+                                type="button"
+                                className="btn ghost"
+                                onClick={() => setDraft(prev => ({ ...prev, presets: prev.presets.filter((_, j) => j !== i) }))}
+                                style={{ color: '#ff6b6b', padding: '4px 8px' }}
+                                aria-label="Remove preset"
+                            >
+                                ✕
+                            </button>
+                        </div>
+                    ))}
+                </div>
+                <button
+                    type="button"
+                    className="btn ghost"
+                    onClick={() => setDraft(prev => ({ ...prev, presets: [...prev.presets, { label: '', description: '', amount: 1, unit: prev.normalizedUnit }] }))}
+                    style={{ marginTop: 8, fontSize: '0.85rem', padding: '6px 10px' }}
+                >
+                    + Add preset
+                </button>
+            </div>
+        </li>
+    )
+}
+
+export function SubstanceManager({ substances, onAdd, onUpdate, onClose }: SubstanceManagerProps) {
+    const [name, setName] = useState('')
+    const [color, setColor] = useState(SUBSTANCE_COLOR_PALETTE[substances.length % SUBSTANCE_COLOR_PALETTE.length])
+    const [unit, setUnit] = useState('mg')
+    const [error, setError] = useState<string | null>(null)
+
+    const handleAdd = () => {
+        const nameError = validateName(name, substances)
+        if (nameError) {
+            setError(nameError)
+            return
+        }
+        const normalizedUnit = canonicalUnit(unit) || 'unit'
+        onAdd({
+            id: crypto.randomUUID(),
+            name: name.trim(),
+            color,
+            archived: false,
+            sortOrder: substances.reduce((max, s) => Math.max(max, s.sortOrder), -1) + 1,
+            presets: [],
+            normalizedUnit,
+            units: [{ unit: normalizedUnit, factor: 1 }],
+        })
+        setName('')
+        setColor(SUBSTANCE_COLOR_PALETTE[(substances.length + 1) % SUBSTANCE_COLOR_PALETTE.length])
+        setError(null)
+    }
+
+    return (
+        <section>
+            <div className="section-header">
+                <h2>Substances</h2>
+                <button type="button" className="btn ghost" onClick={onClose}>Done</button>
+            </div>
+
+            <div className="card" style={{ marginBottom: 12 }}>
+                <div style={{ display: 'flex', gap: 8, alignItems: 'flex-end' }}>
+                    <label style={{ flex: 1, marginBottom: 0 }}>
+                        <div className="label">New substance</div>
+                        <input
+                            type="text"
+                            value={name}
+                            onChange={e => setName(e.target.value)}
+                            onKeyDown={e => {
+                                if (e.key === 'Enter') {
+                                    e.preventDefault()
+                                    handleAdd()
+                                }
+                            }}
+                            placeholder="e.g. Caffeine"
+                        />
+                    </label>
+                    <label style={{ width: 100, marginBottom: 0 }}>
+                        <div className="label">Measured in</div>
+                        <input type="text" list="unit-options" value={unit} onChange={e => setUnit(e.target.value)} />
+                    </label>
+                    <input type="color" value={color} onChange={e => setColor(e.target.value)} className="color-input" aria-label="Color" />
+                    <button type="button" className="btn primary" onClick={handleAdd}>Add</button>
+                </div>
+                {error && <div style={{ color: '#ff6b6b', fontSize: '0.85rem', marginTop: 8 }}>{error}</div>}
+            </div>
+
+            <datalist id="unit-options">
+                {UNIT_OPTIONS.map(u => <option key={u} value={u} />)}
+            </datalist>
+
+            <ul className="list" style={{ marginBottom: 20 }}>
+                {substances.map(s => (
+                    <SubstanceEditor key={s.id} substance={s} substances={substances} onUpdate={onUpdate} />
+                ))}
+            </ul>
+        </section>
+    )
+}
@@ -0,0 +1,167 @@
+import React, { useState } from 'react'
+import { LogTemplate, Substance, FEELING_OPTIONS } from '../constants'
+import { moveTemplate, newTemplate, templateLabel } from '../templates'
+import { DoseInput } from './DoseInput'
+
+interface TemplateManagerProps {
+    templates: LogTemplate[]
+    substances: Substance[]
+    onAdd: (template: LogTemplate) => void
+    onUpdate: (template: LogTemplate) => void
+    onDelete: (id: string) => void
+    onReorder: (templates: LogTemplate[]) => void
+    onClose: () => void
+}
+
+function TemplateForm({ initial, substances, submitLabel, onSubmit, onCancel }: {
+    initial: LogTemplate
+    substances: Substance[]
+    submitLabel: string
+    onSubmit: (template: LogTemplate) => void
+    onCancel?: () => void
+}) {
+    const [draft, setDraft] = useState<LogTemplate>(initial)
+    const [error, setError] = useState<string | null>(null)
+    const substance = substances.find(s => s.id === draft.substanceId)
+    const feelings = draft.feelings ?? []
+    const suggestedLabel = templateLabel(substance, draft.dose, draft.feelings)
+
+    const toggleFeeling = (f: string) => {
+        const next = feelings.includes(f) ? feelings.filter(x => x !== f) : [...feelings, f]
+        setDraft({ ...draft, feelings: next.length ? next : undefined })
+    }
+
+    const handleSubmit = () => {
+        if (!substance) return setError('Choose a substance')
+        setError(null)
+        onSubmit({ ...draft, label: draft.label.trim() || suggestedLabel })
+    }
+
+    return (
+        <div>
+            <div className="goal-fields">
+                <select
+                    value={draft.substanceId}
+                    onChange={e => setDraft({ ...draft, substanceId: e.target.value, dose: undefined })}
+                    aria-label="Substance"
+                >
+                    {!substance && <option value="">Substance…</option>}
+                    {substances.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                </select>
+                <input
+                    type="text"
+                    value={draft.label}
+                    onChange={e => setDraft({ ...draft, label: e.target.value })}
+                    placeholder={suggestedLabel}
+                    aria-label="Label"
+                />
+            </div>
+            <div style={{ marginTop: 8 }}>
+                <DoseInput substance={substance} value={draft.dose} onChange={dose => setDraft({ ...draft, dose })} />
+            </div>
+            <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap', marginTop: 8 }}>
+                {FEELING_OPTIONS.map(f => (
+                    <button
+                        key={f}
+                        type="button"
+                        className={feelings.includes(f) ? 'pill selected context-pill' : 'pill context-pill'}
+                        aria-pressed={feelings.includes(f)}
+                        onClick={() => toggleFeeling(f)}
+                    >
+                        {f}
+                    </button>
+                ))}
+            </div>
+            {error && <div style={{ color: '#ff6b6b', fontSize: '0.85rem', marginTop: 8 }}>{error}</div>}
+            <div className="actions" style={{ marginTop: 8 }}>
+                <button type="button" className="btn primary" onClick={handleSubmit}>{submitLabel}</button>
+                {onCancel && <button type="button" className="btn ghost" onClick={onCancel}>Cancel</button>}
+            </div>
+        </div>
+    )
+}
+
+export function TemplateManager({ templates, substances, onAdd, onUpdate, onDelete, onReorder, onClose }: TemplateManagerProps) {
+    const [editingId, setEditingId] = useState<string | null>(null)
+    // Bumped after each add so the form starts over with a fresh template
+    const [formKey, setFormKey] = useState(0)
+    const active = substances.filter(s => !s.archived)
+
+    return (
+        <section>
+            <div className="section-header">
+                <h2>Templates</h2>
+                <button type="button" className="btn ghost" onClick={onClose}>Done</button>
+            </div>
+
+            <div className="card" style={{ marginBottom: 12 }}>
+                <div className="label">New template</div>
+                <TemplateForm
+                    key={formKey}
+                    initial={newTemplate(active[0]?.id ?? '', templates.length)}
+                    substances={active}
+                    submitLabel="Add template"
+                    onSubmit={template => {
+                        onAdd(template)
+                        setFormKey(k => k + 1)
+                    }}
+                />
+            </div>
+
+            <ul className="list" style={{ marginBottom: 20 }}>
+                {templates.map((template, i) => (
+                    <li key={template.id} className="card">
+                        {editingId === template.id ? (
+                            <TemplateForm
+                                initial={template}
+                                substances={substances.filter(s => !s.archived || s.id === template.substanceId)}
+                                submitLabel="Save"
+                                onSubmit={t => {
+                                    onUpdate(t)
+                                    setEditingId(null)
+                                }}
+                                onCancel={() => setEditingId(null)}
+                            />
+                        ) : (
+                            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 8 }}>
+                                <span>{template.label}</span>
+                                <div style={{ display: 'flex', gap: 8 }}>
+                                    <button
+                                        type="button"
+                                        className="btn ghost"
+                                        disabled={i === 0}
+                                        onClick={() => onReorder(moveTemplate(templates, i, -1))}
+                                        aria-label="Move up"
+                                    >
+                                        ↑
+                                    </button>
+                                    <button
+                                        type="button"
+                                        className="btn ghost"
+                                        disabled={i === templates.length - 1}
+                                        onClick={() => onReorder(moveTemplate(templates, i, 1))}
+                                        aria-label="Move down"
+                                    >
+                                        ↓
+                                    </button>
+                                    <button type="button" className="btn ghost" onClick={() => setEditingId(template.id)}>Edit</button>
+                                    <button
+                                        type="button"
+                                        className="btn ghost"
+                                        style={{ color: '#ff6b6b' }}
+                                        onClick={() => {
+                                            if (confirm(`Delete the template "${template.label}"?`)) onDelete(template.id)
+                                        }}
+                                    >
+                                        Delete
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                    </li>
+                ))}
+                {templates.length === 0 && <li className="muted">No templates yet. Save one here or from the New Log form.</li>}
+            </ul>
+        </section>
+    )
+}
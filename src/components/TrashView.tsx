@@ -0,0 +1,81 @@
+import React from 'react'
+import { LogEntry, Craving, Substance, TRASH_RETENTION_DAYS, formatDateTime } from '../constants'
+import { formatDose } from '../dosage'
+import { OUTCOME_LABELS } from './CravingForm'
+
+export type TrashEntry = ({ kind: 'use'; entry: LogEntry } | { kind: 'craving'; entry: Craving }) & { deletedAt: string }
+
+interface TrashViewProps {
+    items: TrashEntry[]
+    substances: Substance[]
+    onRestore: (item: TrashEntry) => void
+    onPurge: (item: TrashEntry) => void
+    onEmpty: () => void
+    onClose: () => void
+}
+
+const summary = (item: TrashEntry) => {
+    if (item.kind === 'craving') return `Craving · ${OUTCOME_LABELS[item.entry.outcome]} · intensity ${item.entry.intensity}/10`
+    const dose = item.entry.dose ? formatDose(item.entry.dose) : item.entry.dosage
+    return dose ? `Dose ${dose}` : 'No dose'
+}
+
+export function TrashView({ items, substances, onRestore, onPurge, onEmpty, onClose }: TrashViewProps) {
+    return (
+        <div className="card" style={{ marginBottom: 12 }}>
+            <div className="section-header">
+                <h2 style={{ margin: 0 }}>Trash</h2>
+                <div style={{ display: 'flex', gap: 8 }}>
+                    {items.length > 0 && (
+                        <button
+                            type="button"
+                            className="btn ghost"
+                            style={{ color: '#ff6b6b' }}
+                            onClick={() => {
+                                if (confirm(`Delete ${items.length === 1 ? 'this entry' : `all ${items.length} entries`} in the trash for good? This cannot be undone.`)) onEmpty()
+                            }}
+                        >
+                            Empty trash
+                        </button>
+                    )}
+                    <button type="button" className="btn ghost" onClick={onClose}>Done</button>
+                </div>
+            </div>
+
+            <div className="muted" style={{ fontSize: '0.85rem', marginBottom: 12 }}>
+                Deleted entries stay here for {TRASH_RETENTION_DAYS} days, then are removed for good.
+            </div>
+
+            {items.length === 0 ? (
+                <div className="muted">The trash is empty.</div>
+            ) : (
+                <ul className="list">
+                    {items.map(item => (
+                        <li key={`${item.kind}:${item.entry.id}`} className="trash-item">
+                            <div style={{ flex: 1, minWidth: 0 }}>
+                                <div>
+                                    <strong style={{ color: substances.find(s => s.name === item.entry.substance)?.color }}>{item.entry.substance}</strong>
+                                    <span className="muted" style={{ marginLeft: 8, fontSize: '0.85rem' }}>{formatDateTime(item.entry.timestamp)}</span>
+                                </div>
+                                <div className="muted" style={{ fontSize: '0.85rem' }}>
+                                    {summary(item)} · deleted {formatDateTime(item.deletedAt)}
+                                </div>
+                            </div>
+                            <button type="button" className="btn ghost" onClick={() => onRestore(item)} style={{ fontSize: '0.8rem', padding: '4px 8px' }}>Restore</button>
+                            <button
+                                type="button"
+                                className="btn ghost"
+                                onClick={() => {
+                                    if (confirm('Delete this entry for good? This cannot be undone.')) onPurge(item)
+                                }}
+                                style={{ fontSize: '0.8rem', padding: '4px 8px', color: '#ff6b6b' }}
+                            >
+                                Delete forever
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,26 @@
+import React, { useEffect } from 'react'
+
+interface UndoToastProps {
+    message: string
+    onUndo: () => void
+    onDismiss: () => void
+}
+
+// How long the toast stays before the change is final
+const UNDO_TIMEOUT_MS = 8000
+
+// Give the toast a new `key` for each change so the timeout starts over
+export function UndoToast({ message, onUndo, onDismiss }: UndoToastProps) {
+    useEffect(() => {
+        const timer = window.setTimeout(onDismiss, UNDO_TIMEOUT_MS)
+        return () => window.clearTimeout(timer)
+    }, [])
+
+    return (
+        <div className="undo-toast" role="status">
+            <span>{message}</span>
+            <button type="button" className="btn ghost" onClick={onUndo} style={{ padding: '2px 8px' }}>Undo</button>
+            <button type="button" className="btn ghost" onClick={onDismiss} style={{ padding: '2px 8px' }} aria-label="Dismiss">✕</button>
+        </div>
+    )
+}
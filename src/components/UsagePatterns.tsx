@@ -0,0 +1,109 @@
+import React, { useMemo } from 'react'
+import type { HourOfWeekCount } from '../db'
+import { FALLBACK_SUBSTANCE_COLOR } from '../constants'
+import { DAY_NAMES, buildPatterns, describePeak, formatHour, peakWindows } from '../patterns'
+
+interface UsagePatternsProps {
+    counts: HourOfWeekCount[]
+    colors: Record<string, string>
+    // Shade the grid in this color; the accent color when showing all substances
+    color?: string
+}
+
+const CELL = 18
+const GAP = 2
+const LEFT = 34
+const TOP = 14
+
+// Entries per hour of the week, Monday at the top
+function HourOfWeekGrid({ grid, color }: { grid: number[][]; color: string }) {
+    const max = Math.max(1, ...grid.flat())
+    const width = LEFT + 24 * (CELL + GAP)
+    const height = TOP + 7 * (CELL + GAP)
+    return (
+        <div className="heatmap">
+            <svg viewBox={`0 0 ${width} ${height}`} style={{ width: '100%', minWidth: 480, height: 'auto' }}>
+                {[0, 6, 12, 18].map(h => (
+                    <text key={h} x={LEFT + h * (CELL + GAP)} y={TOP - 4} fontSize={10} fill="var(--muted)">{formatHour(h)}</text>
+                ))}
+                {grid.map((hours, d) => (
+                    <g key={d}>
+                        <text x={0} y={TOP + d * (CELL + GAP) + CELL - 5} fontSize={10} fill="var(--muted)">{DAY_NAMES[d].slice(0, 3)}</text>
+                        {hours.map((n, h) => (
+                            <rect
+                                key={h}
+                                x={LEFT + h * (CELL + GAP)}
+                                y={TOP + d * (CELL + GAP)}
+                                width={CELL}
+                                height={CELL}
+                                rx={2}
+                                fill={n ? color : 'rgba(255,255,255,0.05)'}
+                                fillOpacity={n ? 0.15 + 0.85 * (n / max) : 1}
+                            >
+                                <title>{`${DAY_NAMES[d]} ${formatHour(h)}–${formatHour(h + 1)}: ${n} ${n === 1 ? 'entry' : 'entries'}`}</title>
+                            </rect>
+                        ))}
+                    </g>
+                ))}
+            </svg>
+        </div>
+    )
+}
+
+// A row of small bars, one per hour or weekday
+function Distribution({ values, labels, color }: { values: number[]; labels: string[]; color: string }) {
+    const max = Math.max(1, ...values)
+    return (
+        <div className="distribution">
+            {values.map((v, i) => (
+                <div key={i} className="distribution-bar" title={`${labels[i]}: ${v} ${v === 1 ? 'entry' : 'entries'}`}>
+                    <div style={{ height: `${(v / max) * 100}%`, background: color }} />
+                </div>
+            ))}
+        </div>
+    )
+}
+
+const HOUR_LABELS = Array.from({ length: 24 }, (_, h) => `${formatHour(h)}–${formatHour(h + 1)}`)
+
+export function UsagePatterns({ counts, colors, color }: UsagePatternsProps) {
+    const patterns = useMemo(() => buildPatterns(counts), [counts])
+    const peaks = useMemo(() => peakWindows(counts), [counts])
+    const substanceNames = Object.keys(patterns.byHour).sort((a, b) => patterns.byHour[b].reduce((x, y) => x + y, 0) - patterns.byHour[a].reduce((x, y) => x + y, 0))
+
+    if (patterns.total === 0) return <div className="muted">Nothing logged in this range.</div>
+
+    return (
+        <div>
+            {peaks.length > 0 ? (
+                <ul className="peak-list">
+                    {peaks.map(p => (
+                        <li key={p.substance}>
+                            <span style={{ color: colors[p.substance] || FALLBACK_SUBSTANCE_COLOR }}>●</span> {describePeak(p)}
+                        </li>
+                    ))}
+                </ul>
+            ) : (
+                <div className="muted" style={{ fontSize: '0.85rem', marginBottom: 8 }}>No time stands out yet. Peaks show once a few entries fall in the same hours.</div>
+            )}
+
+            <HourOfWeekGrid grid={patterns.grid} color={color || 'var(--accent)'} />
+
+            {substanceNames.map(name => (
+                <div key={name} className="distribution-group">
+                    <div className="label" style={{ margin: '10px 0 4px' }}>{name}</div>
+                    <div className="distribution-pair">
+                        <div>
+                            <Distribution values={patterns.byHour[name]} labels={HOUR_LABELS} color={colors[name] || FALLBACK_SUBSTANCE_COLOR} />
+                            <div className="distribution-axis"><span>12 am</span><span>12 pm</span><span>11 pm</span></div>
+                        </div>
+                        <div>
+                            <Distribution values={patterns.byWeekday[name]} labels={DAY_NAMES} color={colors[name] || FALLBACK_SUBSTANCE_COLOR} />
+                            <div className="distribution-axis"><span>Mon</span><span>Sun</span></div>
+                        </div>
+                    </div>
+                </div>
+            ))}
+        </div>
+    )
+}
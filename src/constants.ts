@@ -1,53 +1,139 @@
+export interface Dose {
+    amount: number
+    unit: string
+    route?: string
+}
+
 export interface LogEntry {
     id: string
     substance: string
     feelings?: string[]
+    dose?: Dose
+    // Legacy free-text dosage that could not be parsed into `dose` during
+    // migration; kept so the user can review and fix it.
     dosage?: string
+    // Chosen values per context dimension id
+    context?: Record<string, string[]>
+    notes?: string
     timestamp: string // ISO string for storage
+    followUp?: FollowUp
+}
+
+// A check-in some hours after an entry: how the user felt by then and
+// whether it was worth it. `doneAt` is set once answered or skipped.
+export interface FollowUp {
+    dueAt: string
+    doneAt?: string
+    skipped?: boolean
+    feelings?: string[]
+    worthIt?: number // 1 (not at all) to 5 (very much)
 }
 
-export const SUBSTANCE_OPTIONS = [
-    'Marijuana',
-    'Alcohol',
-    'Nicotine',
-]
+// Hours after logging that a check-in can be scheduled for
+export const FOLLOW_UP_HOURS = [1, 2, 4, 8]
 
-export const FEELING_OPTIONS = ['bored', 'tired', 'stressed', 'energized', 'angry', 'happy', 'anxious', 'in-pain', 'neutral', 'lonely', 'relaxed', 'sad']
+// A user-configurable aspect of an entry's context (setting, company, ...).
+// Single-choice dimensions hold at most one value per entry.
+export interface ContextDimension {
+    id: string
+    name: string
+    multiple: boolean
+    options: string[]
+    sortOrder: number
+}
+
+export type CravingOutcome = 'resisted' | 'used' | 'delayed'
+
+export const CRAVING_OUTCOMES: CravingOutcome[] = ['resisted', 'delayed', 'used']
+
+// An urge that was felt, whether or not it was acted on. Kept apart from
+// LogEntry so every log row stays an instance of use.
+export interface Craving {
+    id: string
+    substance: string
+    intensity: number // 1-10
+    feelings?: string[]
+    trigger?: string
+    outcome: CravingOutcome
+    timestamp: string
+}
+
+export interface DosagePreset {
+    label: string
+    description: string
+    amount: number
+    unit: string
+    route?: string
+}
 
-export const DOSAGE_OPTIONS: Record<string, { label: string; description: string; weight: number }[]> = {
-    Marijuana: [
-        { label: '1mg', description: 'Micro (edible)', weight: 1 },
-        { label: '2.5mg', description: 'Micro (edible)', weight: 2.5 },
-        { label: '5mg', description: 'Light (edible)', weight: 5 },
-        { label: '7.5mg', description: 'Standard (edible)', weight: 7.5 },
-        { label: '10mg', description: 'Standard (edible)', weight: 10 },
-        { label: '20mg', description: 'Strong (edible)', weight: 20 },
-        { label: '1 hit', description: 'Single hit (concentrate)', weight: 8 },
-        { label: '2 hits', description: '2 hits (concentrate)', weight: 16 },
-        { label: '3 hits', description: '3 hits (concentrate)', weight: 24 },
-    ],
-    Alcohol: [
-        { label: '1 drink', description: 'Single standard drink', weight: 1 },
-        { label: '2 drinks', description: 'Two standard drinks', weight: 2 },
-        { label: '3 drinks', description: 'Three standard drinks', weight: 3 },
-        { label: '4 drinks', description: 'Four standard drinks', weight: 4 },
-
-    ],
-    Nicotine: [
-        { label: '2mg', description: 'oral Nicotine', weight: 2 },
-        { label: '3mg', description: 'oral Nicotine', weight: 3 },
-        { label: '4mg', description: 'oral Nicotine', weight: 4 },
-        { label: '6mg', description: 'oral Nicotine', weight: 6 },
-        { label: '1 cigarette', description: 'Single cigarette', weight: 2 },
-    ],
-}
-
-export const defaultSubstanceColors: Record<string, string> = {
-    Marijuana: '#8bd99b',
-    Alcohol: '#ff8b8b',
-    Nicotine: '#bdbdf6',
+// 1 `unit` equals `factor` of the substance's normalized unit
+export interface UnitConversion {
+    unit: string
+    factor: number
 }
 
+// Substances are user-defined and stored in the `substances` table; the
+// built-in Marijuana/Alcohol/Nicotine are seeded there by migration 2.
+export interface Substance {
+    id: string
+    name: string
+    color: string
+    archived: boolean
+    sortOrder: number
+    presets: DosagePreset[]
+    normalizedUnit: string
+    units: UnitConversion[]
+}
+
+export type GoalPeriod = 'day' | 'week'
+
+// A cap on how much of a substance is used per day or per week, measured in
+// the substance's normalized unit. A limit of 0 means not using it at all.
+export interface Goal {
+    id: string
+    substanceId: string
+    period: GoalPeriod
+    limit: number
+    // Days (0 = Sunday) a daily goal applies on; weekly goals use all seven
+    weekdays: number[]
+}
+
+// A saved combination for logging with one tap. The label is shown on the
+// button and defaults to a summary of the other fields.
+export interface LogTemplate {
+    id: string
+    label: string
+    substanceId: string
+    dose?: Dose
+    feelings?: string[]
+    context?: Record<string, string[]>
+    sortOrder: number
+}
+
+// The user's own mark that a break from a substance began on `startDate`
+// (yyyy-mm-dd, local). Use logged that same day counts as before the break.
+export interface Break {
+    id: string
+    substanceId: string
+    startDate: string
+}
+
+export const UNIT_OPTIONS = ['mg', 'g', 'ml', 'drink', 'hit', 'puff', 'cigarette', 'pill', 'cup']
+
+export const ROUTE_OPTIONS = ['oral', 'smoked', 'vaped', 'sublingual']
+
+export const FEELING_OPTIONS = ['bored', 'tired', 'stressed', 'energized', 'angry', 'happy', 'anxious', 'in-pain', 'neutral', 'lonely', 'relaxed', 'sad']
+
+// Used for charts when a substance has no color (e.g. it was deleted from the
+// substances table of an imported file).
+export const FALLBACK_SUBSTANCE_COLOR = '#9fb6ff'
+
+// Offered when creating a new substance; cycles by how many exist already.
+export const SUBSTANCE_COLOR_PALETTE = ['#8bd99b', '#ff8b8b', '#bdbdf6', '#ffd27f', '#7fd6ff', '#f59fd8', '#c8e07f', '#ffb07f']
+
+// Deleted entries can be restored from the trash for this long
+export const TRASH_RETENTION_DAYS = 30
+
 export const formatDateTime = (iso: string): string => {
     const date = new Date(iso)
     return new Intl.DateTimeFormat('en-US', {
@@ -58,3 +144,20 @@ export const formatDateTime = (iso: string): string => {
         hour12: true,
     }).format(date)
 }
+
+// Local calendar day of an ISO timestamp as yyyy-mm-dd
+export const getDateKey = (iso: string): string => {
+    const d = new Date(iso)
+    const y = d.getFullYear()
+    const m = String(d.getMonth() + 1).padStart(2, '0')
+    const day = String(d.getDate()).padStart(2, '0')
+    return `${y}-${m}-${day}`
+}
+
+// Value for a datetime-local input (local time, minute precision)
+export const toDateTimeLocal = (iso: string): string => {
+    const date = new Date(iso)
+    const hours = String(date.getHours()).padStart(2, '0')
+    const minutes = String(date.getMinutes()).padStart(2, '0')
+    return `${getDateKey(iso)}T${hours}:${minutes}`
+}
@@ -0,0 +1,33 @@
+// Coordination between tabs open on the same stored data. Each tab's
+// database worker takes an exclusive Web Lock while it changes storage, so
+// only one writes at a time, and announces each change on a BroadcastChannel
+// so the others know to catch up.
+
+const LOCK_NAME = 'subtrack-db'
+const CHANNEL_NAME = 'subtrack-db'
+
+type Announcement = { seq: number }
+
+// Orders work within this tab where Web Locks aren't available
+let localQueue: Promise<unknown> = Promise.resolve()
+
+// Run `fn` while holding the write lock. Not reentrant: never call it from
+// inside `fn`.
+export async function withWriteLock<T>(fn: () => Promise<T>): Promise<T> {
+  if (typeof navigator !== 'undefined' && navigator.locks) return await navigator.locks.request(LOCK_NAME, fn)
+  const run = localQueue.then(fn, fn)
+  localQueue = run.catch(() => {})
+  return run
+}
+
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null
+
+// Tell other tabs the stored data has moved on to journal position `seq`
+export function announce(seq: number) {
+  const message: Announcement = { seq }
+  channel?.postMessage(message)
+}
+
+export function onAnnounce(listener: (seq: number) => void) {
+  channel?.addEventListener('message', (e: MessageEvent<Announcement>) => listener(e.data.seq))
+}
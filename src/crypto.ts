@@ -0,0 +1,107 @@
+// Passphrase encryption for the stored database and exported backups.
+//
+// Envelope layout (all integers big-endian):
+//   magic "SUBTRKE1" (8) | iterations u32 (4) | salt (16) | iv (12) | AES-GCM ciphertext
+// The key is derived with PBKDF2-SHA256 from the passphrase and salt. A plain
+// SQLite file starts with "SQLite format 3", so the two never collide.
+
+const MAGIC = new TextEncoder().encode('SUBTRKE1')
+const SALT_BYTES = 16
+const IV_BYTES = 12
+const HEADER_BYTES = MAGIC.length + 4 + SALT_BYTES + IV_BYTES
+export const PBKDF2_ITERATIONS = 600000
+
+// A derived key plus the parameters needed to write envelopes with it
+export type PassphraseKey = { key: CryptoKey; salt: Uint8Array; iterations: number }
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('Wrong passphrase, or the data is damaged.')
+    this.name = 'WrongPassphraseError'
+  }
+}
+
+// Thrown when the stored DB (or an imported file) is encrypted and no
+// passphrase has been given yet
+export class PassphraseRequiredError extends Error {
+  constructor() {
+    super('A passphrase is required to open this data.')
+    this.name = 'PassphraseRequiredError'
+  }
+}
+
+export function isEncrypted(bytes: Uint8Array): boolean {
+  if (bytes.byteLength < HEADER_BYTES) return false
+  return MAGIC.every((b, i) => bytes[i] === b)
+}
+
+export async function deriveKey(passphrase: string, salt?: Uint8Array, iterations = PBKDF2_ITERATIONS): Promise<PassphraseKey> {
+  const s = salt ?? crypto.getRandomValues(new Uint8Array(SALT_BYTES))
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey'])
+  const key = await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: s as BufferSource, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+  return { key, salt: s, iterations }
+}
+
+export async function encrypt(plain: Uint8Array, k: PassphraseKey): Promise<Uint8Array> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  const cipher = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, k.key, plain as BufferSource))
+  const out = new Uint8Array(HEADER_BYTES + cipher.byteLength)
+  out.set(MAGIC, 0)
+  new DataView(out.buffer).setUint32(MAGIC.length, k.iterations)
+  out.set(k.salt, MAGIC.length + 4)
+  out.set(iv, MAGIC.length + 4 + SALT_BYTES)
+  out.set(cipher, HEADER_BYTES)
+  return out
+}
+
+// Read the salt and iteration count an envelope was written with
+export function envelopeParams(bytes: Uint8Array): { salt: Uint8Array; iterations: number } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  return {
+    iterations: view.getUint32(MAGIC.length),
+    salt: bytes.slice(MAGIC.length + 4, MAGIC.length + 4 + SALT_BYTES),
+  }
+}
+
+// Decrypt with an already derived key. Throws WrongPassphraseError when the
+// key doesn't match (AES-GCM authentication fails).
+export async function decryptWithKey(bytes: Uint8Array, k: PassphraseKey): Promise<Uint8Array> {
+  const iv = bytes.slice(MAGIC.length + 4 + SALT_BYTES, HEADER_BYTES)
+  try {
+    return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, k.key, bytes.subarray(HEADER_BYTES) as BufferSource))
+  } catch {
+    throw new WrongPassphraseError()
+  }
+}
+
+// Derive the key from the envelope's own parameters and decrypt. Returns the
+// key too so callers can keep writing with it.
+export async function decrypt(bytes: Uint8Array, passphrase: string): Promise<{ plain: Uint8Array; key: PassphraseKey }> {
+  const { salt, iterations } = envelopeParams(bytes)
+  const key = await deriveKey(passphrase, salt, iterations)
+  return { plain: await decryptWithKey(bytes, key), key }
+}
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')
+const fromHex = (hex: string) => new Uint8Array((hex.match(/../g) || []).map((h) => parseInt(h, 16)))
+
+// Slow one-way hash of a short secret (e.g. an app-lock PIN), hex encoded
+export async function hashSecret(secret: string, saltHex: string, iterations: number): Promise<string> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), 'PBKDF2', false, ['deriveBits'])
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromHex(saltHex) as BufferSource, iterations },
+    material,
+    256
+  )
+  return toHex(new Uint8Array(bits))
+}
+
+export function randomSaltHex(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(SALT_BYTES)))
+}
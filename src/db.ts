@@ -1,183 +1,210 @@
-import initSqlJs from 'sql.js'
-import localforage from 'localforage'
-
-// Key used in IndexedDB (via localforage) to store the SQLite file
-const DB_KEY = 'subtrack_sqlite_v1'
-let SQL: any = null
-let db: any = null
-let initialized = false
-
-// Minimal log row mapping used by the app. We keep this loose (any) to avoid
-// tight coupling with App.tsx types in this small patch.
-export type Row = {
-  id: string
-  substance: string
-  feelings: string | null // JSON stringified array or null
-  dosage: string | null
-  timestamp: string
-}
-
-async function locateWasm(): Promise<string> {
-  // Prefer local copy in /sql-wasm.wasm (user can place it in public/).
-  // Fall back to CDN if not available.
-  const localUrl = '/sql-wasm.wasm'
-  try {
-    // quick fetch to see if exists (fast-fail)
-    const res = await fetch(localUrl, { method: 'HEAD' })
-    if (res.ok) {
-      const ct = (res.headers.get('content-type') || '').toLowerCase()
-      const cl = res.headers.get('content-length')
-      // Ensure the server actually returns a wasm file (avoid HTML index fallbacks or service-worker responses)
-      if (ct.includes('application/wasm')) {
-        console.debug('db: found local wasm with correct MIME')
-        return localUrl
+// The app's database API. The SQLite engine (dbEngine.ts) runs in a Web
+// Worker so queries, exports and snapshot writes never block the UI; every
+// function here sends a request to it and resolves with the answer.
+import { DbMethod, DbArgs, DbResult, DbMessage, DbRequest, reviveError, ownBuffer } from './dbProtocol'
+import type { ImportPreview } from './dbEngine'
+
+export type {
+  Row,
+  SubstanceRow,
+  ContextDimensionRow,
+  CravingRow,
+  GoalRow,
+  BreakRow,
+  UseDay,
+  DayTotal,
+  ContextCount,
+  TemplateRow,
+  TemplateSuggestion,
+  ImportConflict,
+  ImportPreview,
+  ConflictResolution,
+  HistoryFilter,
+  HistoryCursor,
+  HistoryItem,
+  HistoryPage,
+  TrashItem,
+  LogRevision,
+  TrendFilter,
+  TrendBucket,
+  TimeSeries,
+  HourOfWeekCount,
+  FeelingCount,
+  FeelingDose,
+  FollowUpSummary,
+} from './dbEngine'
+export { SchemaVersionError, SCHEMA_VERSION } from './migrations'
+export { WrongPassphraseError, PassphraseRequiredError } from './crypto'
+
+let worker: Worker | null = null
+let nextId = 1
+const pending = new Map<number, { resolve: (value: any) => void; reject: (err: Error) => void }>()
+let persistError: Error | null = null
+const persistListeners = new Set<(err: unknown) => void>()
+const changeListeners = new Set<() => void>()
+const dataListeners = new Set<() => void>()
+
+function getWorker(): Worker {
+  if (worker) return worker
+  worker = new Worker(new URL('./db.worker.ts', import.meta.url), { type: 'module' })
+  worker.onmessage = (e: MessageEvent<DbMessage>) => {
+    const msg = e.data
+    if (msg.kind === 'event') {
+      if (msg.event === 'externalChange') {
+        changeListeners.forEach((l) => l())
+        return
       }
-      // some servers may not set content-type; fall back if content-length looks reasonable
-      if (cl && parseInt(cl, 10) > 100) {
-        console.debug('db: found local wasm-like resource (content-length check)')
-        return localUrl
+      if (msg.event === 'dataChange') {
+        dataListeners.forEach((l) => l())
+        return
       }
-      console.debug('db: local wasm present but wrong MIME or too small, falling back to CDN; content-type=', ct, 'content-length=', cl)
-    }
-  } catch (e) {
-    // ignore and fall back
-  }
-  // CDN fallback
-  return 'https://sql.js.org/dist/sql-wasm.wasm'
-}
-
-async function ensureInit() {
-  if (initialized) return
-  const wasmUrl = await locateWasm()
-  SQL = await initSqlJs({ locateFile: () => wasmUrl })
-
-  // Try to load DB from storage
-  const saved = await localforage.getItem<any>(DB_KEY)
-  if (saved) {
-    // localforage may return ArrayBuffer, Uint8Array or Blob depending on platform
-    let buffer: ArrayBuffer
-    if (saved instanceof Blob) {
-      buffer = await saved.arrayBuffer()
-    } else if (saved instanceof Uint8Array) {
-      buffer = (saved as Uint8Array).buffer as ArrayBuffer
-    } else if (saved instanceof ArrayBuffer) {
-      buffer = saved
-    } else {
-      // try to coerce
-      buffer = new Uint8Array(saved).buffer
+      persistError = msg.error ? reviveError(msg.error) : null
+      persistListeners.forEach((l) => l(persistError))
+      return
     }
-    const arr = new Uint8Array(buffer)
-    console.debug('db: loading saved DB, bytes=', arr.byteLength)
-    db = new SQL.Database(arr)
-  } else {
-    console.debug('db: no saved DB found; creating new in-memory DB')
-    db = new SQL.Database()
+    const call = pending.get(msg.id)
+    if (!call) return
+    pending.delete(msg.id)
+    if (msg.ok) call.resolve(msg.result)
+    else call.reject(reviveError(msg.error))
   }
-
-  // Ensure table exists
-  db.run(
-    `CREATE TABLE IF NOT EXISTS logs (
-      id TEXT PRIMARY KEY,
-      substance TEXT NOT NULL,
-      feelings TEXT,
-      dosage TEXT,
-      timestamp TEXT NOT NULL
-    );`
-  )
-
-  initialized = true
-}
-
-async function persist() {
-  if (!db) return
-  try {
-    const data: Uint8Array = db.export()
-    // store ArrayBuffer for smaller IndexedDB footprint
-    await localforage.setItem(DB_KEY, data.buffer)
-    console.debug('db: persisted, bytes=', data.byteLength)
-  } catch (err) {
-    console.error('db: persist failed', err)
+  // The worker failed to load or crashed; nothing in flight will be answered
+  worker.onerror = (e) => {
+    console.error('db: worker error', e.message)
+    const err = new Error(e.message || 'The database worker stopped unexpectedly.')
+    pending.forEach((call) => call.reject(err))
+    pending.clear()
   }
+  listenForPageHide()
+  return worker
 }
 
-export async function getAllLogs(): Promise<Row[]> {
-  await ensureInit()
-  const res = db.exec('SELECT id, substance, feelings, dosage, timestamp FROM logs ORDER BY timestamp DESC')
-  if (!res || res.length === 0) return []
-  console.debug('db: getAllLogs rows=', res[0].values.length)
-  const values = res[0].values as any[]
-  const cols = res[0].columns as string[]
-  return values.map((row) => {
-    const obj: any = {}
-    for (let i = 0; i < cols.length; i++) obj[cols[i]] = row[i]
-    return obj as Row
+function call<M extends DbMethod>(method: M, args: DbArgs<M>, transfer: Transferable[] = []): Promise<DbResult<M>> {
+  const w = getWorker()
+  const id = nextId++
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject })
+    const request: DbRequest = { id, method, args }
+    w.postMessage(request, transfer)
   })
 }
 
-export async function addLog(row: Row) {
-  await ensureInit()
-  const stmt = db.prepare('INSERT INTO logs (id, substance, feelings, dosage, timestamp) VALUES (?, ?, ?, ?, ?)')
-  try {
-    stmt.run([row.id, row.substance, row.feelings ?? null, row.dosage ?? null, row.timestamp])
-  } finally {
-    stmt.free()
-  }
-  await persist()
-  console.debug('db: addLog id=', row.id)
-}
+const method =
+  <M extends DbMethod>(name: M) =>
+  (...args: DbArgs<M>) =>
+    call(name, args)
 
-export async function updateLog(row: Row) {
-  await ensureInit()
-  const stmt = db.prepare('UPDATE logs SET substance = ?, feelings = ?, dosage = ?, timestamp = ? WHERE id = ?')
-  try {
-    stmt.run([row.substance, row.feelings ?? null, row.dosage ?? null, row.timestamp, row.id])
-  } finally {
-    stmt.free()
-  }
-  await persist()
-  console.debug('db: updateLog id=', row.id)
+// Save a pending snapshot when the page is hidden, as it may not come back
+function listenForPageHide() {
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') void flush().catch(() => {})
+  })
+  window.addEventListener('pagehide', () => void flush().catch(() => {}))
 }
 
-export async function deleteLog(id: string) {
-  await ensureInit()
-  const stmt = db.prepare('DELETE FROM logs WHERE id = ?')
-  try {
-    stmt.run([id])
-  } finally {
-    stmt.free()
-  }
-  await persist()
-  console.debug('db: deleteLog id=', id)
+// Tell `listener` when saving fails (with the error) and when it works again
+// (with null). Returns a function that stops listening.
+export function onPersistError(listener: (err: unknown) => void): () => void {
+  persistListeners.add(listener)
+  if (persistError) listener(persistError)
+  return () => persistListeners.delete(listener)
 }
 
-export async function clearAll() {
-  await ensureInit()
-  db.run('DELETE FROM logs')
-  await persist()
+// Tell `listener` when another open tab has changed the data, so it can be
+// read again. Returns a function that stops listening.
+export function onExternalChange(listener: () => void): () => void {
+  changeListeners.add(listener)
+  return () => changeListeners.delete(listener)
 }
 
-export async function exportRaw(): Promise<Uint8Array> {
-  await ensureInit()
-  return db.export()
+// Tell `listener` after this tab has changed the data, so what's on screen
+// can be read again. Returns a function that stops listening.
+export function onDataChange(listener: () => void): () => void {
+  dataListeners.add(listener)
+  return () => dataListeners.delete(listener)
 }
 
-export async function importRaw(buffer: ArrayBuffer | Uint8Array) {
-  // Replace current DB with provided buffer
-  const arr = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer)
-  db = new SQL.Database(arr)
-  // ensure schema (in case import comes from older/newer source)
-  db.run(
-    `CREATE TABLE IF NOT EXISTS logs (
-      id TEXT PRIMARY KEY,
-      substance TEXT NOT NULL,
-      feelings TEXT,
-      dosage TEXT,
-      timestamp TEXT NOT NULL
-    );`
-  )
-  await persist()
+export const init = method('init')
+export const flush = method('flush')
+export const isEncryptionEnabled = method('isEncryptionEnabled')
+export const unlock = method('unlock')
+export const checkPassphrase = method('checkPassphrase')
+export const setPassphrase = method('setPassphrase')
+export const getAllLogs = method('getAllLogs')
+export const countDosageReview = method('countDosageReview')
+export const addLog = method('addLog')
+export const updateLog = method('updateLog')
+export const deleteLog = method('deleteLog')
+export const restoreLog = method('restoreLog')
+export const purgeLog = method('purgeLog')
+export const setFollowUp = method('setFollowUp')
+export const openFollowUps = method('openFollowUps')
+export const getLogRevisions = method('getLogRevisions')
+export const clearAll = method('clearAll')
+export const restoreCleared = method('restoreCleared')
+export const getTrash = method('getTrash')
+export const emptyTrash = method('emptyTrash')
+export const queryHistory = method('queryHistory')
+export const historyKeys = method('historyKeys')
+export const countHistory = method('countHistory')
+export const getEntries = method('getEntries')
+export const substancesOf = method('substancesOf')
+export const getAllCravings = method('getAllCravings')
+export const addCraving = method('addCraving')
+export const updateCraving = method('updateCraving')
+export const deleteCraving = method('deleteCraving')
+export const restoreCraving = method('restoreCraving')
+export const purgeCraving = method('purgeCraving')
+export const updateEntries = method('updateEntries')
+export const deleteEntries = method('deleteEntries')
+export const getSubstances = method('getSubstances')
+export const addSubstance = method('addSubstance')
+export const updateSubstance = method('updateSubstance')
+export const getContextDimensions = method('getContextDimensions')
+export const addContextDimension = method('addContextDimension')
+export const updateContextDimension = method('updateContextDimension')
+export const deleteContextDimension = method('deleteContextDimension')
+export const getGoals = method('getGoals')
+export const addGoal = method('addGoal')
+export const updateGoal = method('updateGoal')
+export const deleteGoal = method('deleteGoal')
+export const getTemplates = method('getTemplates')
+export const addTemplate = method('addTemplate')
+export const updateTemplate = method('updateTemplate')
+export const deleteTemplate = method('deleteTemplate')
+export const reorderTemplates = method('reorderTemplates')
+export const suggestTemplates = method('suggestTemplates')
+export const getBreaks = method('getBreaks')
+export const lastUseByDay = method('lastUseByDay')
+export const addBreak = method('addBreak')
+export const deleteBreak = method('deleteBreak')
+export const firstLogTimestamp = method('firstLogTimestamp')
+export const usageOverTime = method('usageOverTime')
+export const dailyTotals = method('dailyTotals')
+export const cravingsOverTime = method('cravingsOverTime')
+export const countBySubstance = method('countBySubstance')
+export const countFeelings = method('countFeelings')
+export const countByHourOfWeek = method('countByHourOfWeek')
+export const countFeelingsBySubstance = method('countFeelingsBySubstance')
+export const feelingDoses = method('feelingDoses')
+export const countByContext = method('countByContext')
+export const resistRates = method('resistRates')
+export const followUpSummary = method('followUpSummary')
+export const exportRaw = method('exportRaw')
+export const stageRows = method('stageRows')
+export const mergeStaged = method('mergeStaged')
+export const replaceWithStaged = method('replaceWithStaged')
+export const discardStaged = method('discardStaged')
+export const wipeAllData = method('wipeAllData')
+
+// File contents are transferred to the worker rather than copied, so
+// `buffer` can't be read again afterwards
+export function stageImport(buffer: ArrayBuffer | Uint8Array, passphrase?: string): Promise<ImportPreview> {
+  const owned = ownBuffer(buffer)
+  return call('stageImport', [owned, passphrase], [owned])
 }
 
-export async function init() {
-  await ensureInit()
+export function importRaw(buffer: ArrayBuffer | Uint8Array, passphrase?: string): Promise<void> {
+  const owned = ownBuffer(buffer)
+  return call('importRaw', [owned, passphrase], [owned])
 }
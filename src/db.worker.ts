@@ -0,0 +1,40 @@
+// Runs the SQLite engine off the main thread. See dbProtocol.ts for the
+// message format; db.ts is the other end.
+import * as engine from './dbEngine'
+import { DbRequest, DbMessage, serializeError, ownBuffer } from './dbProtocol'
+
+// The parts of the worker global we use (the DOM lib types `self` as Window)
+const scope = self as unknown as {
+  postMessage: (message: DbMessage, transfer?: Transferable[]) => void
+  onmessage: ((e: MessageEvent<DbRequest>) => void) | null
+}
+
+engine.onPersistError((err) => {
+  scope.postMessage({ kind: 'event', event: 'persistError', error: err ? serializeError(err) : null })
+})
+
+engine.onExternalChange(() => {
+  scope.postMessage({ kind: 'event', event: 'externalChange' })
+})
+
+engine.onDataChange(() => {
+  scope.postMessage({ kind: 'event', event: 'dataChange' })
+})
+
+scope.onmessage = async (e) => {
+  const { id, method, args } = e.data
+  try {
+    const fn = engine[method] as (...args: unknown[]) => unknown
+    let result = await fn(...args)
+    const transfer: Transferable[] = []
+    // Hand exported files back without copying them
+    if (result instanceof Uint8Array) {
+      const buffer = ownBuffer(result)
+      result = new Uint8Array(buffer)
+      transfer.push(buffer)
+    }
+    scope.postMessage({ kind: 'response', id, ok: true, result }, transfer)
+  } catch (err) {
+    scope.postMessage({ kind: 'response', id, ok: false, error: serializeError(err) })
+  }
+}
@@ -0,0 +1,1747 @@
+// The SQLite database itself. This module runs inside the database worker
+// (db.worker.ts); the app calls it through the client in db.ts.
+import initSqlJs from 'sql.js'
+import localforage from 'localforage'
+import { migrate, getUserVersion } from './migrations'
+import { Statement, JournalEntry, appendEntry, readEntries, pruneEntries, clearJournal, readHead, markHead } from './journal'
+import { withWriteLock, announce, onAnnounce } from './crossTab'
+import { toMatchQuery } from './search'
+import { getDateKey, TRASH_RETENTION_DAYS } from './constants'
+import { PassphraseKey, PassphraseRequiredError, WrongPassphraseError, isEncrypted, deriveKey, encrypt, decrypt, decryptWithKey } from './crypto'
+
+export { SchemaVersionError, SCHEMA_VERSION } from './migrations'
+export { WrongPassphraseError, PassphraseRequiredError } from './crypto'
+
+// Key used in IndexedDB (via localforage) to store the SQLite file
+const DB_KEY = 'subtrack_sqlite_v1'
+let SQL: any = null
+let db: any = null
+let initialized = false
+// Key for the encrypted store; only ever held in memory
+let passKey: PassphraseKey | null = null
+// Journal sequence number of the latest change applied in memory
+let journalSeq = 0
+// Another tab has changed the stored data since we last caught up
+let stale = false
+const changeListeners = new Set<() => void>()
+// Told after every change made in this tab
+const dataListeners = new Set<() => void>()
+// Statements of the change being applied, while inside mutate()
+let collecting: Statement[] | null = null
+let snapshotTimer: ReturnType<typeof setTimeout> | undefined
+let snapshotPending = false
+let persistError: unknown = null
+const persistListeners = new Set<(err: unknown) => void>()
+
+// Wait this long after the last change before writing a snapshot
+const SNAPSHOT_DELAY_MS = 2000
+
+// An imported file waiting for the user to choose merge or replace
+let staged: { db: any; plan: MergePlan } | null = null
+
+// Minimal log row mapping used by the app. We keep this loose (any) to avoid
+// tight coupling with App.tsx types in this small patch.
+export type Row = {
+  id: string
+  substance: string
+  feelings: string | null // JSON stringified array or null
+  dosage: string | null // legacy free text awaiting review
+  dose_amount: number | null
+  dose_unit: string | null
+  dose_route: string | null
+  context: string | null // JSON object of dimension id -> values, or null
+  notes: string | null
+  timestamp: string
+  follow_up: string | null // JSON FollowUp, see constants.ts, or null
+}
+
+export type SubstanceRow = {
+  id: string
+  name: string
+  color: string
+  archived: number // 0 | 1
+  sort_order: number
+  presets: string // JSON stringified DosagePreset[]
+  normalized_unit: string
+  units: string // JSON stringified UnitConversion[] (from substance_units)
+}
+
+export type ContextDimensionRow = {
+  id: string
+  name: string
+  multiple: number // 0 | 1
+  options: string // JSON stringified string[]
+  sort_order: number
+}
+
+export type CravingRow = {
+  id: string
+  substance: string
+  intensity: number
+  feelings: string | null // JSON stringified array or null
+  trigger_text: string | null
+  outcome: string // 'resisted' | 'used' | 'delayed'
+  timestamp: string
+}
+
+export type GoalRow = {
+  id: string
+  substance_id: string
+  period: string // 'day' | 'week'
+  max_amount: number
+  weekdays: string // JSON stringified number[]
+  sort_order: number
+}
+
+export type BreakRow = {
+  id: string
+  substance_id: string
+  start_date: string // yyyy-mm-dd
+}
+
+export type TemplateRow = {
+  id: string
+  label: string
+  substance_id: string
+  dose_amount: number | null
+  dose_unit: string | null
+  dose_route: string | null
+  feelings: string | null // JSON stringified array or null
+  context: string | null // JSON stringified Record<dimensionId, string[]> or null
+  sort_order: number
+}
+
+// A combination logged often enough to offer as a template
+export type TemplateSuggestion = Omit<TemplateRow, 'id' | 'label' | 'context' | 'sort_order'> & { uses: number }
+
+export type ImportConflict = { id: string; local: Row; incoming: Row }
+
+// What a merge of a staged file would do, shown to the user before commit
+export type ImportPreview = {
+  newCount: number
+  identicalCount: number
+  conflicts: ImportConflict[]
+  newSubstances: string[]
+  // Cravings not on this device yet; ones it already has are kept as they are
+  newCravingCount: number
+}
+
+// Which side wins for a conflicting id
+export type ConflictResolution = 'local' | 'incoming'
+
+// Narrows the History list; unset fields match everything
+export type HistoryFilter = {
+  substances?: string[] // substance names
+  from?: string // ISO timestamp, inclusive
+  to?: string // ISO timestamp, exclusive
+  feelings?: string[] // entries with any of these
+  hasDosage?: boolean // only use entries with a dose (leaves out cravings)
+  usesOnly?: boolean // leaves out cravings
+  terms?: string[] // full-text search words from searchTerms()
+}
+
+// Where a History page ended; the next page starts strictly after it
+export type HistoryCursor = { timestamp: string; id: string }
+
+export type HistoryItem = { kind: 'use'; row: Row } | { kind: 'craving'; row: CravingRow }
+
+export type HistoryPage = { items: HistoryItem[]; next: HistoryCursor | null }
+
+export type TrashItem = HistoryItem & { deleted_at: string }
+
+// A log as it was before one edit
+export type LogRevision = { edited_at: string; row: Row }
+
+type MergePlan = {
+  newRows: Row[]
+  identicalCount: number
+  conflicts: ImportConflict[]
+  newSubstances: SubstanceRow[]
+  newDimensions: ContextDimensionRow[]
+  // Local dimensions that gain options from the imported file
+  extendedDimensions: ContextDimensionRow[]
+  newCravings: CravingRow[]
+  newTemplates: TemplateRow[]
+}
+
+const LOG_COLUMNS = 'id, substance, feelings, dosage, dose_amount, dose_unit, dose_route, context, notes, timestamp, follow_up'
+
+const CRAVING_COLUMNS = 'id, substance, intensity, feelings, trigger_text, outcome, timestamp'
+
+const TEMPLATE_COLUMNS = 'id, label, substance_id, dose_amount, dose_unit, dose_route, feelings, context, sort_order'
+
+const SUBSTANCE_SELECT = `SELECT id, name, color, archived, sort_order, presets, normalized_unit,
+  (SELECT json_group_array(json_object('unit', unit, 'factor', factor))
+     FROM substance_units WHERE substance_id = substances.id) AS units
+  FROM substances ORDER BY sort_order, name`
+
+async function locateWasm(): Promise<string> {
+  // Prefer local copy in /sql-wasm.wasm (user can place it in public/).
+  // Fall back to CDN if not available.
+  const localUrl = '/sql-wasm.wasm'
+  try {
+    // quick fetch to see if exists (fast-fail)
+    const res = await fetch(localUrl, { method: 'HEAD' })
+    if (res.ok) {
+      const ct = (res.headers.get('content-type') || '').toLowerCase()
+      const cl = res.headers.get('content-length')
+      // Ensure the server actually returns a wasm file (avoid HTML index fallbacks or service-worker responses)
+      if (ct.includes('application/wasm')) {
+        console.debug('db: found local wasm with correct MIME')
+        return localUrl
+      }
+      // some servers may not set content-type; fall back if content-length looks reasonable
+      if (cl && parseInt(cl, 10) > 100) {
+        console.debug('db: found local wasm-like resource (content-length check)')
+        return localUrl
+      }
+      console.debug('db: local wasm present but wrong MIME or too small, falling back to CDN; content-type=', ct, 'content-length=', cl)
+    }
+  } catch (e) {
+    // ignore and fall back
+  }
+  // CDN fallback
+  return 'https://sql.js.org/dist/sql-wasm.wasm'
+}
+
+// Read the saved DB bytes (plain or encrypted), or null if nothing is stored
+async function loadSaved(): Promise<Uint8Array | null> {
+  const saved = await localforage.getItem<any>(DB_KEY)
+  if (!saved) return null
+  // localforage may return ArrayBuffer, Uint8Array or Blob depending on platform
+  let buffer: ArrayBuffer
+  if (saved instanceof Blob) {
+    buffer = await saved.arrayBuffer()
+  } else if (saved instanceof Uint8Array) {
+    buffer = (saved as Uint8Array).buffer as ArrayBuffer
+  } else if (saved instanceof ArrayBuffer) {
+    buffer = saved
+  } else {
+    // try to coerce
+    buffer = new Uint8Array(saved).buffer
+  }
+  return new Uint8Array(buffer)
+}
+
+// Open the DB on first use, and catch up with other tabs' changes
+async function ensureInit() {
+  if (initialized && !stale) return
+  await withWriteLock(async () => {
+    if (!initialized) await load()
+    else await catchUp()
+  })
+}
+
+// (Re)open the DB from storage: the saved snapshot plus the journal entries
+// after it. Call with the write lock held.
+async function load() {
+  if (db) db.close()
+  db = null
+  initialized = false
+  stale = false
+  if (!SQL) {
+    const wasmUrl = await locateWasm()
+    SQL = await initSqlJs({ locateFile: () => wasmUrl })
+  }
+
+  // Try to load DB from storage
+  let arr = await loadSaved()
+  if (arr && isEncrypted(arr)) {
+    if (!passKey) throw new PassphraseRequiredError()
+    try {
+      arr = await decryptWithKey(arr, passKey)
+    } catch (err) {
+      if (!(err instanceof WrongPassphraseError)) throw err
+      // The passphrase was changed in another tab
+      passKey = null
+      throw new PassphraseRequiredError()
+    }
+  } else {
+    // Nothing stored, or encryption was turned off in another tab
+    passKey = null
+  }
+  const head = await readHead()
+  let replayed = 0
+  journalSeq = 0
+  if (arr) {
+    console.debug('db: loading saved DB, bytes=', arr.byteLength)
+    db = new SQL.Database(arr)
+    if (hasTable('snapshot_state')) replayed = await replayJournal()
+  } else {
+    console.debug('db: no saved DB found; creating new in-memory DB')
+    db = new SQL.Database()
+    // Entries without a snapshot to apply them to can't be used
+    await clearJournal()
+  }
+  // Never fall behind a position other tabs have already seen
+  journalSeq = Math.max(journalSeq, head)
+
+  // Bring the schema up to date (no-op when already current)
+  const version = getUserVersion(db)
+  migrate(db)
+
+  initialized = true
+  // Save straight away so new journal entries always follow a snapshot of
+  // the same schema
+  if (replayed || getUserVersion(db) !== version) await saveSnapshot()
+}
+
+// Apply what other tabs have saved since our last change: their journal
+// entries if all are still there, otherwise everything from storage. Call
+// with the write lock held.
+async function catchUp() {
+  stale = false
+  const head = await readHead()
+  // Ahead only when our own journal writes failed; the snapshot saves those
+  if (head <= journalSeq) return
+  let entries: JournalEntry[] | null = null
+  try {
+    entries = await readEntries(journalSeq, passKey)
+  } catch (err) {
+    console.debug('db: journal unreadable, reloading', err)
+  }
+  const complete =
+    !!entries?.length && entries.every((e, i) => e.seq === journalSeq + 1 + i) && entries[entries.length - 1].seq >= head
+  if (entries && complete) {
+    applyEntries(entries)
+    console.debug('db: caught up with other tabs, entries=', entries.length)
+    return
+  }
+  // Folded into a snapshot already, or the data was replaced or wiped
+  console.debug('db: reloading after changes in another tab')
+  await load()
+}
+
+// Let `listener` know when another tab has changed the data, so the UI can
+// read it again. Returns a function that stops listening.
+export function onExternalChange(listener: () => void): () => void {
+  changeListeners.add(listener)
+  return () => changeListeners.delete(listener)
+}
+
+// Let `listener` know after this tab has changed the data, so the UI can
+// read what it shows again. Returns a function that stops listening.
+export function onDataChange(listener: () => void): () => void {
+  dataListeners.add(listener)
+  return () => dataListeners.delete(listener)
+}
+
+onAnnounce((seq) => {
+  if (!initialized || seq <= journalSeq || stale) return
+  stale = true
+  changeListeners.forEach((l) => l())
+})
+
+// Changes are applied in memory, written to the journal (journal.ts) straight
+// away and folded into a full snapshot of the DB once writes settle or the
+// page is hidden (db.ts calls flush() then). Exporting the whole DB is
+// O(size), so it no longer happens on every write.
+
+// Tell `listener` when saving fails (with the error) and when it works again
+// (with null). Returns a function that stops listening.
+export function onPersistError(listener: (err: unknown) => void): () => void {
+  persistListeners.add(listener)
+  if (persistError) listener(persistError)
+  return () => persistListeners.delete(listener)
+}
+
+function reportPersist(err: unknown) {
+  if (!err && !persistError) return
+  persistError = err
+  persistListeners.forEach((l) => l(err))
+}
+
+// Run a write, recording it for the journal when inside mutate()
+function write(sql: string, params: Statement['params'] = []) {
+  db.run(sql, params)
+  collecting?.push({ sql, params })
+}
+
+// Apply one change in a transaction and journal its statements, on top of
+// whatever other tabs have saved. A failed journal write is reported but not
+// thrown: the change is in memory and the next snapshot still saves it.
+async function mutate(fn: () => void) {
+  await withWriteLock(async () => {
+    await catchUp()
+    const statements: Statement[] = []
+    collecting = statements
+    try {
+      transaction(fn)
+    } finally {
+      collecting = null
+    }
+    if (!statements.length) return
+    dataListeners.forEach((l) => l())
+    const seq = ++journalSeq
+    try {
+      await appendEntry({ seq, statements }, passKey)
+      announce(seq)
+    } catch (err) {
+      console.error('db: journal write failed', err)
+      reportPersist(err)
+    }
+    scheduleSnapshot()
+  })
+}
+
+function scheduleSnapshot() {
+  snapshotPending = true
+  clearTimeout(snapshotTimer)
+  snapshotTimer = setTimeout(() => void snapshot(), SNAPSHOT_DELAY_MS)
+}
+
+// Catch up with other tabs, then save. A tab that has fallen behind never
+// writes its older copy over theirs.
+function snapshot(): Promise<void> {
+  return withWriteLock(async () => {
+    if (!initialized) return
+    await catchUp()
+    await saveSnapshot()
+  })
+}
+
+// Write the whole DB to storage, then drop the journal entries it includes.
+// Call with the write lock held.
+async function saveSnapshot() {
+  clearTimeout(snapshotTimer)
+  snapshotPending = false
+  if (!db) return
+  const seq = journalSeq
+  try {
+    db.run('UPDATE snapshot_state SET journal_seq = ?', [seq])
+    const data: Uint8Array = db.export()
+    const out = passKey ? await encrypt(data, passKey) : data
+    // store ArrayBuffer for smaller IndexedDB footprint
+    await localforage.setItem(DB_KEY, out.buffer)
+    console.debug('db: persisted, bytes=', out.byteLength, passKey ? '(encrypted)' : '', 'journal seq=', seq)
+    reportPersist(null)
+  } catch (err) {
+    console.error('db: persist failed', err)
+    reportPersist(err)
+    return
+  }
+  try {
+    await markHead(seq)
+    await pruneEntries(seq)
+  } catch (err) {
+    // Left-over entries are skipped on replay, so this is only untidy
+    console.warn('db: journal prune failed', err)
+  }
+}
+
+// Save a change too large to journal (a merge, a replaced DB, a new
+// passphrase) as a new position, so other tabs reload it. Call with the
+// write lock held.
+async function saveAsNewPosition() {
+  journalSeq = Math.max(journalSeq, await readHead()) + 1
+  await saveSnapshot()
+  announce(journalSeq)
+}
+
+// Save now if anything is waiting, or retry after a failure
+export async function flush() {
+  if (!db || (!snapshotPending && !persistError)) return
+  await snapshot()
+}
+
+// Re-apply journal entries written after the loaded snapshot. Runs before
+// migrating, as entries use the schema of the snapshot they follow.
+async function replayJournal(): Promise<number> {
+  const seq = Number(db.exec('SELECT journal_seq FROM snapshot_state')[0]?.values[0][0]) || 0
+  journalSeq = seq
+  const entries = await readEntries(seq, passKey)
+  applyEntries(entries)
+  if (entries.length) console.debug('db: replayed journal entries=', entries.length)
+  return entries.length
+}
+
+function applyEntries(entries: JournalEntry[]) {
+  for (const entry of entries) {
+    try {
+      transaction(() => entry.statements.forEach((st) => db.run(st.sql, st.params)))
+    } catch (err) {
+      console.warn('db: skipping journal entry', entry.seq, err)
+    }
+    journalSeq = entry.seq
+  }
+}
+
+const hasTable = (name: string) => db.exec("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?", [name]).length > 0
+
+// True when the stored DB is encrypted with a passphrase
+export async function isEncryptionEnabled(): Promise<boolean> {
+  if (passKey) return true
+  const arr = await loadSaved()
+  return !!arr && isEncrypted(arr)
+}
+
+// Open an encrypted store. Throws WrongPassphraseError on a bad passphrase.
+export async function unlock(passphrase: string) {
+  const arr = await loadSaved()
+  if (arr && isEncrypted(arr)) {
+    passKey = (await decrypt(arr, passphrase)).key
+  }
+  await ensureInit()
+}
+
+// Check `passphrase` against the one the store is encrypted with
+export async function checkPassphrase(passphrase: string): Promise<boolean> {
+  if (!passKey) return false
+  const candidate = await deriveKey(passphrase, passKey.salt, passKey.iterations)
+  const arr = await loadSaved()
+  if (!arr || !isEncrypted(arr)) return false
+  try {
+    await decryptWithKey(arr, candidate)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Encrypt the store with a new passphrase (enable or change), or pass null
+// to store it unencrypted again.
+export async function setPassphrase(passphrase: string | null) {
+  await ensureInit()
+  const key = passphrase ? await deriveKey(passphrase) : null
+  await withWriteLock(async () => {
+    await catchUp()
+    passKey = key
+    // Also drops journal entries encrypted with the old key
+    await saveAsNewPosition()
+  })
+  console.debug('db: encryption', passphrase ? 'enabled' : 'disabled')
+}
+
+// Map the column/value arrays of a db.exec() result to plain objects
+function toObjects<T>(res: any[]): T[] {
+  if (!res || res.length === 0) return []
+  const values = res[0].values as any[]
+  const cols = res[0].columns as string[]
+  return values.map((row) => {
+    const obj: any = {}
+    for (let i = 0; i < cols.length; i++) obj[cols[i]] = row[i]
+    return obj as T
+  })
+}
+
+// Run `fn` inside a transaction, rolling back if it throws
+function transaction(fn: () => void) {
+  db.run('BEGIN')
+  try {
+    fn()
+    db.run('COMMIT')
+  } catch (err) {
+    db.run('ROLLBACK')
+    throw err
+  }
+}
+
+export async function getAllLogs(): Promise<Row[]> {
+  await ensureInit()
+  const rows = toObjects<Row>(
+    db.exec(`SELECT ${LOG_COLUMNS} FROM logs WHERE deleted_at IS NULL ORDER BY timestamp DESC`)
+  )
+  console.debug('db: getAllLogs rows=', rows.length)
+  return rows
+}
+
+// Use entries whose dose needs a look, as needsDosageReview() decides: a
+// unit without a conversion for the substance, or text that didn't parse
+export async function countDosageReview(): Promise<number> {
+  await ensureInit()
+  const res = db.exec(
+    `SELECT COUNT(*) FROM logs t WHERE t.deleted_at IS NULL AND CASE
+      WHEN t.dose_amount IS NOT NULL AND COALESCE(t.dose_unit, '') != '' THEN NOT EXISTS (
+        SELECT 1 FROM substances s JOIN substance_units u ON u.substance_id = s.id WHERE s.name = t.substance AND u.unit = t.dose_unit)
+      ELSE COALESCE(t.dosage, '') != '' END`
+  )
+  return Number(res[0]?.values[0][0]) || 0
+}
+
+function insertLog(row: Row) {
+  write(`INSERT INTO logs (${LOG_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`, [
+    row.id,
+    row.substance,
+    row.feelings ?? null,
+    row.dosage ?? null,
+    row.dose_amount ?? null,
+    row.dose_unit ?? null,
+    row.dose_route ?? null,
+    row.context ?? null,
+    row.notes ?? null,
+    row.timestamp,
+    row.follow_up ?? null,
+  ])
+}
+
+export async function addLog(row: Row) {
+  await ensureInit()
+  await mutate(() => insertLog(row))
+  console.debug('db: addLog id=', row.id)
+}
+
+// The follow-up is left alone: it only changes through setFollowUp(), so an
+// edit made from an older copy of the entry can't undo a check-in
+function writeLog(row: Row) {
+  write(
+    'UPDATE logs SET substance = ?, feelings = ?, dosage = ?, dose_amount = ?, dose_unit = ?, dose_route = ?, context = ?, notes = ?, timestamp = ? WHERE id = ?',
+    [
+      row.substance,
+      row.feelings ?? null,
+      row.dosage ?? null,
+      row.dose_amount ?? null,
+      row.dose_unit ?? null,
+      row.dose_route ?? null,
+      row.context ?? null,
+      row.notes ?? null,
+      row.timestamp,
+      row.id,
+    ]
+  )
+}
+
+// Save the new values, keeping the previous ones as a revision
+function reviseLog(row: Row, editedAt: string) {
+  const prev = toObjects<Row>(db.exec(`SELECT ${LOG_COLUMNS} FROM logs WHERE id = ?`, [row.id]))[0]
+  if (!prev || sameLog(prev, row)) return
+  write('INSERT INTO log_revisions (log_id, edited_at, data) VALUES (?, ?, ?)', [row.id, editedAt, JSON.stringify(prev)])
+  writeLog(row)
+}
+
+export async function updateLog(row: Row) {
+  await ensureInit()
+  await mutate(() => reviseLog(row, new Date().toISOString()))
+  console.debug('db: updateLog id=', row.id)
+}
+
+// Schedule, complete or cancel (null) a log's follow-up check-in. Not an edit
+// of the entry, so no revision is kept.
+export async function setFollowUp(id: string, followUp: string | null) {
+  await ensureInit()
+  await mutate(() => write('UPDATE logs SET follow_up = ? WHERE id = ?', [followUp, id]))
+  console.debug('db: setFollowUp id=', id)
+}
+
+// Logs with a check-in still to do, soonest due first
+export async function openFollowUps(): Promise<Row[]> {
+  await ensureInit()
+  return toObjects<Row>(
+    db.exec(
+      `SELECT ${LOG_COLUMNS} FROM logs
+      WHERE deleted_at IS NULL AND json_valid(follow_up) AND json_extract(follow_up, '$.doneAt') IS NULL
+      ORDER BY json_extract(follow_up, '$.dueAt')`
+    )
+  )
+}
+
+// Earlier versions of a log, newest first
+export async function getLogRevisions(id: string): Promise<LogRevision[]> {
+  await ensureInit()
+  const rows = toObjects<{ edited_at: string; data: string }>(
+    db.exec('SELECT edited_at, data FROM log_revisions WHERE log_id = ? ORDER BY edited_at DESC, id DESC', [id])
+  )
+  return rows.map((r) => ({ edited_at: r.edited_at, row: JSON.parse(r.data) }))
+}
+
+// Move a log to the trash
+export async function deleteLog(id: string) {
+  await ensureInit()
+  await mutate(() => write('UPDATE logs SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL', [new Date().toISOString(), id]))
+  console.debug('db: deleteLog id=', id)
+}
+
+export async function restoreLog(id: string) {
+  await ensureInit()
+  await mutate(() => write('UPDATE logs SET deleted_at = NULL WHERE id = ?', [id]))
+  console.debug('db: restoreLog id=', id)
+}
+
+// Delete a log and its revisions for good
+export async function purgeLog(id: string) {
+  await ensureInit()
+  await mutate(() => {
+    write('DELETE FROM log_revisions WHERE log_id = ?', [id])
+    write('DELETE FROM logs WHERE id = ?', [id])
+  })
+  console.debug('db: purgeLog id=', id)
+}
+
+// Move every log and craving to the trash. Returns the deletion time, which
+// restoreCleared() takes to bring back exactly these entries.
+export async function clearAll(): Promise<string> {
+  await ensureInit()
+  const deletedAt = new Date().toISOString()
+  await mutate(() => {
+    write('UPDATE logs SET deleted_at = ? WHERE deleted_at IS NULL', [deletedAt])
+    write('UPDATE cravings SET deleted_at = ? WHERE deleted_at IS NULL', [deletedAt])
+  })
+  return deletedAt
+}
+
+// Bring back the entries trashed together by clearAll() or deleteEntries()
+export async function restoreCleared(deletedAt: string) {
+  await ensureInit()
+  await mutate(() => {
+    write('UPDATE logs SET deleted_at = NULL WHERE deleted_at = ?', [deletedAt])
+    write('UPDATE cravings SET deleted_at = NULL WHERE deleted_at = ?', [deletedAt])
+  })
+}
+
+// Everything in the trash, most recently deleted first
+export async function getTrash(): Promise<TrashItem[]> {
+  await ensureInit()
+  const logs = toObjects<Row & { deleted_at: string }>(
+    db.exec(`SELECT ${LOG_COLUMNS}, deleted_at FROM logs WHERE deleted_at IS NOT NULL`)
+  ).map(({ deleted_at, ...row }): TrashItem => ({ kind: 'use', row, deleted_at }))
+  const cravings = toObjects<CravingRow & { deleted_at: string }>(
+    db.exec(`SELECT ${CRAVING_COLUMNS}, deleted_at FROM cravings WHERE deleted_at IS NOT NULL`)
+  ).map(({ deleted_at, ...row }): TrashItem => ({ kind: 'craving', row, deleted_at }))
+  return [...logs, ...cravings].sort((a, b) => b.deleted_at.localeCompare(a.deleted_at) || b.row.timestamp.localeCompare(a.row.timestamp))
+}
+
+// Purge trashed entries deleted before `before`, or all of them
+function purgeTrash(before: string | null) {
+  const cond = before ? 'deleted_at < ?' : 'deleted_at IS NOT NULL'
+  const params = before ? [before] : []
+  write(`DELETE FROM log_revisions WHERE log_id IN (SELECT id FROM logs WHERE ${cond})`, params)
+  write(`DELETE FROM logs WHERE ${cond}`, params)
+  write(`DELETE FROM cravings WHERE ${cond}`, params)
+}
+
+export async function emptyTrash() {
+  await ensureInit()
+  await mutate(() => purgeTrash(null))
+  console.debug('db: emptied trash')
+}
+
+// Drop entries that have been in the trash longer than TRASH_RETENTION_DAYS
+async function purgeExpiredTrash() {
+  const cutoff = cutoffOf(TRASH_RETENTION_DAYS)!
+  const expired = db.exec('SELECT 1 FROM logs WHERE deleted_at < ? UNION ALL SELECT 1 FROM cravings WHERE deleted_at < ? LIMIT 1', [cutoff, cutoff])
+  if (!expired.length) return
+  await mutate(() => purgeTrash(cutoff))
+  console.debug('db: purged expired trash')
+}
+
+type Where = { sql: string[]; params: any[] }
+
+// WHERE clause for one of the two History tables. Text search goes through
+// the table's full-text index from migration v8.
+function historyWhere(filter: HistoryFilter, table: 'logs' | 'cravings', after?: HistoryCursor | null): Where {
+  const where: Where = { sql: [], params: [] }
+  const add = (sql: string, ...params: any[]) => {
+    where.sql.push(sql)
+    where.params.push(...params)
+  }
+  const list = (values: any[]) => values.map(() => '?').join(', ')
+
+  add('deleted_at IS NULL')
+  if (filter.substances?.length) add(`substance IN (${list(filter.substances)})`, ...filter.substances)
+  if (filter.from) add('timestamp >= ?', filter.from)
+  if (filter.to) add('timestamp < ?', filter.to)
+  if (filter.feelings?.length) {
+    // Rows written by older versions may hold non-JSON feelings; treat those as none
+    add(
+      `EXISTS (SELECT 1 FROM json_each(CASE WHEN json_valid(${table}.feelings) THEN ${table}.feelings END) WHERE value IN (${list(filter.feelings)}))`,
+      ...filter.feelings
+    )
+  }
+  if (filter.hasDosage && table === 'logs') add('(dose_amount IS NOT NULL OR dosage IS NOT NULL)')
+  const match = toMatchQuery(filter.terms || [])
+  if (match) add(`rowid IN (SELECT docid FROM ${table}_fts WHERE ${table}_fts MATCH ?)`, match)
+  if (after) add('(timestamp, id) < (?, ?)', after.timestamp, after.id)
+  return where
+}
+
+const whereSql = (w: Where) => (w.sql.length ? ` WHERE ${w.sql.join(' AND ')}` : '')
+
+const includesCravings = (filter: HistoryFilter) => !filter.hasDosage && !filter.usesOnly
+
+// One page of use entries and cravings, newest first. Only the ids are
+// sorted across both tables; full rows are read for the page alone.
+export async function queryHistory(filter: HistoryFilter, limit: number, after?: HistoryCursor | null): Promise<HistoryPage> {
+  await ensureInit()
+  const logsWhere = historyWhere(filter, 'logs', after)
+  const parts = [`SELECT 'use' AS kind, id, timestamp FROM logs${whereSql(logsWhere)}`]
+  const params = [...logsWhere.params]
+  if (includesCravings(filter)) {
+    const cravingsWhere = historyWhere(filter, 'cravings', after)
+    parts.push(`SELECT 'craving' AS kind, id, timestamp FROM cravings${whereSql(cravingsWhere)}`)
+    params.push(...cravingsWhere.params)
+  }
+  // One extra row tells whether there is a next page
+  const keys = toObjects<{ kind: 'use' | 'craving'; id: string; timestamp: string }>(
+    db.exec(`${parts.join(' UNION ALL ')} ORDER BY timestamp DESC, id DESC LIMIT ?`, [...params, limit + 1])
+  )
+  const pageKeys = keys.slice(0, limit)
+
+  const fetch = <T extends { id: string }>(table: string, columns: string, ids: string[]) => {
+    if (!ids.length) return new Map<string, T>()
+    const rows = toObjects<T>(db.exec(`SELECT ${columns} FROM ${table} WHERE id IN (${ids.map(() => '?').join(', ')})`, ids))
+    return new Map(rows.map((r) => [r.id, r]))
+  }
+  const logs = fetch<Row>('logs', LOG_COLUMNS, pageKeys.filter((k) => k.kind === 'use').map((k) => k.id))
+  const cravings = fetch<CravingRow>('cravings', CRAVING_COLUMNS, pageKeys.filter((k) => k.kind === 'craving').map((k) => k.id))
+
+  const items: HistoryItem[] = pageKeys.map((k) =>
+    k.kind === 'use' ? { kind: 'use', row: logs.get(k.id)! } : { kind: 'craving', row: cravings.get(k.id)! }
+  )
+  const last = pageKeys[pageKeys.length - 1]
+  const next = keys.length > limit && last ? { timestamp: last.timestamp, id: last.id } : null
+  console.debug('db: queryHistory items=', items.length)
+  return { items, next }
+}
+
+// Ids of every entry matching `filter`, for selecting them all
+export async function historyKeys(filter: HistoryFilter): Promise<{ logs: string[]; cravings: string[] }> {
+  await ensureInit()
+  const ids = (table: 'logs' | 'cravings') => {
+    const w = historyWhere(filter, table)
+    return toObjects<{ id: string }>(db.exec(`SELECT id FROM ${table}${whereSql(w)}`, w.params)).map((r) => r.id)
+  }
+  return { logs: ids('logs'), cravings: includesCravings(filter) ? ids('cravings') : [] }
+}
+
+// How many use entries and cravings match `filter`
+export async function countHistory(filter: HistoryFilter): Promise<{ uses: number; cravings: number }> {
+  await ensureInit()
+  const count = (table: 'logs' | 'cravings') => {
+    const w = historyWhere(filter, table)
+    const res = db.exec(`SELECT COUNT(*) FROM ${table}${whereSql(w)}`, w.params)
+    return Number(res[0]?.values[0][0]) || 0
+  }
+  return { uses: count('logs'), cravings: includesCravings(filter) ? count('cravings') : 0 }
+}
+
+// Rows by id, for bulk actions on a selection that may span many pages. The
+// ids go in as one JSON parameter however many there are.
+export async function getEntries(logIds: string[], cravingIds: string[]): Promise<{ logs: Row[]; cravings: CravingRow[] }> {
+  await ensureInit()
+  const byId = <T>(table: string, columns: string, ids: string[]) =>
+    ids.length
+      ? toObjects<T>(db.exec(`SELECT ${columns} FROM ${table} WHERE id IN (SELECT value FROM json_each(?)) ORDER BY timestamp DESC`, [JSON.stringify(ids)]))
+      : []
+  return { logs: byId<Row>('logs', LOG_COLUMNS, logIds), cravings: byId<CravingRow>('cravings', CRAVING_COLUMNS, cravingIds) }
+}
+
+// The substances of the given use entries
+export async function substancesOf(logIds: string[]): Promise<string[]> {
+  await ensureInit()
+  const res = db.exec('SELECT DISTINCT substance FROM logs WHERE id IN (SELECT value FROM json_each(?))', [JSON.stringify(logIds)])
+  return ((res[0]?.values || []) as [string][]).map(([name]) => name)
+}
+
+export async function getAllCravings(): Promise<CravingRow[]> {
+  await ensureInit()
+  return toObjects<CravingRow>(db.exec(`SELECT ${CRAVING_COLUMNS} FROM cravings WHERE deleted_at IS NULL ORDER BY timestamp DESC`))
+}
+
+function insertCraving(row: CravingRow) {
+  write(`INSERT INTO cravings (${CRAVING_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?)`, [
+    row.id,
+    row.substance,
+    row.intensity,
+    row.feelings ?? null,
+    row.trigger_text ?? null,
+    row.outcome,
+    row.timestamp,
+  ])
+}
+
+export async function addCraving(row: CravingRow) {
+  await ensureInit()
+  await mutate(() => insertCraving(row))
+  console.debug('db: addCraving id=', row.id)
+}
+
+function writeCraving(row: CravingRow) {
+  write('UPDATE cravings SET substance = ?, intensity = ?, feelings = ?, trigger_text = ?, outcome = ?, timestamp = ? WHERE id = ?', [
+    row.substance,
+    row.intensity,
+    row.feelings ?? null,
+    row.trigger_text ?? null,
+    row.outcome,
+    row.timestamp,
+    row.id,
+  ])
+}
+
+export async function updateCraving(row: CravingRow) {
+  await ensureInit()
+  await mutate(() => writeCraving(row))
+  console.debug('db: updateCraving id=', row.id)
+}
+
+// Move a craving to the trash
+export async function deleteCraving(id: string) {
+  await ensureInit()
+  await mutate(() => write('UPDATE cravings SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL', [new Date().toISOString(), id]))
+  console.debug('db: deleteCraving id=', id)
+}
+
+export async function restoreCraving(id: string) {
+  await ensureInit()
+  await mutate(() => write('UPDATE cravings SET deleted_at = NULL WHERE id = ?', [id]))
+  console.debug('db: restoreCraving id=', id)
+}
+
+export async function purgeCraving(id: string) {
+  await ensureInit()
+  await mutate(() => write('DELETE FROM cravings WHERE id = ?', [id]))
+  console.debug('db: purgeCraving id=', id)
+}
+
+// Save edits to many entries as one change (bulk edit in History)
+export async function updateEntries(logs: Row[], cravings: CravingRow[]) {
+  await ensureInit()
+  const editedAt = new Date().toISOString()
+  await mutate(() => {
+    logs.forEach((row) => reviseLog(row, editedAt))
+    cravings.forEach(writeCraving)
+  })
+  console.debug('db: updateEntries logs=', logs.length, 'cravings=', cravings.length)
+}
+
+// Move many entries to the trash as one change. Returns the deletion time
+// for restoreCleared().
+export async function deleteEntries(logIds: string[], cravingIds: string[]): Promise<string> {
+  await ensureInit()
+  const deletedAt = new Date().toISOString()
+  await mutate(() => {
+    logIds.forEach((id) => write('UPDATE logs SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL', [deletedAt, id]))
+    cravingIds.forEach((id) => write('UPDATE cravings SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL', [deletedAt, id]))
+  })
+  console.debug('db: deleteEntries logs=', logIds.length, 'cravings=', cravingIds.length)
+  return deletedAt
+}
+
+export async function getSubstances(): Promise<SubstanceRow[]> {
+  await ensureInit()
+  return toObjects<SubstanceRow>(db.exec(SUBSTANCE_SELECT))
+}
+
+// Replace the unit conversions of a substance with those in `row.units`
+function writeUnits(row: SubstanceRow) {
+  write('DELETE FROM substance_units WHERE substance_id = ?', [row.id])
+  const units: { unit: string; factor: number }[] = JSON.parse(row.units || '[]')
+  for (const u of units) {
+    write('INSERT OR REPLACE INTO substance_units (substance_id, unit, factor) VALUES (?, ?, ?)', [row.id, u.unit, u.factor])
+  }
+}
+
+function insertSubstance(row: SubstanceRow) {
+  write(
+    'INSERT INTO substances (id, name, color, archived, sort_order, presets, normalized_unit) VALUES (?, ?, ?, ?, ?, ?, ?)',
+    [row.id, row.name, row.color, row.archived, row.sort_order, row.presets, row.normalized_unit]
+  )
+  writeUnits(row)
+}
+
+export async function addSubstance(row: SubstanceRow) {
+  await ensureInit()
+  await mutate(() => insertSubstance(row))
+  console.debug('db: addSubstance id=', row.id)
+}
+
+// Updates a substance. Logs and cravings store the substance by name, so a
+// rename is carried over to their rows in the same transaction.
+export async function updateSubstance(row: SubstanceRow) {
+  await ensureInit()
+  const prev = toObjects<{ name: string }>(db.exec('SELECT name FROM substances WHERE id = ?', [row.id]))[0]
+  await mutate(() => {
+    write('UPDATE substances SET name = ?, color = ?, archived = ?, sort_order = ?, presets = ?, normalized_unit = ? WHERE id = ?', [
+      row.name,
+      row.color,
+      row.archived,
+      row.sort_order,
+      row.presets,
+      row.normalized_unit,
+      row.id,
+    ])
+    writeUnits(row)
+    if (prev && prev.name !== row.name) {
+      write('UPDATE logs SET substance = ? WHERE substance = ?', [row.name, prev.name])
+      write('UPDATE cravings SET substance = ? WHERE substance = ?', [row.name, prev.name])
+    }
+  })
+  console.debug('db: updateSubstance id=', row.id)
+}
+
+const DIMENSION_SELECT = 'SELECT id, name, multiple, options, sort_order FROM context_dimensions ORDER BY sort_order, name'
+
+export async function getContextDimensions(): Promise<ContextDimensionRow[]> {
+  await ensureInit()
+  return toObjects<ContextDimensionRow>(db.exec(DIMENSION_SELECT))
+}
+
+function insertDimension(row: ContextDimensionRow) {
+  write('INSERT INTO context_dimensions (id, name, multiple, options, sort_order) VALUES (?, ?, ?, ?, ?)', [
+    row.id,
+    row.name,
+    row.multiple,
+    row.options,
+    row.sort_order,
+  ])
+}
+
+export async function addContextDimension(row: ContextDimensionRow) {
+  await ensureInit()
+  await mutate(() => insertDimension(row))
+  console.debug('db: addContextDimension id=', row.id)
+}
+
+export async function updateContextDimension(row: ContextDimensionRow) {
+  await ensureInit()
+  await mutate(() => {
+    write('UPDATE context_dimensions SET name = ?, multiple = ?, options = ?, sort_order = ? WHERE id = ?', [
+      row.name,
+      row.multiple,
+      row.options,
+      row.sort_order,
+      row.id,
+    ])
+  })
+  console.debug('db: updateContextDimension id=', row.id)
+}
+
+// Values already stored on entries are left alone; they simply stop showing
+export async function deleteContextDimension(id: string) {
+  await ensureInit()
+  await mutate(() => write('DELETE FROM context_dimensions WHERE id = ?', [id]))
+  console.debug('db: deleteContextDimension id=', id)
+}
+
+export async function getGoals(): Promise<GoalRow[]> {
+  await ensureInit()
+  return toObjects<GoalRow>(db.exec('SELECT id, substance_id, period, max_amount, weekdays, sort_order FROM goals ORDER BY sort_order, rowid'))
+}
+
+export async function addGoal(row: GoalRow) {
+  await ensureInit()
+  await mutate(() => {
+    write('INSERT INTO goals (id, substance_id, period, max_amount, weekdays, sort_order) VALUES (?, ?, ?, ?, ?, ?)', [
+      row.id,
+      row.substance_id,
+      row.period,
+      row.max_amount,
+      row.weekdays,
+      row.sort_order,
+    ])
+  })
+  console.debug('db: addGoal id=', row.id)
+}
+
+export async function updateGoal(row: GoalRow) {
+  await ensureInit()
+  await mutate(() => {
+    write('UPDATE goals SET substance_id = ?, period = ?, max_amount = ?, weekdays = ?, sort_order = ? WHERE id = ?', [
+      row.substance_id,
+      row.period,
+      row.max_amount,
+      row.weekdays,
+      row.sort_order,
+      row.id,
+    ])
+  })
+  console.debug('db: updateGoal id=', row.id)
+}
+
+export async function deleteGoal(id: string) {
+  await ensureInit()
+  await mutate(() => write('DELETE FROM goals WHERE id = ?', [id]))
+  console.debug('db: deleteGoal id=', id)
+}
+
+export async function getTemplates(): Promise<TemplateRow[]> {
+  await ensureInit()
+  return toObjects<TemplateRow>(db.exec(`SELECT ${TEMPLATE_COLUMNS} FROM log_templates ORDER BY sort_order, rowid`))
+}
+
+function insertTemplate(row: TemplateRow) {
+  write(`INSERT INTO log_templates (${TEMPLATE_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`, [
+    row.id,
+    row.label,
+    row.substance_id,
+    row.dose_amount,
+    row.dose_unit,
+    row.dose_route,
+    row.feelings,
+    row.context,
+    row.sort_order,
+  ])
+}
+
+export async function addTemplate(row: TemplateRow) {
+  await ensureInit()
+  await mutate(() => insertTemplate(row))
+  console.debug('db: addTemplate id=', row.id)
+}
+
+export async function updateTemplate(row: TemplateRow) {
+  await ensureInit()
+  await mutate(() => {
+    write(
+      'UPDATE log_templates SET label = ?, substance_id = ?, dose_amount = ?, dose_unit = ?, dose_route = ?, feelings = ?, context = ?, sort_order = ? WHERE id = ?',
+      [row.label, row.substance_id, row.dose_amount, row.dose_unit, row.dose_route, row.feelings, row.context, row.sort_order, row.id]
+    )
+  })
+  console.debug('db: updateTemplate id=', row.id)
+}
+
+export async function deleteTemplate(id: string) {
+  await ensureInit()
+  await mutate(() => write('DELETE FROM log_templates WHERE id = ?', [id]))
+  console.debug('db: deleteTemplate id=', id)
+}
+
+// Store the templates' order as given; ids not listed keep theirs
+export async function reorderTemplates(ids: string[]) {
+  await ensureInit()
+  await mutate(() => ids.forEach((id, i) => write('UPDATE log_templates SET sort_order = ? WHERE id = ?', [i, id])))
+  console.debug('db: reorderTemplates count=', ids.length)
+}
+
+// The substance, dose and feelings combinations logged most often, leaving
+// out ones already saved as a template. Feelings are compared as stored, so
+// the same feelings picked in another order count separately.
+export async function suggestTemplates(limit = 3, minUses = 3): Promise<TemplateSuggestion[]> {
+  await ensureInit()
+  const rows = toObjects<TemplateSuggestion>(
+    db.exec(
+      `SELECT s.id AS substance_id, l.dose_amount, l.dose_unit, l.dose_route, l.feelings, COUNT(*) AS uses
+      FROM logs l JOIN substances s ON s.name = l.substance
+      WHERE l.deleted_at IS NULL AND s.archived = 0
+      GROUP BY s.id, l.dose_amount, l.dose_unit, l.dose_route, l.feelings
+      HAVING uses >= ?
+      ORDER BY uses DESC, MAX(l.timestamp) DESC`,
+      [minUses]
+    )
+  )
+  const saved = toObjects<TemplateRow>(db.exec(`SELECT ${TEMPLATE_COLUMNS} FROM log_templates`))
+  const same = (a: TemplateSuggestion, b: TemplateRow) =>
+    a.substance_id === b.substance_id &&
+    a.dose_amount === b.dose_amount &&
+    a.dose_unit === b.dose_unit &&
+    a.dose_route === b.dose_route &&
+    a.feelings === b.feelings
+  return rows.filter((r) => !saved.some((t) => same(r, t))).slice(0, limit)
+}
+
+export async function getBreaks(): Promise<BreakRow[]> {
+  await ensureInit()
+  return toObjects<BreakRow>(db.exec('SELECT id, substance_id, start_date FROM breaks ORDER BY start_date'))
+}
+
+export type UseDay = { substance: string; day: string; last: string }
+
+// The latest use on each local day (YYYY-MM-DD) per substance, up to
+// `until`, for streaks. One row per day however much was logged on it.
+export async function lastUseByDay(until: string): Promise<UseDay[]> {
+  await ensureInit()
+  return toObjects<UseDay>(
+    db.exec(
+      `SELECT substance, strftime('%Y-%m-%d', timestamp, 'localtime') AS day, MAX(timestamp) AS last
+      FROM logs WHERE deleted_at IS NULL AND timestamp <= ? GROUP BY substance, day`,
+      [until]
+    )
+  )
+}
+
+export async function addBreak(row: BreakRow) {
+  await ensureInit()
+  await mutate(() => write('INSERT INTO breaks (id, substance_id, start_date) VALUES (?, ?, ?)', [row.id, row.substance_id, row.start_date]))
+  console.debug('db: addBreak id=', row.id)
+}
+
+export async function deleteBreak(id: string) {
+  await ensureInit()
+  await mutate(() => write('DELETE FROM breaks WHERE id = ?', [id]))
+  console.debug('db: deleteBreak id=', id)
+}
+
+// Trends read the whole range, so they are aggregated here rather than in
+// React. Ranges are the last `days` calendar days, today included;
+// `substance` narrows to one name.
+export type TrendFilter = { days: number | null; substance?: string }
+
+// Size of the date buckets in a time series
+export type TrendBucket = 'day' | 'week' | 'month'
+
+export type TimeSeries = { labels: string[]; series: Record<string, number[]> }
+
+type DateBucket = { label: string; since: string; until: string }
+
+// Local midnight at the start of the last `days` calendar days: where the
+// first bucket begins, and the cutoff for the count aggregates
+function rangeStartOf(days: number): Date {
+  const now = new Date()
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate() - days + 1)
+}
+
+// Local-time buckets covering the last `days` calendar days, or running from
+// `first` when showing all time. Labels are the bucket's first day
+// (YYYY-MM-DD), or YYYY-MM for months.
+function dateBuckets(bucket: TrendBucket, days: number | null, first: string | null): DateBucket[] {
+  const now = new Date()
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+  let rangeStart: Date
+  if (days) {
+    rangeStart = rangeStartOf(days)
+  } else if (first) {
+    const d = new Date(first)
+    rangeStart = new Date(d.getFullYear(), d.getMonth(), d.getDate())
+  } else {
+    return []
+  }
+
+  const alignedStart = (d: Date) => {
+    if (bucket === 'week') return new Date(d.getFullYear(), d.getMonth(), d.getDate() - ((d.getDay() + 6) % 7))
+    if (bucket === 'month') return new Date(d.getFullYear(), d.getMonth(), 1)
+    return d
+  }
+  const nextStart = (d: Date) => {
+    if (bucket === 'week') return new Date(d.getFullYear(), d.getMonth(), d.getDate() + 7)
+    if (bucket === 'month') return new Date(d.getFullYear(), d.getMonth() + 1, 1)
+    return new Date(d.getFullYear(), d.getMonth(), d.getDate() + 1)
+  }
+
+  const buckets: DateBucket[] = []
+  for (let start = alignedStart(rangeStart); start <= today; start = nextStart(start)) {
+    const key = getDateKey(start.toISOString())
+    buckets.push({
+      label: bucket === 'month' ? key.slice(0, 7) : key,
+      // A week that began before the range only counts its days inside it
+      since: (start < rangeStart ? rangeStart : start).toISOString(),
+      until: nextStart(start).toISOString(),
+    })
+  }
+  return buckets
+}
+
+// Sum `value` per bucket and per `key` over the rows of `from`, which must
+// name its table `t`. Keys in `include` get a series even when empty.
+function bucketSeries(buckets: DateBucket[], from: string, key: string, value: string, where: Where, include: string[]): TimeSeries {
+  const labels = buckets.map((b) => b.label)
+  const series: Record<string, number[]> = {}
+  for (const k of include) series[k] = labels.map(() => 0)
+  if (!buckets.length) return { labels, series }
+
+  const values = buckets.map(() => '(?, ?, ?)').join(', ')
+  const rows = db.exec(
+    `WITH buckets (label, since, until) AS (VALUES ${values})
+      SELECT b.label, ${key}, SUM(${value}) FROM ${from}
+      JOIN buckets b ON t.timestamp >= b.since AND t.timestamp < b.until${whereSql(where)}
+      GROUP BY b.label, ${key}`,
+    [...buckets.flatMap((b) => [b.label, b.since, b.until]), ...where.params]
+  )
+  const index = new Map(labels.map((l, i) => [l, i]))
+  for (const [label, k, total] of (rows[0]?.values || []) as [string, string, number][]) {
+    if (!series[k]) series[k] = labels.map(() => 0)
+    series[k][index.get(label)!] += total
+  }
+  return { labels, series }
+}
+
+const cutoffOf = (days: number | null) => (days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString() : null)
+
+// Conditions on range and substance for the count aggregates, leaving out
+// entries in the trash. The range starts where the time series do. `alias` qualifies the columns when given.
+function trendWhere(filter: TrendFilter, alias?: string): Where {
+  const col = (name: string) => (alias ? `${alias}.${name}` : name)
+  const where: Where = { sql: [`${col('deleted_at')} IS NULL`], params: [] }
+  if (filter.days) {
+    where.sql.push(`${col('timestamp')} >= ?`)
+    where.params.push(rangeStartOf(filter.days).toISOString())
+  }
+  if (filter.substance) {
+    where.sql.push(`${col('substance')} = ?`)
+    where.params.push(filter.substance)
+  }
+  return where
+}
+
+function firstTimestamp(table: 'logs' | 'cravings'): string | null {
+  const res = db.exec(`SELECT MIN(timestamp) FROM ${table} WHERE deleted_at IS NULL`)
+  return (res[0]?.values[0][0] as string | null) ?? null
+}
+
+// Time of the earliest use entry outside the trash; null when there is none
+export async function firstLogTimestamp(): Promise<string | null> {
+  await ensureInit()
+  return firstTimestamp('logs')
+}
+
+// Dose per bucket and substance in each substance's normalized unit. Entries
+// without a dose, or whose unit has no conversion, add nothing.
+export async function usageOverTime(filter: TrendFilter, bucket: TrendBucket, include: string[]): Promise<TimeSeries> {
+  await ensureInit()
+  const buckets = dateBuckets(bucket, filter.days, filter.days ? null : firstTimestamp('logs'))
+  const where: Where = { sql: ['t.deleted_at IS NULL'], params: [] }
+  if (filter.substance) {
+    where.sql.push('t.substance = ?')
+    where.params.push(filter.substance)
+  }
+  return bucketSeries(
+    buckets,
+    `logs t JOIN substances s ON s.name = t.substance
+      JOIN substance_units u ON u.substance_id = s.id AND u.unit = t.dose_unit`,
+    't.substance',
+    't.dose_amount * u.factor',
+    where,
+    filter.substance ? [filter.substance] : include
+  )
+}
+
+export type DayTotal = { day: string; substance: string; entries: number; total: number | null }
+
+// Use entries and normalized dose per local day and substance over the last
+// `days` days (null: all time), for the calendar heatmap and goals. Days are
+// the Trends day buckets; entries without a convertible dose count but leave
+// `total` null.
+export async function dailyTotals(days: number | null, substance?: string): Promise<DayTotal[]> {
+  await ensureInit()
+  const buckets = dateBuckets('day', days, days ? null : firstTimestamp('logs'))
+  if (!buckets.length) return []
+  const where: Where = { sql: ['t.deleted_at IS NULL', 't.timestamp >= ?', 't.timestamp < ?'], params: [buckets[0].since, buckets[buckets.length - 1].until] }
+  if (substance) {
+    where.sql.push('t.substance = ?')
+    where.params.push(substance)
+  }
+  const rows = toObjects<DayTotal>(
+    db.exec(
+      `SELECT strftime('%Y-%m-%d', t.timestamp, 'localtime') AS day, t.substance, COUNT(*) AS entries, SUM(t.dose_amount * u.factor) AS total
+      FROM logs t LEFT JOIN substances s ON s.name = t.substance
+      LEFT JOIN substance_units u ON u.substance_id = s.id AND u.unit = t.dose_unit${whereSql(where)}
+      GROUP BY day, t.substance`,
+      where.params
+    )
+  )
+  console.debug('db: dailyTotals rows=', rows.length)
+  return rows
+}
+
+// Cravings per bucket, one series per outcome
+export async function cravingsOverTime(filter: TrendFilter, bucket: TrendBucket, outcomes: string[]): Promise<TimeSeries> {
+  await ensureInit()
+  const buckets = dateBuckets(bucket, filter.days, filter.days ? null : firstTimestamp('cravings'))
+  const where: Where = { sql: ['t.deleted_at IS NULL'], params: [] }
+  if (filter.substance) {
+    where.sql.push('t.substance = ?')
+    where.params.push(filter.substance)
+  }
+  return bucketSeries(buckets, 'cravings t', 't.outcome', '1', where, outcomes)
+}
+
+// Entries per substance, most frequent first
+export async function countBySubstance(filter: TrendFilter, table: 'logs' | 'cravings' = 'logs'): Promise<Record<string, number>> {
+  await ensureInit()
+  const where = trendWhere(filter)
+  const res = db.exec(`SELECT substance, COUNT(*) AS n FROM ${table}${whereSql(where)} GROUP BY substance ORDER BY n DESC, substance`, where.params)
+  return Object.fromEntries((res[0]?.values || []) as [string, number][])
+}
+
+export type HourOfWeekCount = { substance: string; weekday: number; hour: number; entries: number }
+
+// Entries per substance, local weekday (0 = Sunday) and hour. SQLite's
+// 'localtime' follows the device's time zone, daylight saving included.
+export async function countByHourOfWeek(filter: TrendFilter): Promise<HourOfWeekCount[]> {
+  await ensureInit()
+  const where = trendWhere(filter)
+  return toObjects<HourOfWeekCount>(
+    db.exec(
+      `SELECT substance,
+        CAST(strftime('%w', timestamp, 'localtime') AS INTEGER) AS weekday,
+        CAST(strftime('%H', timestamp, 'localtime') AS INTEGER) AS hour,
+        COUNT(*) AS entries
+      FROM logs${whereSql(where)}
+      GROUP BY substance, weekday, hour`,
+      where.params
+    )
+  )
+}
+
+// How many entries carry each feeling, most frequent first
+export async function countFeelings(filter: TrendFilter, table: 'logs' | 'cravings' = 'logs'): Promise<Record<string, number>> {
+  await ensureInit()
+  const where = trendWhere(filter, 't')
+  // Rows written by older versions may hold non-JSON feelings; treat those as none
+  const res = db.exec(
+    `SELECT f.value, COUNT(*) AS n FROM ${table} t, json_each(CASE WHEN json_valid(t.feelings) THEN t.feelings END) f${whereSql(where)}
+      GROUP BY f.value ORDER BY n DESC, f.value`,
+    where.params
+  )
+  return Object.fromEntries((res[0]?.values || []) as [string, number][])
+}
+
+export type FeelingCount = { substance: string; feeling: string; entries: number }
+
+// How many use entries carry each feeling, per substance
+export async function countFeelingsBySubstance(filter: TrendFilter): Promise<FeelingCount[]> {
+  await ensureInit()
+  const where = trendWhere(filter, 't')
+  return toObjects<FeelingCount>(
+    db.exec(
+      `SELECT t.substance, f.value AS feeling, COUNT(*) AS entries
+      FROM logs t, json_each(CASE WHEN json_valid(t.feelings) THEN t.feelings END) f${whereSql(where)}
+      GROUP BY t.substance, f.value`,
+      where.params
+    )
+  )
+}
+
+export type FeelingDose = { substance: string; feelings: string | null; dose: number }
+
+// Use entries whose dose converts to the substance's normalized unit, with
+// their feelings (null when none or unreadable)
+export async function feelingDoses(filter: TrendFilter): Promise<FeelingDose[]> {
+  await ensureInit()
+  const where = trendWhere(filter, 't')
+  return toObjects<FeelingDose>(
+    db.exec(
+      `SELECT t.substance, CASE WHEN json_valid(t.feelings) THEN t.feelings END AS feelings, t.dose_amount * u.factor AS dose
+      FROM logs t JOIN substances s ON s.name = t.substance
+        JOIN substance_units u ON u.substance_id = s.id AND u.unit = t.dose_unit${whereSql(where)}`,
+      where.params
+    )
+  )
+}
+
+export type ContextCount = { value: string; count: number; avgDose: number | null }
+
+// Use entries per value of one context dimension, with their average dose
+// in the normalized unit (only entries whose dose converts count)
+export async function countByContext(filter: TrendFilter, dimensionId: string): Promise<ContextCount[]> {
+  await ensureInit()
+  const where = trendWhere(filter, 't')
+  return toObjects<ContextCount>(
+    db.exec(
+      `SELECT v.value, COUNT(*) AS count, AVG(t.dose_amount * u.factor) AS avgDose
+      FROM logs t
+        JOIN json_each(CASE WHEN json_valid(t.context) THEN t.context END, '$."' || ? || '"') v
+        LEFT JOIN substances s ON s.name = t.substance
+        LEFT JOIN substance_units u ON u.substance_id = s.id AND u.unit = t.dose_unit${whereSql(where)}
+      GROUP BY v.value ORDER BY count DESC, v.value`,
+      [dimensionId, ...where.params]
+    )
+  )
+}
+
+// Percentage of cravings resisted, per substance
+export async function resistRates(filter: TrendFilter): Promise<Record<string, number>> {
+  await ensureInit()
+  const where = trendWhere(filter)
+  const res = db.exec(
+    `SELECT substance, ROUND(100.0 * SUM(outcome = 'resisted') / COUNT(*)) FROM cravings${whereSql(where)} GROUP BY substance`,
+    where.params
+  )
+  return Object.fromEntries((res[0]?.values || []) as [string, number][])
+}
+
+export type FollowUpSummary = {
+  substance: string
+  checkIns: number
+  worthIt: number | null // average rating, 1-5
+  // Check-ins with each feeling when logged and at the check-in
+  before: Record<string, number>
+  after: Record<string, number>
+}
+
+// Completed (not skipped) check-ins per substance, for entries in the range
+export async function followUpSummary(filter: TrendFilter): Promise<FollowUpSummary[]> {
+  await ensureInit()
+  const where = trendWhere(filter, 't')
+  where.sql.push("json_valid(t.follow_up) AND json_extract(t.follow_up, '$.doneAt') IS NOT NULL AND json_extract(t.follow_up, '$.skipped') IS NULL")
+  const summaries: FollowUpSummary[] = toObjects<Omit<FollowUpSummary, 'before' | 'after'>>(
+    db.exec(
+      `SELECT t.substance, COUNT(*) AS checkIns, AVG(json_extract(t.follow_up, '$.worthIt')) AS worthIt
+      FROM logs t${whereSql(where)} GROUP BY t.substance ORDER BY checkIns DESC, t.substance`,
+      where.params
+    )
+  ).map((s) => ({ ...s, before: {}, after: {} }))
+  const sources = {
+    before: 'CASE WHEN json_valid(t.feelings) THEN t.feelings END',
+    after: "json_extract(t.follow_up, '$.feelings')",
+  }
+  for (const side of ['before', 'after'] as const) {
+    const res = db.exec(
+      `SELECT t.substance, f.value, COUNT(*) FROM logs t, json_each(${sources[side]}) f${whereSql(where)} GROUP BY t.substance, f.value`,
+      where.params
+    )
+    for (const [substance, feeling, n] of (res[0]?.values || []) as [string, string, number][]) {
+      const s = summaries.find((x) => x.substance === substance)
+      if (s) s[side][feeling] = n
+    }
+  }
+  return summaries
+}
+
+// Export the DB file, encrypted with `passphrase` if one is given
+export async function exportRaw(passphrase?: string): Promise<Uint8Array> {
+  await ensureInit()
+  const data: Uint8Array = db.export()
+  if (!passphrase) return data
+  return encrypt(data, await deriveKey(passphrase))
+}
+
+// Open and migrate an imported file without touching the current DB.
+// Throws SchemaVersionError for files from a newer app version, and
+// PassphraseRequiredError / WrongPassphraseError for encrypted exports.
+async function openIncoming(buffer: ArrayBuffer | Uint8Array, passphrase?: string): Promise<any> {
+  let arr = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer)
+  if (isEncrypted(arr)) {
+    if (!passphrase) throw new PassphraseRequiredError()
+    arr = (await decrypt(arr, passphrase)).plain
+  }
+  const incoming = new SQL.Database(arr)
+  try {
+    // Older files are upgraded in place
+    migrate(incoming)
+  } catch (err) {
+    incoming.close()
+    throw err
+  }
+  return incoming
+}
+
+// Context JSON compared by content: key order and empty lists don't count,
+// so an entry read back from a CSV/JSON export still matches
+function contextKey(context: string | null | undefined): string {
+  if (!context) return ''
+  const parsed: Record<string, string[]> = JSON.parse(context)
+  return JSON.stringify(
+    Object.keys(parsed)
+      .filter((k) => parsed[k]?.length)
+      .sort()
+      .map((k) => [k, parsed[k]])
+  )
+}
+
+const sameLog = (a: Row, b: Row) =>
+  a.substance === b.substance &&
+  a.feelings === b.feelings &&
+  a.dosage === b.dosage &&
+  a.dose_amount === b.dose_amount &&
+  a.dose_unit === b.dose_unit &&
+  a.dose_route === b.dose_route &&
+  contextKey(a.context) === contextKey(b.context) &&
+  (a.notes ?? null) === (b.notes ?? null) &&
+  a.timestamp === b.timestamp
+
+// Rewrite the keys of a log's context JSON through `idMap`
+function remapContext(context: string | null, idMap: Record<string, string>): string | null {
+  if (!context || Object.keys(idMap).length === 0) return context
+  const parsed: Record<string, string[]> = JSON.parse(context)
+  return JSON.stringify(Object.fromEntries(Object.entries(parsed).map(([k, v]) => [idMap[k] ?? k, v])))
+}
+
+// Compare incoming substances and logs against the current DB. Substances
+// are matched by id, then by name; incoming logs are rewritten to the local
+// substance name so a substance renamed on one device doesn't split in two.
+function planMerge(
+  incomingSubs: SubstanceRow[],
+  incomingLogs: Row[],
+  incomingCravings: CravingRow[] = [],
+  incomingDims: ContextDimensionRow[] = [],
+  incomingTemplates: TemplateRow[] = []
+): MergePlan {
+  const localSubs = toObjects<SubstanceRow>(db.exec(SUBSTANCE_SELECT))
+  const nameMap: Record<string, string> = {}
+  const subIdMap: Record<string, string> = {}
+  const newSubstances: SubstanceRow[] = []
+  let nextOrder = localSubs.reduce((max, s) => Math.max(max, s.sort_order), -1) + 1
+  for (const sub of incomingSubs) {
+    const match = localSubs.find((l) => l.id === sub.id) || localSubs.find((l) => l.name === sub.name)
+    if (match) {
+      nameMap[sub.name] = match.name
+      subIdMap[sub.id] = match.id
+    } else newSubstances.push({ ...sub, sort_order: nextOrder++ })
+  }
+
+  // Context dimensions are matched the same way; a dimension known here under
+  // another id has its values moved over to the local id
+  const localDims = toObjects<ContextDimensionRow>(db.exec(DIMENSION_SELECT))
+  const dimIdMap: Record<string, string> = {}
+  const newDimensions: ContextDimensionRow[] = []
+  const extendedDimensions: ContextDimensionRow[] = []
+  let nextDimOrder = localDims.reduce((max, d) => Math.max(max, d.sort_order), -1) + 1
+  for (const dim of incomingDims) {
+    const match = localDims.find((l) => l.id === dim.id) || localDims.find((l) => l.name === dim.name)
+    if (match) {
+      if (match.id !== dim.id) dimIdMap[dim.id] = match.id
+      const have: string[] = JSON.parse(match.options)
+      const extra = (JSON.parse(dim.options) as string[]).filter((o) => !have.includes(o))
+      if (extra.length) extendedDimensions.push({ ...match, options: JSON.stringify([...have, ...extra]) })
+    } else newDimensions.push({ ...dim, sort_order: nextDimOrder++ })
+  }
+
+  // Entries in the trash still count as local, so importing a backup doesn't
+  // bring back what was deleted since
+  const local = new Map(toObjects<Row>(db.exec(`SELECT ${LOG_COLUMNS} FROM logs`)).map((r) => [r.id, r]))
+  const localCravings = new Set(toObjects<{ id: string }>(db.exec('SELECT id FROM cravings')).map((r) => r.id))
+  // Templates this device doesn't have yet go after its own
+  const localTemplates = toObjects<TemplateRow>(db.exec(`SELECT ${TEMPLATE_COLUMNS} FROM log_templates`))
+  let nextTemplateOrder = localTemplates.reduce((max, t) => Math.max(max, t.sort_order), -1) + 1
+  const plan: MergePlan = {
+    newRows: [],
+    identicalCount: 0,
+    conflicts: [],
+    newSubstances,
+    newDimensions,
+    extendedDimensions,
+    newCravings: incomingCravings
+      .filter((c) => !localCravings.has(c.id))
+      .map((c) => ({ ...c, substance: nameMap[c.substance] ?? c.substance })),
+    newTemplates: incomingTemplates
+      .filter((t) => !localTemplates.some((l) => l.id === t.id))
+      .map((t) => ({
+        ...t,
+        substance_id: subIdMap[t.substance_id] ?? t.substance_id,
+        context: remapContext(t.context, dimIdMap),
+        sort_order: nextTemplateOrder++,
+      })),
+  }
+  for (const raw of incomingLogs) {
+    const row = { ...raw, substance: nameMap[raw.substance] ?? raw.substance, context: remapContext(raw.context ?? null, dimIdMap) }
+    const existing = local.get(row.id)
+    if (!existing) plan.newRows.push(row)
+    else if (sameLog(existing, row)) plan.identicalCount++
+    else plan.conflicts.push({ id: row.id, local: existing, incoming: row })
+  }
+  return plan
+}
+
+// Load an imported file and report what merging it would do. Nothing is
+// written until mergeStaged() or replaceWithStaged() is called.
+export async function stageImport(buffer: ArrayBuffer | Uint8Array, passphrase?: string): Promise<ImportPreview> {
+  await ensureInit()
+  discardStaged()
+  const incoming = await openIncoming(buffer, passphrase)
+  const plan = planMerge(
+    toObjects<SubstanceRow>(incoming.exec(SUBSTANCE_SELECT)),
+    toObjects<Row>(incoming.exec(`SELECT ${LOG_COLUMNS} FROM logs WHERE deleted_at IS NULL ORDER BY timestamp DESC`)),
+    toObjects<CravingRow>(incoming.exec(`SELECT ${CRAVING_COLUMNS} FROM cravings WHERE deleted_at IS NULL`)),
+    toObjects<ContextDimensionRow>(incoming.exec(DIMENSION_SELECT)),
+    toObjects<TemplateRow>(incoming.exec(`SELECT ${TEMPLATE_COLUMNS} FROM log_templates ORDER BY sort_order, rowid`))
+  )
+  staged = { db: incoming, plan }
+  return previewOf(plan)
+}
+
+// Stage rows parsed from a CSV/JSON file. Substances the device doesn't know
+// yet are created, measured in the first unit seen for them.
+export async function stageRows(rows: Row[]): Promise<ImportPreview> {
+  await ensureInit()
+  discardStaged()
+  const subs: SubstanceRow[] = []
+  for (const r of rows) {
+    if (subs.some((s) => s.name === r.substance)) continue
+    const unit = rows.find((x) => x.substance === r.substance && x.dose_unit)?.dose_unit || 'unit'
+    subs.push({
+      id: crypto.randomUUID(),
+      name: r.substance,
+      color: '#9fb6ff',
+      archived: 0,
+      sort_order: 0,
+      presets: '[]',
+      normalized_unit: unit,
+      units: JSON.stringify([{ unit, factor: 1 }]),
+    })
+  }
+  const plan = planMerge(subs, rows)
+  staged = { db: null, plan }
+  return previewOf(plan)
+}
+
+function previewOf(plan: MergePlan): ImportPreview {
+  return {
+    newCount: plan.newRows.length,
+    identicalCount: plan.identicalCount,
+    conflicts: plan.conflicts,
+    newSubstances: plan.newSubstances.map((s) => s.name),
+    newCravingCount: plan.newCravings.length,
+  }
+}
+
+// Add the staged file's new entries (and substances) to the current DB.
+// Conflicts keep the local row unless resolved to 'incoming'.
+export async function mergeStaged(resolutions: Record<string, ConflictResolution>) {
+  await ensureInit()
+  if (!staged) throw new Error('No import staged')
+  const { plan } = staged
+  await withWriteLock(async () => {
+    await catchUp()
+    const now = new Date().toISOString()
+    transaction(() => {
+      plan.newSubstances.forEach(insertSubstance)
+      plan.newDimensions.forEach(insertDimension)
+      for (const d of plan.extendedDimensions) write('UPDATE context_dimensions SET options = ? WHERE id = ?', [d.options, d.id])
+      plan.newRows.forEach(insertLog)
+      plan.newCravings.forEach(insertCraving)
+      plan.newTemplates.forEach(insertTemplate)
+      // Taking the incoming version is an edit like any other, so the local
+      // one stays in the entry's history
+      for (const c of plan.conflicts) {
+        if (resolutions[c.id] === 'incoming') reviseLog(c.incoming, now)
+      }
+    })
+    // Too large to journal; save it whole
+    await saveAsNewPosition()
+  })
+  dataListeners.forEach((l) => l())
+  discardStaged()
+  console.debug('db: merged import, new=', plan.newRows.length, 'conflicts=', plan.conflicts.length)
+}
+
+// Throw away the current DB and use the staged file instead
+export async function replaceWithStaged() {
+  await ensureInit()
+  if (!staged || !staged.db) throw new Error('No database file staged')
+  const next = staged.db
+  staged = null
+  await withWriteLock(async () => {
+    db.close()
+    db = next
+    await saveAsNewPosition()
+  })
+  dataListeners.forEach((l) => l())
+}
+
+export function discardStaged() {
+  if (!staged) return
+  staged.db?.close()
+  staged = null
+}
+
+// Forget everything: the stored DB, any staged import and the in-memory
+// copy. Used as the recovery path when the app lock PIN is forgotten.
+export async function wipeAllData() {
+  discardStaged()
+  clearTimeout(snapshotTimer)
+  snapshotPending = false
+  await withWriteLock(async () => {
+    if (db) db.close()
+    db = null
+    initialized = false
+    passKey = null
+    // A new position, so other tabs drop their copies too
+    const seq = Math.max(journalSeq, await readHead()) + 1
+    journalSeq = 0
+    await localforage.removeItem(DB_KEY)
+    await clearJournal()
+    await markHead(seq)
+    announce(seq)
+  })
+  reportPersist(null)
+  console.debug('db: wiped all data')
+}
+
+export async function importRaw(buffer: ArrayBuffer | Uint8Array, passphrase?: string) {
+  // Replace current DB with provided buffer
+  await stageImport(buffer, passphrase)
+  await replaceWithStaged()
+}
+
+export async function init() {
+  await ensureInit()
+  await purgeExpiredTrash()
+}
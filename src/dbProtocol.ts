@@ -0,0 +1,70 @@
+// Messages between the app (db.ts) and the database worker (db.worker.ts).
+//
+// Each request names an engine function and its arguments; the worker answers
+// with the same id. Errors cross the boundary as plain objects and are turned
+// back into the app's error classes, so `instanceof` checks keep working.
+import type * as engine from './dbEngine'
+import { PassphraseRequiredError, WrongPassphraseError } from './crypto'
+import { SchemaVersionError } from './migrations'
+
+type Engine = typeof engine
+
+// Engine functions callable through the worker. Persist errors and changes
+// to the data arrive as events instead (see DbEvent).
+export type DbMethod = Exclude<
+  { [K in keyof Engine]: Engine[K] extends (...args: any[]) => any ? K : never }[keyof Engine],
+  'onPersistError' | 'onExternalChange' | 'onDataChange'
+>
+
+export type DbArgs<M extends DbMethod> = Parameters<Engine[M]>
+
+export type DbResult<M extends DbMethod> = Awaited<ReturnType<Engine[M]>>
+
+export type SerializedError = {
+  name: string
+  message: string
+  // SchemaVersionError
+  found?: number
+  supported?: number
+}
+
+export type DbRequest = { id: number; method: DbMethod; args: unknown[] }
+
+export type DbResponse =
+  | { kind: 'response'; id: number; ok: true; result: unknown }
+  | { kind: 'response'; id: number; ok: false; error: SerializedError }
+
+export type DbEvent =
+  | { kind: 'event'; event: 'persistError'; error: SerializedError | null }
+  | { kind: 'event'; event: 'externalChange' }
+  | { kind: 'event'; event: 'dataChange' }
+
+export type DbMessage = DbResponse | DbEvent
+
+export function serializeError(err: unknown): SerializedError {
+  if (err instanceof SchemaVersionError) return { name: err.name, message: err.message, found: err.found, supported: err.supported }
+  if (err instanceof Error) return { name: err.name, message: err.message }
+  return { name: 'Error', message: String(err) }
+}
+
+export function reviveError(e: SerializedError): Error {
+  switch (e.name) {
+    case 'PassphraseRequiredError':
+      return new PassphraseRequiredError()
+    case 'WrongPassphraseError':
+      return new WrongPassphraseError()
+    case 'SchemaVersionError':
+      return new SchemaVersionError(e.found ?? 0, e.supported ?? 0)
+  }
+  const err = new Error(e.message)
+  err.name = e.name
+  return err
+}
+
+// The buffer behind `bytes`, copied first if the view covers only part of it,
+// so it can be transferred rather than cloned
+export function ownBuffer(bytes: ArrayBuffer | Uint8Array): ArrayBuffer {
+  if (bytes instanceof ArrayBuffer) return bytes
+  if (bytes.byteOffset === 0 && bytes.byteLength === bytes.buffer.byteLength) return bytes.buffer as ArrayBuffer
+  return bytes.slice().buffer as ArrayBuffer
+}
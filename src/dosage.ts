@@ -0,0 +1,75 @@
+import { Dose, Substance } from './constants'
+
+// Spellings we accept for units when parsing free-text dosages
+const UNIT_ALIASES: Record<string, string> = {
+  milligram: 'mg',
+  milligrams: 'mg',
+  mgs: 'mg',
+  gram: 'g',
+  grams: 'g',
+  gr: 'g',
+  milliliter: 'ml',
+  milliliters: 'ml',
+  millilitre: 'ml',
+  millilitres: 'ml',
+  cig: 'cigarette',
+  cigs: 'cigarette',
+  ciggy: 'cigarette',
+  tabs: 'tab',
+  tablet: 'tab',
+  tablets: 'tab',
+}
+
+export function canonicalUnit(raw: string): string {
+  const u = raw.trim().toLowerCase()
+  if (UNIT_ALIASES[u]) return UNIT_ALIASES[u]
+  // "drinks" -> "drink", "hits" -> "hit"; leave "glass" alone
+  if (u.length > 3 && u.endsWith('s') && !u.endsWith('ss')) return u.slice(0, -1)
+  return u
+}
+
+// Parse "2.5mg", "2 hits", "1 drink" or a bare "15". `unit` is undefined
+// for bare numbers. Returns null when the text has no leading amount.
+export function parseDosage(text: string): { amount: number; unit?: string } | null {
+  const m = /^\s*(\d+(?:[.,]\d+)?)\s*([a-zA-Z]+)?\b/.exec(text)
+  if (!m) return null
+  const amount = parseFloat(m[1].replace(',', '.'))
+  if (!isFinite(amount)) return null
+  return { amount, unit: m[2] ? canonicalUnit(m[2]) : undefined }
+}
+
+// Best-effort route from words like "edible" or "cigarette"
+export function inferRoute(text: string): string | undefined {
+  const t = text.toLowerCase()
+  if (/sublingual|tincture/.test(t)) return 'sublingual'
+  if (/edible|oral|pouch|gum|pill|tab/.test(t)) return 'oral'
+  if (/vap/.test(t)) return 'vaped'
+  if (/cigarette|smok|joint|blunt|pipe/.test(t)) return 'smoked'
+  return undefined
+}
+
+// Units that read naturally with a plural "s" ("2 drinks", not "2 mgs")
+const COUNT_UNITS = ['drink', 'hit', 'puff', 'cigarette', 'pill', 'tab', 'cup', 'pouch']
+
+export function formatDose(dose: Dose): string {
+  const plural = dose.amount !== 1 && COUNT_UNITS.includes(dose.unit)
+  const unit = plural ? (dose.unit.endsWith('ch') ? dose.unit + 'es' : dose.unit + 's') : dose.unit
+  const sep = COUNT_UNITS.includes(dose.unit) || dose.unit.length > 2 ? ' ' : ''
+  return `${dose.amount}${sep}${unit}${dose.route ? ` (${dose.route})` : ''}`
+}
+
+// Convert a dose to the substance's normalized unit. Returns null when the
+// substance has no conversion for the dose's unit.
+export function normalizeDose(dose: Dose, substance: Substance | undefined): number | null {
+  if (!substance) return null
+  const conv = substance.units.find((u) => u.unit === dose.unit)
+  if (!conv) return null
+  return dose.amount * conv.factor
+}
+
+// An entry needs review when its old free-text dosage could not be parsed,
+// or its unit has no conversion for the substance it is logged under.
+export function needsDosageReview(log: { dose?: Dose; dosage?: string }, substance: Substance | undefined): boolean {
+  if (log.dose) return normalizeDose(log.dose, substance) === null
+  return !!log.dosage
+}
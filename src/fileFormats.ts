@@ -0,0 +1,311 @@
+import { LogEntry, Dose, Substance, ContextDimension } from './constants'
+import { canonicalUnit, parseDosage } from './dosage'
+
+// --- Export ---
+
+// ISO 8601 in the device's local time with its UTC offset, e.g.
+// 2024-05-01T21:30:00.000-04:00, so spreadsheets show the time the user saw.
+// Milliseconds are kept so a re-imported export matches the stored entries.
+export function toIsoWithOffset(iso: string): string {
+  const d = new Date(iso)
+  const pad = (n: number) => String(Math.abs(n)).padStart(2, '0')
+  const pad3 = (n: number) => String(n).padStart(3, '0')
+  const offset = -d.getTimezoneOffset()
+  const sign = offset >= 0 ? '+' : '-'
+  return (
+    `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}` +
+    `T${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}.${pad3(d.getMilliseconds())}` +
+    `${sign}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`
+  )
+}
+
+export const CSV_COLUMNS = ['id', 'timestamp', 'substance', 'dose_amount', 'dose_unit', 'dose_route', 'dosage_text', 'feelings', 'notes']
+
+// Lists (feelings, context values) are written as one cell, separated by this
+const LIST_SEPARATOR = ';'
+
+const csvCell = (v: string | number | undefined | null): string => {
+  const s = v === undefined || v === null ? '' : String(v)
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+// Context goes in one extra column per dimension, named after it
+const contextColumn = (d: ContextDimension) => `context_${d.name.toLowerCase().replace(/\W+/g, '_')}`
+
+export function logsToCsv(logs: LogEntry[], dimensions: ContextDimension[] = []): string {
+  const lines = [[...CSV_COLUMNS, ...dimensions.map(contextColumn)].map(csvCell).join(',')]
+  for (const l of logs) {
+    lines.push(
+      [
+        l.id,
+        toIsoWithOffset(l.timestamp),
+        l.substance,
+        l.dose?.amount,
+        l.dose?.unit,
+        l.dose?.route,
+        l.dosage,
+        (l.feelings || []).join(LIST_SEPARATOR),
+        l.notes,
+        ...dimensions.map((d) => (l.context?.[d.id] || []).join(LIST_SEPARATOR)),
+      ]
+        .map(csvCell)
+        .join(',')
+    )
+  }
+  // CRLF per RFC 4180; Excel is happiest with it
+  return lines.join('\r\n') + '\r\n'
+}
+
+export const JSON_FORMAT = 'sub-track/logs'
+
+export function logsToJson(logs: LogEntry[], dimensions: ContextDimension[] = []): string {
+  return JSON.stringify(
+    {
+      format: JSON_FORMAT,
+      version: 1,
+      exportedAt: toIsoWithOffset(new Date().toISOString()),
+      entries: logs.map((l) => ({
+        id: l.id,
+        timestamp: toIsoWithOffset(l.timestamp),
+        substance: l.substance,
+        dose: l.dose ?? null,
+        dosage_text: l.dosage ?? null,
+        feelings: l.feelings ?? [],
+        notes: l.notes ?? null,
+        // Keyed by dimension name so the file reads on its own
+        context: Object.fromEntries(dimensions.filter((d) => l.context?.[d.id]?.length).map((d) => [d.name, l.context![d.id]])),
+      })),
+    },
+    null,
+    2
+  )
+}
+
+// --- Import ---
+
+// A parsed file: column names plus one string record per row
+export type Table = { columns: string[]; records: Record<string, string>[] }
+
+// RFC 4180 CSV: quoted fields, doubled quotes, embedded newlines
+export function parseCsv(text: string): Table {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+  const src = text.replace(/^\uFEFF/, '')
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i]
+    if (quoted) {
+      if (c === '"' && src[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (c === '"') {
+        quoted = false
+      } else {
+        cell += c
+      }
+    } else if (c === '"') {
+      quoted = true
+    } else if (c === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && src[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += c
+    }
+  }
+  if (cell !== '' || row.length) {
+    row.push(cell)
+    rows.push(row)
+  }
+  const nonEmpty = rows.filter((r) => r.some((c) => c.trim() !== ''))
+  if (nonEmpty.length === 0) return { columns: [], records: [] }
+  const columns = nonEmpty[0].map((c, i) => c.trim() || `column ${i + 1}`)
+  const records = nonEmpty.slice(1).map((r) => Object.fromEntries(columns.map((c, i) => [c, r[i] ?? ''])))
+  return { columns, records }
+}
+
+// Flatten one JSON object to string cells: nested objects become
+// "parent_child" columns and arrays of primitives are joined.
+function flatten(obj: any, prefix = '', out: Record<string, string> = {}): Record<string, string> {
+  for (const [k, v] of Object.entries(obj ?? {})) {
+    const key = prefix ? `${prefix}_${k}` : k
+    if (v === null || v === undefined) out[key] = ''
+    else if (Array.isArray(v)) out[key] = v.map((x) => (typeof x === 'object' ? JSON.stringify(x) : String(x))).join(LIST_SEPARATOR)
+    else if (typeof v === 'object') flatten(v, key, out)
+    else out[key] = String(v)
+  }
+  return out
+}
+
+// Accepts our own export, a bare array of objects, or an object holding one
+export function parseJson(text: string): Table {
+  const data = JSON.parse(text)
+  const list: any[] | undefined = Array.isArray(data)
+    ? data
+    : Array.isArray(data?.entries)
+      ? data.entries
+      : (Object.values(data ?? {}).find((v) => Array.isArray(v)) as any[] | undefined)
+  if (!list) throw new Error('No list of entries found in this JSON file')
+  const records = list.filter((x) => x && typeof x === 'object').map((x) => flatten(x))
+  const columns: string[] = []
+  for (const r of records) for (const c of Object.keys(r)) if (!columns.includes(c)) columns.push(c)
+  return { columns, records }
+}
+
+// Fields an imported column can be mapped to
+export type ImportField = 'id' | 'timestamp' | 'substance' | 'amount' | 'unit' | 'route' | 'dosage' | 'feelings' | 'notes'
+// Context columns are mapped per dimension, keyed by its id
+export type ColumnMapping = Partial<Record<ImportField, string>> & { context?: Record<string, string> }
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required?: boolean; aliases: string[] }[] = [
+  { field: 'timestamp', label: 'Date / time', required: true, aliases: ['timestamp', 'time', 'date', 'datetime', 'date_time', 'when', 'created_at'] },
+  { field: 'substance', label: 'Substance', required: true, aliases: ['substance', 'drug', 'substance_name', 'type'] },
+  { field: 'amount', label: 'Dose amount', aliases: ['dose_amount', 'amount', 'quantity', 'qty'] },
+  { field: 'unit', label: 'Dose unit', aliases: ['dose_unit', 'unit', 'units'] },
+  { field: 'route', label: 'Route', aliases: ['dose_route', 'route', 'method'] },
+  { field: 'dosage', label: 'Dosage text (e.g. "2 drinks")', aliases: ['dosage_text', 'dosage', 'dose'] },
+  { field: 'feelings', label: 'Feelings', aliases: ['feelings', 'feeling', 'mood', 'moods', 'emotions'] },
+  { field: 'notes', label: 'Notes', aliases: ['notes', 'note', 'comment', 'comments', 'description'] },
+  { field: 'id', label: 'Entry id', aliases: ['id', 'uuid'] },
+]
+
+const normalizeHeader = (h: string) => h.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_')
+
+export function guessMapping(columns: string[], dimensions: ContextDimension[] = []): ColumnMapping {
+  const mapping: ColumnMapping = {}
+  const used = new Set<string>()
+  for (const { field, aliases } of IMPORT_FIELDS) {
+    // aliases are in priority order, so "dosage_text" wins over "dose"
+    let col: string | undefined
+    for (const alias of aliases) {
+      col = columns.find((c) => !used.has(c) && normalizeHeader(c) === alias)
+      if (col) break
+    }
+    if (col) {
+      mapping[field] = col
+      used.add(col)
+    }
+  }
+  // Our CSV has a context_<name> column per dimension, and the JSON context
+  // object flattens to the same names
+  for (const d of dimensions) {
+    const col = columns.find((c) => !used.has(c) && normalizeHeader(c) === contextColumn(d))
+    if (!col) continue
+    mapping.context = { ...mapping.context, [d.id]: col }
+    used.add(col)
+  }
+  return mapping
+}
+
+// Parse a date in ISO 8601, "YYYY-MM-DD HH:MM" (local time) or epoch
+// seconds/milliseconds. Returns an ISO string or null.
+export function parseTimestamp(raw: string): string | null {
+  const s = raw.trim()
+  if (!s) return null
+  if (/^\d{10}$/.test(s)) return new Date(Number(s) * 1000).toISOString()
+  if (/^\d{13}$/.test(s)) return new Date(Number(s)).toISOString()
+  const local = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/.exec(s)
+  if (local) {
+    const [, y, mo, d, h, mi, sec] = local
+    const date = new Date(Number(y), Number(mo) - 1, Number(d), Number(h || 0), Number(mi || 0), Number(sec || 0))
+    return isNaN(date.getTime()) ? null : date.toISOString()
+  }
+  const t = Date.parse(s)
+  return isNaN(t) ? null : new Date(t).toISOString()
+}
+
+export type RowError = { row: number; message: string }
+
+// Validate mapped records. `row` numbers in errors are 1-based data rows
+// (i.e. not counting the CSV header).
+export function recordsToLogs(
+  records: Record<string, string>[],
+  mapping: ColumnMapping,
+  substances: Substance[],
+  dimensions: ContextDimension[] = []
+): { logs: LogEntry[]; errors: RowError[] } {
+  const logs: LogEntry[] = []
+  const errors: RowError[] = []
+  const get = (r: Record<string, string>, f: ImportField) => (mapping[f] ? (r[mapping[f]!] ?? '').trim() : '')
+  const seenIds = new Set<string>()
+
+  records.forEach((r, i) => {
+    const row = i + 1
+    const problems: string[] = []
+
+    const rawTime = get(r, 'timestamp')
+    const timestamp = parseTimestamp(rawTime)
+    if (!timestamp) problems.push(rawTime ? `unrecognized date "${rawTime}"` : 'missing date')
+
+    let substance = get(r, 'substance')
+    if (!substance) problems.push('missing substance')
+    // Match existing substances case-insensitively so "alcohol" lands on "Alcohol"
+    const known = substances.find((s) => s.name.toLowerCase() === substance.toLowerCase())
+    if (known) substance = known.name
+
+    let dose: Dose | undefined
+    let dosage: string | undefined
+    const rawAmount = get(r, 'amount')
+    const rawUnit = get(r, 'unit')
+    const route = get(r, 'route').toLowerCase() || undefined
+    if (rawAmount) {
+      const amount = parseFloat(rawAmount.replace(',', '.'))
+      const unit = rawUnit ? canonicalUnit(rawUnit) : known?.normalizedUnit
+      if (isNaN(amount) || amount < 0) problems.push(`dose amount "${rawAmount}" is not a number`)
+      else if (!unit) problems.push('dose amount has no unit')
+      else dose = { amount, unit, route }
+    } else if (get(r, 'dosage')) {
+      // Same rule as the schema migration: unparseable text is kept for review
+      const text = get(r, 'dosage')
+      const parsed = parseDosage(text)
+      const unit = parsed?.unit ?? known?.normalizedUnit
+      if (parsed && unit) dose = { amount: parsed.amount, unit, route }
+      else dosage = text
+    }
+
+    let id = get(r, 'id')
+    if (id && seenIds.has(id)) problems.push(`duplicate id "${id}"`)
+    if (!id) id = crypto.randomUUID()
+    seenIds.add(id)
+
+    if (problems.length) {
+      errors.push({ row, message: problems.join('; ') })
+      return
+    }
+
+    const feelings = get(r, 'feelings')
+      .split(/[;,|]/)
+      .map((f) => f.trim().toLowerCase())
+      .filter(Boolean)
+    const context: Record<string, string[]> = {}
+    for (const d of dimensions) {
+      const col = mapping.context?.[d.id]
+      if (!col) continue
+      // Spelled like an existing option lands on it; anything else is kept
+      const values = (r[col] ?? '')
+        .split(LIST_SEPARATOR)
+        .map((v) => v.trim())
+        .filter(Boolean)
+        .map((v) => d.options.find((o) => o.toLowerCase() === v.toLowerCase()) ?? v)
+      if (values.length) context[d.id] = d.multiple ? Array.from(new Set(values)) : values.slice(0, 1)
+    }
+    logs.push({
+      id,
+      substance,
+      feelings: feelings.length ? Array.from(new Set(feelings)) : undefined,
+      dose,
+      dosage,
+      context: Object.keys(context).length ? context : undefined,
+      notes: get(r, 'notes') || undefined,
+      timestamp: timestamp!,
+    })
+  })
+
+  return { logs, errors }
+}
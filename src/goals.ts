@@ -0,0 +1,127 @@
+import { Goal, GoalPeriod, LogEntry, Substance, getDateKey } from './constants'
+import type { DayTotal } from './db'
+import { formatDose, normalizeDose } from './dosage'
+
+// Goals are checked against the same normalized doses the usage chart plots.
+// Days run from local midnight and weeks start on Monday.
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6]
+
+// Normalized amount and number of entries logged in one period. Entries
+// without a convertible dose count as entries but add no amount.
+export type GoalUsage = { used: number; entries: number }
+
+export type WeekResult = {
+  start: string // date key of the Monday
+  status: 'met' | 'missed' | 'open'
+  used: number
+  // Daily goals: days in the week the limit was broken
+  missedDays: number
+}
+
+export function periodStart(period: GoalPeriod, at: Date): Date {
+  const d = new Date(at.getFullYear(), at.getMonth(), at.getDate())
+  if (period === 'week') d.setDate(d.getDate() - ((d.getDay() + 6) % 7))
+  return d
+}
+
+const addDays = (d: Date, n: number) => new Date(d.getFullYear(), d.getMonth(), d.getDate() + n)
+
+export const goalAppliesOn = (goal: Goal, day: Date) => goal.period === 'week' || goal.weekdays.includes(day.getDay())
+
+export const isOver = (goal: Goal, usage: GoalUsage) => (goal.limit === 0 ? usage.entries > 0 : usage.used > goal.limit + 1e-9)
+
+// Per-day totals for one substance, keyed by getDateKey(), out of the
+// database's totals for all substances (see dailyTotals)
+export function dailyUsage(totals: DayTotal[], substance: Substance): Map<string, GoalUsage> {
+  const days = new Map<string, GoalUsage>()
+  for (const t of totals) {
+    if (t.substance === substance.name) days.set(t.day, { used: t.total ?? 0, entries: t.entries })
+  }
+  return days
+}
+
+function sumDays(daily: Map<string, GoalUsage>, start: Date, count: number): GoalUsage {
+  const total = { used: 0, entries: 0 }
+  for (let i = 0; i < count; i++) {
+    const day = daily.get(getDateKey(addDays(start, i).toISOString()))
+    if (!day) continue
+    total.used += day.used
+    total.entries += day.entries
+  }
+  return total
+}
+
+// Usage in the goal's period (today or this week) containing `at`
+export function usageInPeriod(goal: Goal, daily: Map<string, GoalUsage>, at: Date): GoalUsage {
+  return sumDays(daily, periodStart(goal.period, at), goal.period === 'week' ? 7 : 1)
+}
+
+// Goals that logging `entry` would break, given totals that cover its day and
+// week. An entry that adds nothing a goal counts (e.g. no dose against an
+// amount limit) never triggers a warning.
+export function goalsBrokenBy(goals: Goal[], substance: Substance | undefined, totals: DayTotal[], entry: LogEntry): Goal[] {
+  if (!substance) return []
+  const at = new Date(entry.timestamp)
+  const amount = (entry.dose ? normalizeDose(entry.dose, substance) : null) ?? 0
+  const daily = dailyUsage(totals, substance)
+  return goals.filter((g) => {
+    if (g.substanceId !== substance.id || !goalAppliesOn(g, at)) return false
+    if (g.limit > 0 && amount <= 0) return false
+    const before = usageInPeriod(g, daily, at)
+    return isOver(g, { used: before.used + amount, entries: before.entries + 1 })
+  })
+}
+
+// Pass/fail per week from the week containing `from` up to the current one.
+// A daily goal misses a week if any day it applies on went over.
+export function weeklyHistory(goal: Goal, daily: Map<string, GoalUsage>, from: Date, now = new Date()): WeekResult[] {
+  const results: WeekResult[] = []
+  const today = periodStart('day', now)
+  for (let week = periodStart('week', from); week <= today; week = addDays(week, 7)) {
+    const finished = addDays(week, 7) <= today
+    const usage = sumDays(daily, week, 7)
+    let missedDays = 0
+    if (goal.period === 'day') {
+      for (let i = 0; i < 7; i++) {
+        const day = addDays(week, i)
+        if (day > today || !goalAppliesOn(goal, day)) continue
+        if (isOver(goal, sumDays(daily, day, 1))) missedDays++
+      }
+    }
+    const missed = goal.period === 'week' ? isOver(goal, usage) : missedDays > 0
+    results.push({
+      start: getDateKey(week.toISOString()),
+      status: missed ? 'missed' : finished ? 'met' : 'open',
+      used: usage.used,
+      missedDays,
+    })
+  }
+  return results
+}
+
+function describeWeekdays(weekdays: number[]): string {
+  const days = [...weekdays].sort()
+  if (days.length === 7) return ''
+  if (days.join() === '1,2,3,4,5') return ' on weekdays'
+  if (days.join() === '0,6') return ' on weekends'
+  return ' on ' + days.map((d) => WEEKDAY_LABELS[d]).join(', ')
+}
+
+// e.g. "Alcohol: max 7 drinks per week", "No Nicotine on weekdays"
+export function describeGoal(goal: Goal, substance: Substance | undefined): string {
+  const name = substance?.name ?? 'Unknown substance'
+  const days = goal.period === 'day' ? describeWeekdays(goal.weekdays) : ''
+  if (goal.limit === 0) return `No ${name}${days}`
+  const amount = formatDose({ amount: goal.limit, unit: substance?.normalizedUnit ?? 'unit' })
+  return `${name}: max ${amount} per ${goal.period}${days}`
+}
+
+export const newGoal = (substanceId: string): Goal => ({
+  id: crypto.randomUUID(),
+  substanceId,
+  period: 'day',
+  limit: 0,
+  weekdays: ALL_DAYS,
+})
@@ -0,0 +1,79 @@
+import { getDateKey } from './constants'
+import type { DayTotal } from './db'
+
+// Data for the calendar heatmap: one cell per local day (keyed like
+// getDateKey), in columns of weeks starting on Monday.
+
+export type HeatmapDay = {
+  key: string // YYYY-MM-DD
+  entries: number
+  // 0..1 shade; days with entries but no convertible dose still get a little
+  level: number
+  // Substance whose use shades the cell
+  substance?: string
+  // Entries per substance that day, for the tooltip
+  bySubstance: { substance: string; entries: number; total: number | null }[]
+  // After today; drawn empty
+  future: boolean
+}
+
+// Columns per year shown, so a whole year always fits
+export const WEEKS_PER_YEAR = 53
+
+// Lightest shade for a day with any use, so it never looks like a blank one
+const MIN_LEVEL = 0.15
+
+const addDays = (d: Date, n: number) => new Date(d.getFullYear(), d.getMonth(), d.getDate() + n)
+
+// Days from the first cell of `weeks` columns up to and including today,
+// i.e. how far back to read totals
+export function heatmapSpan(weeks: number, today = new Date()): number {
+  return (weeks - 1) * 7 + ((today.getDay() + 6) % 7) + 1
+}
+
+// Weeks ending with the one containing `today`, oldest first, from per-day
+// totals (see dailyTotals). With several substances each day is shaded by
+// the one used most relative to its own heaviest day in the range, since
+// doses of different substances can't be added up.
+export function buildHeatmap(totals: DayTotal[], weeks: number, today = new Date()): HeatmapDay[][] {
+  const byDay = new Map<string, DayTotal[]>()
+  const peaks = new Map<string, number>()
+  for (const t of totals) {
+    const list = byDay.get(t.day)
+    if (list) list.push(t)
+    else byDay.set(t.day, [t])
+    if (t.total) peaks.set(t.substance, Math.max(peaks.get(t.substance) ?? 0, t.total))
+  }
+
+  const todayKey = getDateKey(today.toISOString())
+  const monday = addDays(today, -((today.getDay() + 6) % 7))
+  const start = addDays(monday, -(weeks - 1) * 7)
+  const result: HeatmapDay[][] = []
+  for (let w = 0; w < weeks; w++) {
+    const column: HeatmapDay[] = []
+    for (let d = 0; d < 7; d++) {
+      const key = getDateKey(addDays(start, w * 7 + d).toISOString())
+      const day = [...(byDay.get(key) || [])].sort((a, b) => b.entries - a.entries)
+      const entries = day.reduce((n, t) => n + t.entries, 0)
+      let level = 0
+      let shadedBy: string | undefined
+      for (const t of day) {
+        const share = t.total ? t.total / peaks.get(t.substance)! : 0
+        if (share > level) {
+          level = share
+          shadedBy = t.substance
+        }
+      }
+      column.push({
+        key,
+        entries,
+        level: entries ? Math.max(MIN_LEVEL, level) : 0,
+        substance: shadedBy ?? day[0]?.substance,
+        bySubstance: day.map(({ substance, entries, total }) => ({ substance, entries, total })),
+        future: key > todayKey,
+      })
+    }
+    result.push(column)
+  }
+  return result
+}
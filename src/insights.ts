@@ -0,0 +1,134 @@
+import type { FeelingCount, FeelingDose } from './db'
+import { FEELING_OPTIONS } from './constants'
+
+// Which feelings go with which substance. A cell's lift compares how often a
+// feeling was tagged with a substance to how often it would be if every
+// substance shared the feeling's overall rate: 2 means twice as often.
+
+// Below these, a number is shown but flagged as resting on few entries
+export const MIN_EXPECTED = 5
+export const MIN_DOSED = 5
+
+export type FeelingCell = {
+  feeling: string
+  substance: string
+  entries: number
+  expected: number
+  lift: number | null // null when nothing was expected
+  smallSample: boolean
+}
+
+export type FeelingMatrix = {
+  feelings: string[] // FEELING_OPTIONS that were tagged at all
+  substances: string[] // most entries first
+  cells: Record<string, Record<string, FeelingCell>> // [feeling][substance]
+}
+
+// `totals` is the number of use entries per substance, tagged or not
+export function feelingMatrix(counts: FeelingCount[], totals: Record<string, number>): FeelingMatrix {
+  const substances = Object.keys(totals)
+    .filter((s) => totals[s] > 0)
+    .sort((a, b) => totals[b] - totals[a])
+  const all = substances.reduce((sum, s) => sum + totals[s], 0)
+  const count = (feeling: string, substance: string) => counts.find((c) => c.feeling === feeling && c.substance === substance)?.entries ?? 0
+  const feelings = FEELING_OPTIONS.filter((f) => counts.some((c) => c.feeling === f))
+
+  const cells: FeelingMatrix['cells'] = {}
+  for (const feeling of feelings) {
+    const tagged = substances.reduce((sum, s) => sum + count(feeling, s), 0)
+    cells[feeling] = {}
+    for (const substance of substances) {
+      const entries = count(feeling, substance)
+      const expected = all ? (totals[substance] * tagged) / all : 0
+      cells[feeling][substance] = {
+        feeling,
+        substance,
+        entries,
+        expected,
+        lift: expected ? entries / expected : null,
+        smallSample: expected < MIN_EXPECTED,
+      }
+    }
+  }
+  return { feelings, substances, cells }
+}
+
+export type DoseLink = {
+  feeling: string
+  substance: string
+  // Dosed entries with the feeling, and how many were above the substance's average
+  withFeeling: number
+  highWith: number
+  // Share of the substance's other dosed entries above the average
+  highWithoutShare: number
+  smallSample: boolean
+}
+
+// For each substance and feeling, how often entries with the feeling had a
+// higher dose than usual: above the substance's average in the range. Not
+// the median, which equals the dose itself when most entries share one.
+export function doseLinks(doses: FeelingDose[]): DoseLink[] {
+  const bySubstance = new Map<string, { dose: number; feelings: string[] }[]>()
+  for (const d of doses) {
+    const list = bySubstance.get(d.substance) || []
+    list.push({ dose: d.dose, feelings: d.feelings ? JSON.parse(d.feelings) : [] })
+    bySubstance.set(d.substance, list)
+  }
+
+  const links: DoseLink[] = []
+  for (const [substance, entries] of bySubstance) {
+    const usual = entries.reduce((sum, e) => sum + e.dose, 0) / entries.length
+    for (const feeling of FEELING_OPTIONS) {
+      const withFeeling = entries.filter((e) => e.feelings.includes(feeling))
+      const without = entries.filter((e) => !e.feelings.includes(feeling))
+      if (!withFeeling.length || !without.length) continue
+      links.push({
+        feeling,
+        substance,
+        withFeeling: withFeeling.length,
+        highWith: withFeeling.filter((e) => e.dose > usual).length,
+        highWithoutShare: without.filter((e) => e.dose > usual).length / without.length,
+        smallSample: withFeeling.length < MIN_DOSED || without.length < MIN_DOSED,
+      })
+    }
+  }
+  return links
+}
+
+// "3×", "1.5×"
+export const formatLift = (lift: number) => `${lift >= 10 ? Math.round(lift) : +lift.toFixed(1)}×`
+
+const percent = (share: number) => `${Math.round(share * 100)}%`
+
+// The strongest links written out, skipping ones resting on few entries
+export function findings(matrix: FeelingMatrix, links: DoseLink[], limit = 5): string[] {
+  const out: { text: string; strength: number }[] = []
+  // With one substance every lift is 1; there is nothing to compare against
+  if (matrix.substances.length > 1) {
+    for (const feeling of matrix.feelings) {
+      for (const substance of matrix.substances) {
+        const cell = matrix.cells[feeling][substance]
+        if (cell.smallSample || cell.lift === null) continue
+        if (cell.lift >= 1.5 && cell.entries >= 3) {
+          out.push({ text: `'${feeling}' appears ${formatLift(cell.lift)} more often with ${substance}`, strength: cell.lift })
+        } else if (cell.lift <= 0.5) {
+          out.push({ text: `'${feeling}' rarely goes with ${substance} (${formatLift(cell.lift)} the usual rate)`, strength: 1 / Math.max(cell.lift, 0.1) })
+        }
+      }
+    }
+  }
+  for (const l of links) {
+    if (l.smallSample) continue
+    const share = l.highWith / l.withFeeling
+    if (share - l.highWithoutShare >= 0.25) {
+      out.push({
+        text: `${l.substance} doses are higher than usual ${percent(share)} of the time with '${l.feeling}', against ${percent(l.highWithoutShare)} without it`,
+        strength: 1 + (share - l.highWithoutShare) * 4,
+      })
+    }
+  }
+  return out
+    .sort((a, b) => b.strength - a.strength)
+    .slice(0, limit)
+    .map((f) => f.text)
+}
@@ -0,0 +1,70 @@
+// Append-only journal of changes made since the last saved snapshot of the
+// database. Each entry holds the SQL statements of one change, numbered in
+// the order they were applied, so a tab that closes before the next snapshot
+// loses nothing: the entries are replayed on top of the snapshot at startup.
+// Other open tabs read the same entries to catch up with each change.
+import localforage from 'localforage'
+import { PassphraseKey, encrypt, decryptWithKey } from './crypto'
+
+export type Statement = { sql: string; params: (string | number | null)[] }
+
+export type JournalEntry = { seq: number; statements: Statement[] }
+
+// A separate database so the snapshot store is never upgraded underneath us
+const store = localforage.createInstance({ name: 'subtrack_journal_v1' })
+
+// Zero-padded so keys sort in sequence order
+const keyOf = (seq: number) => `op-${String(seq).padStart(12, '0')}`
+const seqOf = (key: string) => Number(key.slice(3))
+// Position of the latest snapshot, wipe or replace; entries carry the rest
+const HEAD_KEY = 'head'
+
+// Entries are encrypted with the store's key when encryption is enabled
+export async function appendEntry(entry: JournalEntry, key: PassphraseKey | null) {
+  const json = JSON.stringify(entry.statements)
+  const data = key ? (await encrypt(new TextEncoder().encode(json), key)).buffer : json
+  await store.setItem(keyOf(entry.seq), data)
+}
+
+// Entries after `seq`, oldest first
+export async function readEntries(after: number, key: PassphraseKey | null): Promise<JournalEntry[]> {
+  const keys = (await store.keys()).filter((k) => k.startsWith('op-') && seqOf(k) > after).sort()
+  const entries: JournalEntry[] = []
+  for (const k of keys) {
+    const data = await store.getItem<string | ArrayBuffer | Uint8Array>(k)
+    if (data === null) continue
+    let json: string
+    if (typeof data === 'string') {
+      json = data
+    } else {
+      if (!key) throw new Error(`Journal entry ${k} is encrypted but no passphrase is set`)
+      json = new TextDecoder().decode(await decryptWithKey(new Uint8Array(data), key))
+    }
+    entries.push({ seq: seqOf(k), statements: JSON.parse(json) })
+  }
+  return entries
+}
+
+// Drop entries a saved snapshot already includes
+export async function pruneEntries(upTo: number) {
+  const keys = (await store.keys()).filter((k) => k.startsWith('op-') && seqOf(k) <= upTo)
+  for (const k of keys) await store.removeItem(k)
+}
+
+// Drop every entry. The head is kept, so positions never go backwards.
+export async function clearJournal() {
+  await pruneEntries(Infinity)
+}
+
+// The latest position any tab has reached in storage
+export async function readHead(): Promise<number> {
+  const keys = await store.keys()
+  const head = Number(await store.getItem<number>(HEAD_KEY)) || 0
+  return keys.filter((k) => k.startsWith('op-')).reduce((max, k) => Math.max(max, seqOf(k)), head)
+}
+
+// Record a position reached without a journal entry (a snapshot that will
+// prune the entries, a wipe or a replaced DB)
+export async function markHead(seq: number) {
+  await store.setItem(HEAD_KEY, seq)
+}
@@ -0,0 +1,408 @@
+import { parseDosage, canonicalUnit, inferRoute } from './dosage'
+
+// Versioned schema migrations for the SQLite store.
+//
+// The schema version lives in `PRAGMA user_version`. Each migration moves the
+// database from `version - 1` to `version`; they run in order, each inside its
+// own transaction, both on startup and when a file is imported. Never edit a
+// migration that has shipped — append a new one instead, otherwise databases
+// that already ran the old step will drift from fresh ones.
+
+export type Migration = {
+  version: number
+  description: string
+  up: (db: any) => void
+}
+
+// Starting context dimensions; users can rename, extend or remove them.
+const V7_SEED_DIMENSIONS = [
+  { id: 'setting', name: 'Setting', multiple: 0, options: ['home', 'work', 'party', 'bar', 'outdoors', 'car'] },
+  { id: 'company', name: 'Company', multiple: 0, options: ['alone', 'partner', 'friends', 'family', 'strangers'] },
+  { id: 'activity', name: 'Activity', multiple: 1, options: ['relaxing', 'socializing', 'working', 'eating', 'watching TV', 'gaming'] },
+  { id: 'tags', name: 'Tags', multiple: 1, options: [] as string[] },
+]
+
+// Read all rows of a query as plain objects
+function selectAll(db: any, sql: string): any[] {
+  const res = db.exec(sql)
+  if (!res || res.length === 0) return []
+  const cols = res[0].columns as string[]
+  return res[0].values.map((row: any[]) => {
+    const obj: any = {}
+    cols.forEach((c, i) => (obj[c] = row[i]))
+    return obj
+  })
+}
+
+// Snapshot of the built-in substances as they shipped before substances
+// became user-editable. Kept here (not in constants.ts) so migration 2 stays
+// identical for every database that runs it.
+const V2_SEED_SUBSTANCES = [
+  {
+    id: 'marijuana',
+    name: 'Marijuana',
+    color: '#8bd99b',
+    presets: [
+      { label: '1mg', description: 'Micro (edible)', weight: 1 },
+      { label: '2.5mg', description: 'Micro (edible)', weight: 2.5 },
+      { label: '5mg', description: 'Light (edible)', weight: 5 },
+      { label: '7.5mg', description: 'Standard (edible)', weight: 7.5 },
+      { label: '10mg', description: 'Standard (edible)', weight: 10 },
+      { label: '20mg', description: 'Strong (edible)', weight: 20 },
+      { label: '1 hit', description: 'Single hit (concentrate)', weight: 8 },
+      { label: '2 hits', description: '2 hits (concentrate)', weight: 16 },
+      { label: '3 hits', description: '3 hits (concentrate)', weight: 24 },
+    ],
+  },
+  {
+    id: 'alcohol',
+    name: 'Alcohol',
+    color: '#ff8b8b',
+    presets: [
+      { label: '1 drink', description: 'Single standard drink', weight: 1 },
+      { label: '2 drinks', description: 'Two standard drinks', weight: 2 },
+      { label: '3 drinks', description: 'Three standard drinks', weight: 3 },
+      { label: '4 drinks', description: 'Four standard drinks', weight: 4 },
+    ],
+  },
+  {
+    id: 'nicotine',
+    name: 'Nicotine',
+    color: '#bdbdf6',
+    presets: [
+      { label: '2mg', description: 'oral Nicotine', weight: 2 },
+      { label: '3mg', description: 'oral Nicotine', weight: 3 },
+      { label: '4mg', description: 'oral Nicotine', weight: 4 },
+      { label: '6mg', description: 'oral Nicotine', weight: 6 },
+      { label: '1 cigarette', description: 'Single cigarette', weight: 2 },
+    ],
+  },
+]
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'create logs table',
+    up: (db) => {
+      // IF NOT EXISTS: databases created before migrations existed already
+      // have this table but report user_version 0.
+      db.run(
+        `CREATE TABLE IF NOT EXISTS logs (
+          id TEXT PRIMARY KEY,
+          substance TEXT NOT NULL,
+          feelings TEXT,
+          dosage TEXT,
+          timestamp TEXT NOT NULL
+        );`
+      )
+    },
+  },
+  {
+    version: 2,
+    description: 'user-defined substances',
+    up: (db) => {
+      db.run(
+        `CREATE TABLE substances (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL UNIQUE,
+          color TEXT NOT NULL,
+          archived INTEGER NOT NULL DEFAULT 0,
+          sort_order INTEGER NOT NULL DEFAULT 0,
+          presets TEXT NOT NULL DEFAULT '[]'
+        );`
+      )
+      const insert = db.prepare('INSERT INTO substances (id, name, color, archived, sort_order, presets) VALUES (?, ?, ?, 0, ?, ?)')
+      try {
+        V2_SEED_SUBSTANCES.forEach((s, i) => {
+          insert.run([s.id, s.name, s.color, i, JSON.stringify(s.presets)])
+        })
+        // Imported files may contain substances that were never built in;
+        // give them a row so they stay visible and editable.
+        const res = db.exec('SELECT DISTINCT substance FROM logs WHERE substance NOT IN (SELECT name FROM substances)')
+        const extra: string[] = res.length ? res[0].values.map((v: any[]) => String(v[0])) : []
+        extra.forEach((name, i) => {
+          insert.run([crypto.randomUUID(), name, '#9fb6ff', V2_SEED_SUBSTANCES.length + i, '[]'])
+        })
+      } finally {
+        insert.free()
+      }
+    },
+  },
+  {
+    version: 3,
+    description: 'structured dosage (amount, unit, route)',
+    up: (db) => {
+      db.run('ALTER TABLE logs ADD COLUMN dose_amount REAL')
+      db.run('ALTER TABLE logs ADD COLUMN dose_unit TEXT')
+      db.run('ALTER TABLE logs ADD COLUMN dose_route TEXT')
+      db.run("ALTER TABLE substances ADD COLUMN normalized_unit TEXT NOT NULL DEFAULT 'unit'")
+      db.run(
+        `CREATE TABLE substance_units (
+          substance_id TEXT NOT NULL REFERENCES substances(id),
+          unit TEXT NOT NULL,
+          factor REAL NOT NULL,
+          PRIMARY KEY (substance_id, unit)
+        );`
+      )
+
+      // Presets were { label, description, weight }. Derive each preset's
+      // amount/unit from its label and each unit's conversion factor from
+      // the old weight, e.g. "2 hits" weight 16 -> hit = 8.
+      const presetsBySubstance: Record<string, { label: string; amount: number; unit: string; route?: string }[]> = {}
+      const unitsBySubstance: Record<string, Map<string, number>> = {}
+      for (const sub of selectAll(db, 'SELECT id, name, presets FROM substances')) {
+        const old: { label: string; description: string; weight: number }[] = JSON.parse(sub.presets || '[]')
+        const units = new Map<string, number>()
+        const presets = old.map((p) => {
+          const parsed = parseDosage(p.label)
+          let amount = 1
+          let unit = canonicalUnit(p.label)
+          if (parsed && parsed.unit && parsed.amount > 0) {
+            amount = parsed.amount
+            unit = parsed.unit
+          }
+          const factor = (Number(p.weight) || 0) / amount
+          if (factor > 0 && !units.has(unit)) units.set(unit, factor)
+          const route = inferRoute(`${p.label} ${p.description}`)
+          return { label: p.label, description: p.description, amount, unit, ...(route ? { route } : {}) }
+        })
+        const base = [...units.entries()].find(([, f]) => f === 1)
+        const normalized = base ? base[0] : 'unit'
+        if (!units.has(normalized)) units.set(normalized, 1)
+
+        db.run('UPDATE substances SET presets = ?, normalized_unit = ? WHERE id = ?', [JSON.stringify(presets), normalized, sub.id])
+        for (const [unit, factor] of units) {
+          db.run('INSERT INTO substance_units (substance_id, unit, factor) VALUES (?, ?, ?)', [sub.id, unit, factor])
+        }
+        presetsBySubstance[sub.name] = presets
+        unitsBySubstance[sub.name] = units
+      }
+
+      // Parse free-text dosages. Rows that parse lose the text; rows that
+      // don't keep it in `dosage` so the app can flag them for review.
+      const update = db.prepare('UPDATE logs SET dose_amount = ?, dose_unit = ?, dose_route = ?, dosage = NULL WHERE id = ?')
+      try {
+        for (const log of selectAll(db, "SELECT id, substance, dosage FROM logs WHERE dosage IS NOT NULL AND dosage != ''")) {
+          const text = String(log.dosage)
+          const preset = (presetsBySubstance[log.substance] || []).find((p) => p.label === text)
+          if (preset) {
+            update.run([preset.amount, preset.unit, preset.route ?? null, log.id])
+            continue
+          }
+          const parsed = parseDosage(text)
+          if (!parsed) continue
+          const units = unitsBySubstance[log.substance]
+          // A bare number used to be plotted as-is, i.e. in the normalized unit
+          const unit = parsed.unit ?? [...(units || [])].find(([, f]) => f === 1)?.[0]
+          if (!unit) continue
+          update.run([parsed.amount, unit, inferRoute(text) ?? null, log.id])
+        }
+      } finally {
+        update.free()
+      }
+    },
+  },
+  {
+    version: 4,
+    description: 'usage goals',
+    up: (db) => {
+      db.run(`CREATE TABLE goals (
+        id TEXT PRIMARY KEY,
+        substance_id TEXT NOT NULL REFERENCES substances(id),
+        period TEXT NOT NULL CHECK (period IN ('day', 'week')),
+        max_amount REAL NOT NULL,
+        weekdays TEXT NOT NULL DEFAULT '[0,1,2,3,4,5,6]',
+        sort_order INTEGER NOT NULL DEFAULT 0
+      )`)
+    },
+  },
+  {
+    version: 5,
+    description: 'intentional break start dates',
+    up: (db) => {
+      db.run(`CREATE TABLE breaks (
+        id TEXT PRIMARY KEY,
+        substance_id TEXT NOT NULL REFERENCES substances(id),
+        start_date TEXT NOT NULL
+      )`)
+    },
+  },
+  {
+    version: 6,
+    description: 'craving entries',
+    up: (db) => {
+      db.run(`CREATE TABLE cravings (
+        id TEXT PRIMARY KEY,
+        substance TEXT NOT NULL,
+        intensity INTEGER NOT NULL CHECK (intensity BETWEEN 1 AND 10),
+        feelings TEXT,
+        trigger_text TEXT,
+        outcome TEXT NOT NULL CHECK (outcome IN ('resisted', 'used', 'delayed')),
+        timestamp TEXT NOT NULL
+      )`)
+    },
+  },
+  {
+    version: 7,
+    description: 'context dimensions and per-entry context',
+    up: (db) => {
+      db.run(`CREATE TABLE context_dimensions (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE,
+        multiple INTEGER NOT NULL DEFAULT 0,
+        options TEXT NOT NULL DEFAULT '[]',
+        sort_order INTEGER NOT NULL DEFAULT 0
+      )`)
+      // JSON object of dimension id -> chosen values, like `feelings`
+      db.run('ALTER TABLE logs ADD COLUMN context TEXT')
+      const insert = db.prepare('INSERT INTO context_dimensions (id, name, multiple, options, sort_order) VALUES (?, ?, ?, ?, ?)')
+      try {
+        V7_SEED_DIMENSIONS.forEach((d, i) => insert.run([d.id, d.name, d.multiple, JSON.stringify(d.options), i]))
+      } finally {
+        insert.free()
+      }
+    },
+  },
+  {
+    version: 8,
+    description: 'entry notes and full-text search',
+    up: (db) => {
+      db.run('ALTER TABLE logs ADD COLUMN notes TEXT')
+      // FTS4 (sql.js has no FTS5). The index keeps its own copy of the text,
+      // keyed by the entry's rowid, and triggers keep it in step with every
+      // write, including imports and merges.
+      const logDoc = (p: string) =>
+        `${p}substance, COALESCE(${p}dosage, '') || ' ' || COALESCE(${p}dose_amount || ' ' || ${p}dose_unit, '') || ' ' || COALESCE(${p}dose_route, ''), ` +
+        `COALESCE(${p}feelings, ''), COALESCE(${p}notes, '')`
+      db.run('CREATE VIRTUAL TABLE logs_fts USING fts4(substance, dosage, feelings, notes, tokenize=unicode61)')
+      db.run(`INSERT INTO logs_fts (docid, substance, dosage, feelings, notes) SELECT rowid, ${logDoc('')} FROM logs`)
+      db.run(`CREATE TRIGGER logs_fts_insert AFTER INSERT ON logs BEGIN
+        INSERT INTO logs_fts (docid, substance, dosage, feelings, notes) VALUES (new.rowid, ${logDoc('new.')});
+      END`)
+      db.run(`CREATE TRIGGER logs_fts_update AFTER UPDATE ON logs BEGIN
+        DELETE FROM logs_fts WHERE docid = old.rowid;
+        INSERT INTO logs_fts (docid, substance, dosage, feelings, notes) VALUES (new.rowid, ${logDoc('new.')});
+      END`)
+      db.run('CREATE TRIGGER logs_fts_delete AFTER DELETE ON logs BEGIN DELETE FROM logs_fts WHERE docid = old.rowid; END')
+
+      // Cravings are searchable too; their trigger text plays the part of notes
+      db.run('CREATE VIRTUAL TABLE cravings_fts USING fts4(substance, feelings, notes, tokenize=unicode61)')
+      db.run(`INSERT INTO cravings_fts (docid, substance, feelings, notes)
+        SELECT rowid, substance, COALESCE(feelings, ''), COALESCE(trigger_text, '') FROM cravings`)
+      db.run(`CREATE TRIGGER cravings_fts_insert AFTER INSERT ON cravings BEGIN
+        INSERT INTO cravings_fts (docid, substance, feelings, notes) VALUES (new.rowid, new.substance, COALESCE(new.feelings, ''), COALESCE(new.trigger_text, ''));
+      END`)
+      db.run(`CREATE TRIGGER cravings_fts_update AFTER UPDATE ON cravings BEGIN
+        DELETE FROM cravings_fts WHERE docid = old.rowid;
+        INSERT INTO cravings_fts (docid, substance, feelings, notes) VALUES (new.rowid, new.substance, COALESCE(new.feelings, ''), COALESCE(new.trigger_text, ''));
+      END`)
+      db.run('CREATE TRIGGER cravings_fts_delete AFTER DELETE ON cravings BEGIN DELETE FROM cravings_fts WHERE docid = old.rowid; END')
+    },
+  },
+  {
+    version: 9,
+    description: 'indexes for History queries',
+    up: (db) => {
+      // History pages are read newest first with (timestamp, id) as the
+      // keyset, optionally narrowed to a few substances
+      db.run('CREATE INDEX idx_logs_timestamp ON logs (timestamp, id)')
+      db.run('CREATE INDEX idx_logs_substance ON logs (substance, timestamp)')
+      db.run('CREATE INDEX idx_cravings_timestamp ON cravings (timestamp, id)')
+      db.run('CREATE INDEX idx_cravings_substance ON cravings (substance, timestamp)')
+    },
+  },
+  {
+    version: 10,
+    description: 'journal position of the saved snapshot',
+    up: (db) => {
+      // Last journal entry included in this copy of the database; entries
+      // after it are replayed when the saved copy is loaded (see journal.ts)
+      db.run('CREATE TABLE snapshot_state (id INTEGER PRIMARY KEY CHECK (id = 1), journal_seq INTEGER NOT NULL)')
+      db.run('INSERT INTO snapshot_state (id, journal_seq) VALUES (1, 0)')
+    },
+  },
+  {
+    version: 11,
+    description: 'trash and log revisions',
+    up: (db) => {
+      // Deleted entries keep their row until purged from the trash
+      db.run('ALTER TABLE logs ADD COLUMN deleted_at TEXT')
+      db.run('ALTER TABLE cravings ADD COLUMN deleted_at TEXT')
+      // A log's values as they were before each edit, as JSON
+      db.run(`CREATE TABLE log_revisions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        log_id TEXT NOT NULL,
+        edited_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      )`)
+      db.run('CREATE INDEX idx_log_revisions_log ON log_revisions (log_id, edited_at)')
+    },
+  },
+  {
+    version: 12,
+    description: 'quick-log templates',
+    up: (db) => {
+      // Saved combinations logged with one tap from above the New Log form
+      db.run(`CREATE TABLE log_templates (
+        id TEXT PRIMARY KEY,
+        label TEXT NOT NULL,
+        substance_id TEXT NOT NULL REFERENCES substances(id),
+        dose_amount REAL,
+        dose_unit TEXT,
+        dose_route TEXT,
+        feelings TEXT,
+        context TEXT,
+        sort_order INTEGER NOT NULL DEFAULT 0
+      )`)
+    },
+  },
+  {
+    version: 13,
+    description: 'follow-up check-ins',
+    up: (db) => {
+      // JSON: when the check-in is due and, once done, how it went
+      db.run('ALTER TABLE logs ADD COLUMN follow_up TEXT')
+    },
+  },
+]
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version
+
+// Thrown when a database was written by a newer app version than this one.
+export class SchemaVersionError extends Error {
+  constructor(public readonly found: number, public readonly supported: number) {
+    super(
+      `This data was created by a newer version of Sub-Track (schema v${found}; this app supports up to v${supported}). ` +
+        'Please update the app before loading it.'
+    )
+    this.name = 'SchemaVersionError'
+  }
+}
+
+export function getUserVersion(db: any): number {
+  const res = db.exec('PRAGMA user_version')
+  if (!res || res.length === 0) return 0
+  return Number(res[0].values[0][0]) || 0
+}
+
+// Bring `db` up to SCHEMA_VERSION. Throws SchemaVersionError (without touching
+// the database) if it is newer than this app understands.
+export function migrate(db: any) {
+  const current = getUserVersion(db)
+  if (current > SCHEMA_VERSION) throw new SchemaVersionError(current, SCHEMA_VERSION)
+
+  for (const m of MIGRATIONS) {
+    if (m.version <= current) continue
+    db.run('BEGIN')
+    try {
+      m.up(db)
+      // PRAGMA does not accept bound parameters; version is a trusted integer
+      db.run(`PRAGMA user_version = ${m.version}`)
+      db.run('COMMIT')
+    } catch (err) {
+      db.run('ROLLBACK')
+      throw err
+    }
+    console.debug('db: migrated to v' + m.version + ' (' + m.description + ')')
+  }
+}
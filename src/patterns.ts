@@ -0,0 +1,107 @@
+import type { HourOfWeekCount } from './db'
+
+// When use happens: entries by hour of the week, and the windows where a
+// substance is used far more often than at other times. Weeks start on Monday.
+
+export const DAY_NAMES = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday']
+
+// SQLite numbers weekdays from Sunday
+const dayIndex = (weekday: number) => (weekday + 6) % 7
+
+export type UsagePatterns = {
+  // Entries per [day][hour], Monday first
+  grid: number[][]
+  // Per substance: entries per hour of day, and per weekday (Monday first)
+  byHour: Record<string, number[]>
+  byWeekday: Record<string, number[]>
+  total: number
+}
+
+export function buildPatterns(counts: HourOfWeekCount[]): UsagePatterns {
+  const grid = DAY_NAMES.map(() => new Array(24).fill(0))
+  const byHour: Record<string, number[]> = {}
+  const byWeekday: Record<string, number[]> = {}
+  let total = 0
+  for (const c of counts) {
+    const day = dayIndex(c.weekday)
+    grid[day][c.hour] += c.entries
+    ;(byHour[c.substance] ||= new Array(24).fill(0))[c.hour] += c.entries
+    ;(byWeekday[c.substance] ||= new Array(7).fill(0))[day] += c.entries
+    total += c.entries
+  }
+  return { grid, byHour, byWeekday, total }
+}
+
+// "10 pm"
+export function formatHour(hour: number): string {
+  const h = ((hour % 24) + 24) % 24
+  if (h === 0) return '12 am'
+  if (h === 12) return '12 pm'
+  return h < 12 ? `${h} am` : `${h - 12} pm`
+}
+
+export type PeakWindow = {
+  substance: string
+  // A day name, or 'weekdays' / 'weekends'
+  days: string
+  // Middle of the three-hour window
+  hour: number
+  entries: number
+  total: number
+}
+
+const DAY_GROUPS: { name: string; days: number[] }[] = [
+  ...DAY_NAMES.map((name, i) => ({ name, days: [i] })),
+  { name: 'weekdays', days: [0, 1, 2, 3, 4] },
+  { name: 'weekends', days: [5, 6] },
+]
+
+// A window needs this many entries, and this many times its share of a
+// week's hours, to count as a peak
+const MIN_PEAK_ENTRIES = 3
+const MIN_PEAK_LIFT = 2
+// A group of days wins over its busiest single day when it keeps this much
+// of that day's rate, so "weekdays around 3 pm" beats "Tuesday around 3 pm"
+const GROUP_PREFERENCE = 0.8
+
+// The busiest three-hour window for each substance, compared per day so a
+// single evening can stand out against a whole working week. Substances
+// without a clear peak are left out; the busiest peaks come first.
+export function peakWindows(counts: HourOfWeekCount[], limit = 3): PeakWindow[] {
+  const cells: Record<string, number[][]> = {}
+  const totals: Record<string, number> = {}
+  for (const c of counts) {
+    const grid = (cells[c.substance] ||= DAY_NAMES.map(() => new Array(24).fill(0)))
+    grid[dayIndex(c.weekday)][c.hour] += c.entries
+    totals[c.substance] = (totals[c.substance] ?? 0) + c.entries
+  }
+
+  const peaks: PeakWindow[] = []
+  for (const [substance, grid] of Object.entries(cells)) {
+    const total = totals[substance]
+    let best: { group: (typeof DAY_GROUPS)[number]; hour: number; entries: number; rate: number; middle: number } | null = null
+    for (const group of DAY_GROUPS) {
+      for (let hour = 0; hour < 24; hour++) {
+        const entries = group.days.reduce((sum, d) => sum + grid[d][(hour + 23) % 24] + grid[d][hour] + grid[d][(hour + 1) % 24], 0)
+        const expected = (total * group.days.length * 3) / (7 * 24)
+        if (entries < MIN_PEAK_ENTRIES || entries < expected * MIN_PEAK_LIFT) continue
+        const rate = entries / group.days.length
+        // Between equally busy windows, centre on the busiest hour
+        const middle = group.days.reduce((sum, d) => sum + grid[d][hour], 0)
+        let better = !best
+        if (best && group.days.length > best.group.days.length) better = rate >= best.rate * GROUP_PREFERENCE
+        else if (best && group.days.length < best.group.days.length) better = rate * GROUP_PREFERENCE > best.rate
+        else if (best) better = rate > best.rate || (rate === best.rate && middle > best.middle)
+        if (better) best = { group, hour, entries, rate, middle }
+      }
+    }
+    if (best) peaks.push({ substance, days: best.group.name, hour: best.hour, entries: best.entries, total })
+  }
+  return peaks.sort((a, b) => b.entries - a.entries).slice(0, limit)
+}
+
+// "Alcohol: Fridays around 10 pm (12 of 40 entries)"
+export function describePeak(p: PeakWindow): string {
+  const when = p.days === 'weekdays' || p.days === 'weekends' ? p.days : `${p.days}s`
+  return `${p.substance}: ${when} around ${formatHour(p.hour)} (${p.entries} of ${p.total} ${p.total === 1 ? 'entry' : 'entries'})`
+}
@@ -0,0 +1,235 @@
+import localforage from 'localforage'
+import { Break, Goal, LogEntry, Substance, getDateKey } from './constants'
+import type { DayTotal, UseDay } from './db'
+import { formatDose } from './dosage'
+import { dailyUsage, periodStart, usageInPeriod } from './goals'
+import { streakSummary } from './streaks'
+
+// Local notifications. The app works out what to remind about from queries
+// on the log and hands the list to the service worker, which shows each one when it
+// falls due. Nothing leaves the device. Settings are kept per device next to
+// the DB, like the app lock, and the worker keeps its own copy of the list
+// (see public/sw.js) because it can't read the DB.
+const REMINDERS_KEY = 'subtrack_reminders_v1'
+
+export type ReminderKind = 'daily' | 'follow-up' | 'limit' | 'milestone'
+
+export type ReminderSettings = {
+  enabled: boolean
+  daily: boolean
+  dailyTime: string // HH:MM, local
+  followUps: boolean
+  limits: boolean
+  milestones: boolean
+  // Show only "You have a reminder" instead of substances and amounts
+  discreet: boolean
+  // Ids of single reminders the user cancelled
+  cancelled: string[]
+}
+
+export type Reminder = {
+  id: string // stable, so a reminder is only shown once however often it's planned
+  kind: ReminderKind
+  at: number // epoch ms
+  title: string
+  body: string
+}
+
+export type NotificationState = NotificationPermission | 'unsupported'
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enabled: false,
+  daily: true,
+  dailyTime: '20:00',
+  followUps: true,
+  limits: true,
+  milestones: true,
+  discreet: false,
+  cancelled: [],
+}
+
+// Warn once a week when this share of a weekly limit has been used
+export const LIMIT_WARNING_SHARE = 0.8
+
+// Use-free days worth a message
+export const STREAK_MILESTONES = [3, 7, 14, 30, 60, 90, 180, 365]
+
+// Daily reminders are planned this far ahead, so they keep coming for a
+// while without the app being opened
+const DAILY_DAYS_AHEAD = 7
+
+// Milestones are announced at this hour, local
+const MILESTONE_HOUR = 9
+
+// Only the most recent cancellations are kept; older ones are long past
+const MAX_CANCELLED = 200
+
+// How long to wait for the service worker before giving up; without one
+// (e.g. the first visit, or a private window) it never becomes ready
+const WORKER_TIMEOUT_MS = 3000
+
+const APP_NAME = 'Sub-Track'
+
+export async function getReminderSettings(): Promise<ReminderSettings> {
+  const stored = await localforage.getItem<Partial<ReminderSettings>>(REMINDERS_KEY)
+  return { ...DEFAULT_REMINDER_SETTINGS, ...stored }
+}
+
+export async function saveReminderSettings(settings: ReminderSettings) {
+  await localforage.setItem(REMINDERS_KEY, { ...settings, cancelled: settings.cancelled.slice(-MAX_CANCELLED) })
+}
+
+export function notificationState(): NotificationState {
+  if (!('Notification' in window) || !('serviceWorker' in navigator)) return 'unsupported'
+  return Notification.permission
+}
+
+export async function requestNotificationPermission(): Promise<NotificationState> {
+  if (notificationState() === 'unsupported') return 'unsupported'
+  return Notification.requestPermission()
+}
+
+const at = (day: Date, hours: number, minutes = 0) => new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes).getTime()
+
+const addDays = (d: Date, n: number) => new Date(d.getFullYear(), d.getMonth(), d.getDate() + n)
+
+const timeOfDay = (iso: string) => new Intl.DateTimeFormat('en-US', { hour: 'numeric', minute: '2-digit' }).format(new Date(iso))
+
+// What the plan is made from, read from the database
+export type ReminderData = {
+  // Latest use per day and substance, as for streaks
+  useDays: UseDay[]
+  // Entries with a check-in still to do
+  followUps: LogEntry[]
+  // Use per day and substance since Monday
+  weekTotals: DayTotal[]
+  substances: Substance[]
+  goals: Goal[]
+  breaks: Break[]
+}
+
+// Everything to remind about from `now` on, soonest first. Weekly limit
+// warnings are due straight away; the worker shows each id only once.
+export function planReminders(settings: ReminderSettings, data: ReminderData, now = new Date()): Reminder[] {
+  if (!settings.enabled) return []
+  const out: Reminder[] = []
+
+  if (settings.daily) {
+    const [h, m] = settings.dailyTime.split(':').map(Number)
+    // Not today if something was logged already
+    const today = getDateKey(now.toISOString())
+    const first = data.useDays.some((d) => d.day === today) ? 1 : 0
+    for (let i = first; i <= DAILY_DAYS_AHEAD; i++) {
+      const day = addDays(now, i)
+      out.push({
+        id: `daily:${getDateKey(day.toISOString())}`,
+        kind: 'daily',
+        at: at(day, h, m),
+        title: 'Daily check-in',
+        body: 'Take a moment to log today, or note that you had nothing to log.',
+      })
+    }
+  }
+
+  if (settings.followUps) {
+    for (const l of data.followUps) {
+      if (!l.followUp) continue
+      out.push({
+        id: `follow-up:${l.id}`,
+        kind: 'follow-up',
+        at: new Date(l.followUp.dueAt).getTime(),
+        title: `How are you feeling after ${l.substance}?`,
+        body: `You asked to check in on your entry from ${timeOfDay(l.timestamp)}.`,
+      })
+    }
+  }
+
+  if (settings.limits) {
+    for (const goal of data.goals) {
+      const substance = data.substances.find((s) => s.id === goal.substanceId)
+      if (goal.period !== 'week' || goal.limit === 0 || !substance || substance.archived) continue
+      const used = usageInPeriod(goal, dailyUsage(data.weekTotals, substance), now).used
+      if (used < goal.limit * LIMIT_WARNING_SHARE || used > goal.limit) continue
+      out.push({
+        id: `limit:${goal.id}:${getDateKey(periodStart('week', now).toISOString())}`,
+        kind: 'limit',
+        at: now.getTime(),
+        title: `Close to your ${substance.name} limit`,
+        body: `${Math.round(used * 10) / 10} of ${formatDose({ amount: goal.limit, unit: substance.normalizedUnit })} used this week.`,
+      })
+    }
+  }
+
+  if (settings.milestones) {
+    for (const substance of data.substances) {
+      if (substance.archived) continue
+      const timestamps = data.useDays.filter((d) => d.substance === substance.name).map((d) => d.last)
+      const breakDates = data.breaks.filter((b) => b.substanceId === substance.id).map((b) => b.startDate)
+      const summary = streakSummary(timestamps, breakDates, now)
+      if (!summary.lastUse || !summary.currentStart) continue
+      // Day N of a streak starts N - 1 days after its first day
+      const start = new Date(summary.currentStart + 'T00:00')
+      for (const days of STREAK_MILESTONES) {
+        const due = at(addDays(start, days - 1), MILESTONE_HOUR)
+        if (due < now.getTime()) continue
+        out.push({
+          id: `milestone:${substance.id}:${summary.currentStart}:${days}`,
+          kind: 'milestone',
+          at: due,
+          title: `${days} days without ${substance.name}`,
+          body: 'Well done. Your streak is in the Streaks section.',
+        })
+        break
+      }
+    }
+  }
+
+  const cancelled = new Set(settings.cancelled)
+  return out
+    .filter((r) => !cancelled.has(r.id) && (r.kind === 'limit' || r.at >= now.getTime()))
+    .map((r) => (settings.discreet ? { ...r, title: APP_NAME, body: 'You have a reminder.' } : r))
+    .sort((a, b) => a.at - b.at)
+}
+
+// The service worker's registration once it is active, or null when there
+// is none within WORKER_TIMEOUT_MS
+async function activeRegistration(): Promise<ServiceWorkerRegistration | null> {
+  if (!('serviceWorker' in navigator)) return null
+  const timeout = new Promise<null>((resolve) => setTimeout(() => resolve(null), WORKER_TIMEOUT_MS))
+  const reg = await Promise.race([navigator.serviceWorker.ready, timeout])
+  return reg?.active ? reg : null
+}
+
+// Hand the plan to the service worker, replacing what it had. Resolves
+// false when there is no worker to take it.
+export async function scheduleReminders(reminders: Reminder[]): Promise<boolean> {
+  const reg = await activeRegistration()
+  if (!reg) return false
+  reg.active!.postMessage({ type: 'reminders', reminders })
+  // Browsers that support it wake the worker now and then to deliver
+  // reminders while the app is closed; elsewhere they wait for the next visit
+  const periodicSync = (reg as ServiceWorkerRegistration & { periodicSync?: { register: (tag: string, options: { minInterval: number }) => Promise<void> } }).periodicSync
+  if (reminders.length && periodicSync) {
+    periodicSync.register('reminders', { minInterval: 60 * 60 * 1000 }).catch(() => {})
+  }
+  return true
+}
+
+// Resolves false when notifications aren't allowed or there is no worker to
+// show them
+export async function showTestReminder(settings: ReminderSettings): Promise<boolean> {
+  if (notificationState() !== 'granted') return false
+  const reg = await activeRegistration()
+  if (!reg) return false
+  await reg.showNotification(
+    settings.discreet ? APP_NAME : 'Reminders are on',
+    { body: settings.discreet ? 'You have a reminder.' : 'This is how reminders from Sub-Track will look.', tag: 'test' }
+  )
+  return true
+}
+
+// Identifies a plan for scheduling: ids, times and titles (which "Hide
+// details" changes). A limit warning is due "now" whenever it is planned, so
+// its time doesn't count.
+export const reminderPlanKey = (reminders: Reminder[]) =>
+  JSON.stringify(reminders.map((r) => [r.id, r.kind === 'limit' ? 0 : r.at, r.title]))
@@ -0,0 +1,31 @@
+// Full-text search helpers shared by the FTS query in db.ts and the
+// highlighting in History.
+
+// Words of a search, lower-cased; punctuation only separates them
+export function searchTerms(text: string): string[] {
+  return Array.from(new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []))
+}
+
+// FTS4 MATCH expression: every word must appear, each matching as a prefix
+// so results show up while the user is still typing
+export function toMatchQuery(terms: string[]): string | null {
+  return terms.length ? terms.map((t) => `${t}*`).join(' ') : null
+}
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// Split `text` into plain and matching parts, matching terms at word starts
+// the same way the index does
+export function splitMatches(text: string, terms: string[]): { text: string; match: boolean }[] {
+  if (!terms.length || !text) return [{ text, match: false }]
+  const re = new RegExp(`(?<![\\p{L}\\p{N}])(${terms.map(escapeRegExp).join('|')})`, 'giu')
+  const parts: { text: string; match: boolean }[] = []
+  let last = 0
+  for (const m of text.matchAll(re)) {
+    if (m.index! > last) parts.push({ text: text.slice(last, m.index), match: false })
+    parts.push({ text: m[0], match: true })
+    last = m.index! + m[0].length
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), match: false })
+  return parts
+}
@@ -0,0 +1,88 @@
+import { getDateKey } from './constants'
+
+// Use-free streaks, counted in local calendar days. They are recomputed from
+// the log every time, so edited and backdated entries are always reflected.
+
+export type Streak = {
+  start: string // first use-free day (yyyy-mm-dd)
+  end: string | null // last use-free day; null while still going
+  days: number
+}
+
+export type StreakSummary = {
+  lastUse: string | null // ISO timestamp of the most recent use
+  current: number // use-free days including today; 0 if used today
+  currentStart: string | null
+  longest: number
+  history: Streak[] // newest first, including the current streak
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Day numbers make the arithmetic immune to DST changes
+const dayNumber = (key: string) => {
+  const [y, m, d] = key.split('-').map(Number)
+  return Math.round(Date.UTC(y, m - 1, d) / DAY_MS)
+}
+
+const dayKey = (n: number) => new Date(n * DAY_MS).toISOString().slice(0, 10)
+
+// `timestamps` are the substance's log times in any order; entries in the
+// future are ignored. A use on a break's start day ends the previous streak
+// but the new one starts that same day instead of the day after.
+export function streakSummary(timestamps: string[], breakDates: string[], now = new Date()): StreakSummary {
+  const today = dayNumber(getDateKey(now.toISOString()))
+  const breaks = new Set(breakDates)
+  let lastUse: string | null = null
+  // day -> first use-free day after it
+  const blockers = new Map<number, number>()
+  let lastUseTime = -Infinity
+  for (const ts of timestamps) {
+    const time = new Date(ts).getTime()
+    if (time > now.getTime()) continue
+    if (time > lastUseTime) {
+      lastUse = ts
+      lastUseTime = time
+    }
+    const key = getDateKey(ts)
+    const day = dayNumber(key)
+    blockers.set(day, breaks.has(key) ? day : day + 1)
+  }
+
+  const days = [...blockers.keys()].sort((a, b) => a - b)
+  const history: Streak[] = []
+  for (let i = 1; i < days.length; i++) {
+    const start = blockers.get(days[i - 1])!
+    const end = days[i] - 1
+    if (end >= start) history.unshift({ start: dayKey(start), end: dayKey(end), days: end - start + 1 })
+  }
+
+  // With nothing logged, a break mark alone starts the count
+  const lastBreak = breakDates.map(dayNumber).filter((d) => d <= today).sort((a, b) => b - a)[0]
+  const start = days.length ? blockers.get(days[days.length - 1])! : lastBreak
+  let current = 0
+  let currentStart: string | null = null
+  if (start !== undefined && start <= today) {
+    current = today - start + 1
+    currentStart = dayKey(start)
+    history.unshift({ start: currentStart, end: null, days: current })
+  }
+
+  return {
+    lastUse,
+    current,
+    currentStart,
+    longest: history.reduce((max, s) => Math.max(max, s.days), 0),
+    history,
+  }
+}
+
+// "45 min", "7 h", "3 days 4 h"
+export function formatElapsed(ms: number): string {
+  const minutes = Math.max(0, Math.floor(ms / 60000))
+  if (minutes < 60) return `${minutes} min`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 48) return `${hours} h`
+  const days = Math.floor(hours / 24)
+  return `${days} days${hours % 24 ? ` ${hours % 24} h` : ''}`
+}
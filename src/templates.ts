@@ -0,0 +1,45 @@
+import { Dose, LogEntry, LogTemplate, Substance } from './constants'
+import { formatDose } from './dosage'
+
+// Quick-log templates: saved substance, dose and feelings combinations that
+// are logged with one tap.
+
+// How far back a quick log can be dated, in minutes
+export const BACKDATE_OPTIONS = [0, 15, 30, 60, 120, 240]
+
+export function describeBackdate(minutes: number): string {
+  if (minutes === 0) return 'Now'
+  if (minutes < 60) return `${minutes} minutes ago`
+  const hours = minutes / 60
+  return hours === 1 ? '1 hour ago' : `${hours} hours ago`
+}
+
+// "Alcohol, 1 drink, relaxed": the default label for a template
+export function templateLabel(substance: Substance | undefined, dose?: Dose, feelings?: string[]): string {
+  return [substance?.name ?? 'Unknown substance', dose ? formatDose(dose) : '', ...(feelings ?? [])].filter(Boolean).join(', ')
+}
+
+export function newTemplate(substanceId: string, sortOrder: number): LogTemplate {
+  return { id: crypto.randomUUID(), label: '', substanceId, sortOrder }
+}
+
+// The entry a template logs, dated `minutesAgo` before `now`
+export function templateToLog(template: LogTemplate, substance: Substance, minutesAgo = 0, now = new Date()): LogEntry {
+  return {
+    id: crypto.randomUUID(),
+    substance: substance.name,
+    feelings: template.feelings?.length ? template.feelings : undefined,
+    dose: template.dose,
+    context: template.context,
+    timestamp: new Date(now.getTime() - minutesAgo * 60 * 1000).toISOString(),
+  }
+}
+
+// Move the template at `index` one place up (-1) or down (1)
+export function moveTemplate(templates: LogTemplate[], index: number, by: -1 | 1): LogTemplate[] {
+  const to = index + by
+  if (to < 0 || to >= templates.length) return templates
+  const next = [...templates]
+  ;[next[index], next[to]] = [next[to], next[index]]
+  return next.map((t, i) => ({ ...t, sortOrder: i }))
+}